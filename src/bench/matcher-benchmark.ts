@@ -0,0 +1,136 @@
+/**
+ * MATCHER BENCHMARK
+ *
+ * Runs GLMatcher on synthetic ledgers and reports time per strategy.
+ *
+ * Usage: npm run benchmark -- [bankRows=50000] [strategy=greedy|optimal|both]
+ *
+ * The synthetic QB side mirrors the bank side with the mix seen in real files:
+ * exact and date-shifted entries, 2-3 way splits, rounding differences,
+ * recurring identical amounts and unrelated GL-only rows.
+ */
+
+import { GLMatcher, BankTransaction, QBTransaction } from '../main/matcher';
+import { AssignmentStrategy, DEFAULT_MATCHING_CONFIG } from '../main/matching-config';
+
+const VENDORS = ['AMAZON', 'STAPLES', 'COMCAST', 'ADP PAYROLL', 'CITI CARD', 'CHASE', 'SHELL OIL', 'UBER', 'VERIZON', 'CUSTOMER DEPOSIT'];
+const RECURRING_AMOUNTS = [99.99, 250, 1000, 1500, 49.5];
+
+/**
+ * Deterministic PRNG (mulberry32) so runs are comparable
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate `count` bank rows over one year and a QB ledger that reconciles to most of them
+ */
+function generateLedgers(count: number, seed = 42): { bank: BankTransaction[]; qb: QBTransaction[] } {
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const dayOfYear = (day: number) => new Date(2025, 0, 1 + Math.max(0, Math.min(364, day)));
+
+  const bank: BankTransaction[] = [];
+  const qb: QBTransaction[] = [];
+
+  const addQB = (date: Date, type: 'Deposit' | 'Withdrawal', amount: number, name: string) => {
+    qb.push({
+      id: `Q:bench:${qb.length + 1}`,
+      date,
+      transNumber: String(qb.length + 1),
+      type: type === 'Deposit' ? 'Deposit' : pick(['Check', 'Expense', 'Bill Pmt -Check']),
+      account: 'Operating Checking',
+      name,
+      memo: '',
+      split: 'Expenses',
+      debit: type === 'Deposit' ? amount : 0,
+      credit: type === 'Withdrawal' ? amount : 0,
+      amount: type === 'Deposit' ? amount : -amount
+    });
+  };
+
+  for (let i = 0; i < count; i++) {
+    const day = Math.floor(random() * 365);
+    const type = random() < 0.3 ? 'Deposit' : 'Withdrawal';
+    const amount = random() < 0.15 ? pick(RECURRING_AMOUNTS) : round(1 + random() * 5000);
+    const vendor = pick(VENDORS);
+
+    bank.push({
+      id: `B:bench:${i + 1}`,
+      date: dayOfYear(day),
+      type,
+      vendor,
+      description: `${vendor} ${i}`,
+      amount: type === 'Deposit' ? amount : -amount,
+      sourceFile: 'bench'
+    });
+
+    const kind = random();
+    if (kind < 0.55) {
+      addQB(dayOfYear(day), type, amount, vendor);
+    } else if (kind < 0.8) {
+      addQB(dayOfYear(day + Math.floor(random() * 15) - 7), type, amount, vendor);
+    } else if (kind < 0.88 && amount > 10) {
+      const first = round(amount * (0.2 + random() * 0.5));
+      addQB(dayOfYear(day + 1), type, first, vendor);
+      addQB(dayOfYear(day + 2), type, round(amount - first), vendor);
+    } else if (kind < 0.93) {
+      addQB(dayOfYear(day + 1), type, round(amount + (random() - 0.5)), vendor);
+    }
+    // Remaining ~7%: bank-only (fees, unrecorded items)
+
+    // GL-only noise: journal entries with no bank counterpart
+    if (random() < 0.05) {
+      addQB(dayOfYear(Math.floor(random() * 365)), random() < 0.5 ? 'Deposit' : 'Withdrawal', round(1 + random() * 5000), pick(VENDORS));
+    }
+  }
+
+  return { bank, qb };
+}
+
+function run(bank: BankTransaction[], qb: QBTransaction[], strategy: AssignmentStrategy): void {
+  const log = console.log;
+  console.log = () => undefined; // Silence per-pass logging
+
+  const start = process.hrtime.bigint();
+  let result;
+  try {
+    result = new GLMatcher(bank, qb, undefined, { ...DEFAULT_MATCHING_CONFIG, strategy }).match();
+  } finally {
+    console.log = log;
+  }
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+
+  console.log(`\n${strategy}: ${(ms / 1000).toFixed(2)}s, match rate ${result.matchRate.toFixed(1)}%, heap ${Math.round(process.memoryUsage().heapUsed / 1048576)} MB`);
+  for (const { pass, matches } of result.passResults) {
+    console.log(`  ${pass}: ${matches}`);
+  }
+}
+
+function main(): void {
+  const count = parseInt(process.argv[2] || '50000', 10);
+  const mode = process.argv[3] || 'both';
+  if (isNaN(count) || count <= 0 || !['greedy', 'optimal', 'both'].includes(mode)) {
+    console.error('Usage: npm run benchmark -- [bankRows=50000] [strategy=greedy|optimal|both]');
+    process.exit(1);
+  }
+
+  const { bank, qb } = generateLedgers(count);
+  console.log(`Synthetic ledgers: ${bank.length} bank rows, ${qb.length} QB rows`);
+
+  const strategies: AssignmentStrategy[] = mode === 'both' ? ['greedy', 'optimal'] : [mode as AssignmentStrategy];
+  for (const strategy of strategies) {
+    run(bank, qb, strategy);
+  }
+}
+
+main();
@@ -0,0 +1,74 @@
+/**
+ * RECONCILIATION STATEMENT CHECK
+ *
+ * Builds statements for small hand-made ledgers and fails when one does not
+ * reconcile to 0.
+ *
+ * Usage: npm run check:statement
+ *
+ * Bank formats with a Type column may list withdrawals as positive amounts;
+ * the statement has to take the direction from the type, not the sign.
+ */
+
+import { GLMatcher, BankTransaction, QBTransaction } from '../main/matcher';
+import { buildReconciliationStatement, ReconciliationStatement } from '../main/reconciliation-statement';
+import { ReconciliationPeriod, periodWindow } from '../main/period';
+
+const PERIOD: ReconciliationPeriod = { start: '2025-01-01', end: '2025-01-31', lookaroundDays: 0 };
+
+function bankRow(id: number, day: number, type: BankTransaction['type'], vendor: string, amount: number): BankTransaction {
+  return { id: `B:check.csv:${id}`, date: new Date(2025, 0, day), type, vendor, description: vendor, amount, sourceFile: 'check.csv' };
+}
+
+function qbRow(id: number, day: number, type: string, name: string, debit: number, credit: number): QBTransaction {
+  return { id: `Q:check:${id}`, date: new Date(2025, 0, day), transNumber: String(id), type, name, memo: '', split: '', debit, credit, amount: debit - credit };
+}
+
+/**
+ * Match the rows and build the statement for the entered balances
+ */
+function statementFor(bank: BankTransaction[], qb: QBTransaction[], bankEnding: number, glEnding: number): ReconciliationStatement {
+  const log = console.log;
+  console.log = () => undefined; // Silence per-pass logging
+  try {
+    const matcher = new GLMatcher(bank, qb, undefined, undefined, periodWindow(PERIOD));
+    const result = matcher.match();
+    return buildReconciliationStatement(result, matcher.getBankTransactions(), matcher.getQBTransactions(), PERIOD, {
+      entered: { bankOpening: 1000, bankEnding, glOpening: 1000, glEnding },
+      bankFile: {}
+    });
+  } finally {
+    console.log = log;
+  }
+}
+
+function expect(name: string, statement: ReconciliationStatement, itemCount: number): boolean {
+  const ok = statement.difference === 0 && statement.bankRollForwardDifference === 0 && statement.items.length === itemCount;
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${name}: difference ${statement.difference}, roll-forward ${statement.bankRollForwardDifference}, ${statement.items.length} item(s)`);
+  return ok;
+}
+
+function main(): void {
+  const positiveWithdrawals = [
+    bankRow(2, 5, 'Deposit', 'CLIENT A', 1000),
+    bankRow(3, 10, 'Withdrawal', 'RENT', 350)
+  ];
+  const gl = [
+    qbRow(1, 5, 'Deposit', 'Client A', 1000, 0),
+    qbRow(2, 10, 'Check', 'Rent', 0, 350)
+  ];
+  const signedWithdrawals = positiveWithdrawals.map(b => (b.type === 'Withdrawal' ? { ...b, amount: -b.amount } : b));
+  const serviceCharge = bankRow(4, 31, 'Withdrawal', 'BANK', 25);
+
+  const results = [
+    expect('Matched withdrawal with a positive amount', statementFor(positiveWithdrawals, gl, 1650, 1650), 0),
+    expect('Matched withdrawal with a negative amount', statementFor(signedWithdrawals, gl, 1650, 1650), 0),
+    expect('Unmatched withdrawal with a positive amount', statementFor([...positiveWithdrawals, serviceCharge], gl, 1625, 1650), 1)
+  ];
+
+  if (results.some(ok => !ok)) {
+    process.exit(1);
+  }
+}
+
+main();
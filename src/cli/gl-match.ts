@@ -0,0 +1,325 @@
+#!/usr/bin/env node
+/**
+ * GL-MATCH COMMAND LINE
+ *
+ * Runs the reconciliation pipeline without the desktop app, for scripted
+ * closes. Prints a JSON summary on stdout; progress goes to stderr.
+ *
+ * Usage:
+ *   gl-match run --bank <file>[=<GL account>] [--bank ...] --gl <file> [--config <json>] [--out <dir>]
+ *                [--client <name>] [--period-start YYYY-MM-DD --period-end YYYY-MM-DD]
+ *                [--lookaround <days>] [--profile <id>] [--accounts <a,b>] [--csv]
+ *                [--hold-out-duplicates]
+ *   gl-match batch --manifest <json> [--out <dir>]
+ *
+ * Several --bank statements reconcile in one run, each against the GL cash
+ * account named after its "=".
+ *
+ * Common options: --data-dir <dir> (import profiles and vendor aliases,
+ * defaults to the desktop app's settings folder), --quiet (no progress).
+ *
+ * Exit codes: 0 reconciled (or no balances to check against), 1 unexplained
+ * difference, 2 bad arguments or manifest, 3 a run failed.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReconciliationOptions, PipelineLog, RunSummary, resolveSource, runPipeline, summarizeRun } from '../main/pipeline';
+import { BankStatementSource } from '../main/session';
+import { periodLabel } from '../main/period';
+
+const EXIT_RECONCILED = 0;
+const EXIT_DIFFERENCE = 1;
+const EXIT_USAGE = 2;
+const EXIT_FAILED = 3;
+
+/** Folder name of the desktop app's user data (package.json `name`) */
+const APP_DATA_NAME = 'aritas-gl-matching';
+
+const VALUE_FLAGS = ['bank', 'gl', 'config', 'out', 'client', 'period-start', 'period-end', 'lookaround', 'profile', 'accounts', 'manifest', 'data-dir'];
+const BOOLEAN_FLAGS = ['csv', 'hold-out-duplicates', 'quiet'];
+const REPEATABLE_FLAGS = ['bank'];
+
+type Args = { [flag: string]: string | boolean | string[] };
+
+/**
+ * One reconciliation: files, options and where its outputs go. A single
+ * statement can be given as `bank`; several go in `banks`, each with its
+ * GL cash account.
+ */
+interface RunRequest extends ReconciliationOptions {
+  bank?: string;
+  banks?: BankStatementSource[];
+  gl: string;
+  out?: string;
+}
+
+/**
+ * Batch manifest. Paths are relative to the manifest file; `config` holds
+ * options shared by every run, which each run can override.
+ */
+interface BatchManifest {
+  config?: string;
+  out?: string;
+  runs: RunRequest[];
+}
+
+type RunOutcome =
+  | ({ status: 'reconciled' | 'difference' | 'unverified' } & RunSummary)
+  | { status: 'failed'; client?: string; bank: string[]; gl: string; error: string };
+
+class UsageError extends Error {}
+
+async function main(): Promise<number> {
+  const [command, ...rest] = process.argv.slice(2);
+  let args: Args;
+  try {
+    args = parseArgs(rest);
+  } catch (error: any) {
+    return usage(error.message);
+  }
+
+  // Parser and matcher progress goes through console.log - keep stdout for the JSON
+  const quiet = args.quiet === true;
+  console.log = quiet ? () => undefined : (...data: unknown[]) => console.error(...data);
+  const log: PipelineLog = (message, level) => {
+    if (!quiet && message) console.error(`[${level.toUpperCase()}] ${message}`);
+  };
+  const storeDir = typeof args['data-dir'] === 'string' ? args['data-dir'] : defaultStoreDir();
+
+  try {
+    if (command === 'run') {
+      const request = runRequest(args, process.cwd());
+      const outcome = await reconcile(request, storeDir, log, label => path.resolve(`GL_Matching_Results_${label}_${Date.now()}`));
+      printJSON(outcome);
+      return exitCode([outcome]);
+    }
+
+    if (command === 'batch') {
+      if (typeof args.manifest !== 'string') {
+        throw new UsageError('batch needs --manifest <file>');
+      }
+      const { requests, outRoot } = batchRequests(args.manifest, typeof args.out === 'string' ? args.out : undefined);
+      const outcomes: RunOutcome[] = [];
+      const folders = new Set<string>();
+      for (const [idx, request] of requests.entries()) {
+        // Without its own "out", each run gets a folder named for the client (or first bank file) and
+        // period - numbered by the run when an earlier run (e.g. another account of the client) has it
+        const first = statementsOf(request)[0].path;
+        const name = (request.client || path.basename(first, path.extname(first))).replace(/[^\w.-]+/g, '_');
+        log(`Run ${idx + 1} of ${requests.length}: ${name}`, 'info');
+        outcomes.push(await reconcile(request, storeDir, log, label => {
+          const folder = path.join(outRoot, `${name}_${label}`);
+          const unique = folders.has(folder) ? `${folder}_run${idx + 1}` : folder;
+          folders.add(unique);
+          return unique;
+        }));
+      }
+      const code = exitCode(outcomes);
+      printJSON({
+        status: code === EXIT_FAILED ? 'failed' : code === EXIT_DIFFERENCE ? 'difference' : 'reconciled',
+        runs: outcomes
+      });
+      return code;
+    }
+
+    return usage(command ? `Unknown command: ${command}` : 'Missing command');
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      return usage(error.message);
+    }
+    console.error(`Error: ${error.message}`);
+    return EXIT_FAILED;
+  }
+}
+
+/**
+ * Run one reconciliation into `request.out`, else the folder `defaultOut`
+ * names for the period. Failures are reported in the outcome, so a batch carries on.
+ */
+async function reconcile(
+  request: RunRequest,
+  storeDir: string,
+  log: PipelineLog,
+  defaultOut: (label: string) => string
+): Promise<RunOutcome> {
+  const statements = statementsOf(request);
+  try {
+    const source = resolveSource(statements, request.gl, request, storeDir);
+    const outputDir = request.out || defaultOut(periodLabel(source.period));
+    const summary = summarizeRun(await runPipeline(source, outputDir, { storeDir, log }));
+
+    // Accounts can offset each other in the consolidated figure - each must reconcile too
+    const difference = summary.statement ? summary.statement.difference : null;
+    const accountDifference = summary.accounts.some(a => a.statement && a.statement.difference !== null && a.statement.difference !== 0);
+    const status = difference === null ? 'unverified' : difference === 0 && !accountDifference ? 'reconciled' : 'difference';
+    return { status, ...summary };
+  } catch (error: any) {
+    log(`❌ ${error.message}`, 'error');
+    return { status: 'failed', client: request.client, bank: statements.map(s => s.path), gl: request.gl, error: error.message };
+  }
+}
+
+/**
+ * Helper: A run from the command line flags, over the options in --config
+ */
+function runRequest(args: Args, baseDir: string): RunRequest {
+  if (!Array.isArray(args.bank) || typeof args.gl !== 'string') {
+    throw new UsageError('run needs --bank <file> and --gl <file>');
+  }
+
+  const options: ReconciliationOptions = typeof args.config === 'string' ? readJSON(path.resolve(baseDir, args.config)) : {};
+  const period = { ...options.period };
+  if (typeof args['period-start'] === 'string') period.start = args['period-start'];
+  if (typeof args['period-end'] === 'string') period.end = args['period-end'];
+  if (typeof args.lookaround === 'string') period.lookaroundDays = parseNumber(args.lookaround, '--lookaround');
+
+  return {
+    ...options,
+    banks: args.bank.map(value => bankStatement(value, baseDir)),
+    gl: path.resolve(baseDir, args.gl),
+    out: typeof args.out === 'string' ? path.resolve(baseDir, args.out) : undefined,
+    client: typeof args.client === 'string' ? args.client : options.client,
+    bankProfileId: typeof args.profile === 'string' ? args.profile : options.bankProfileId,
+    accounts: typeof args.accounts === 'string' ? args.accounts.split(',').map(a => a.trim()).filter(a => a) : options.accounts,
+    csvExports: args.csv === true || options.csvExports,
+    holdOutDuplicates: args['hold-out-duplicates'] === true || options.holdOutDuplicates,
+    period
+  };
+}
+
+/**
+ * Helper: The runs of a manifest, with the shared config applied and paths
+ * resolved, and the folder their outputs go in
+ */
+function batchRequests(manifestPath: string, outOverride?: string): { requests: RunRequest[]; outRoot: string } {
+  const baseDir = path.dirname(path.resolve(manifestPath));
+  const manifest: BatchManifest = readJSON(path.resolve(manifestPath));
+  if (!Array.isArray(manifest.runs) || manifest.runs.length === 0) {
+    throw new UsageError(`${manifestPath}: the manifest needs a "runs" list`);
+  }
+
+  const shared: ReconciliationOptions = manifest.config ? readJSON(path.resolve(baseDir, manifest.config)) : {};
+  const requests = manifest.runs.map((run, idx) => {
+    const hasBanks = Array.isArray(run.banks) && run.banks.length > 0 && run.banks.every(b => typeof b.path === 'string');
+    if ((typeof run.bank !== 'string' && !hasBanks) || typeof run.gl !== 'string') {
+      throw new UsageError(`${manifestPath}: run ${idx + 1} needs "bank" (or "banks") and "gl"`);
+    }
+    return {
+      ...shared,
+      ...run,
+      period: { ...shared.period, ...run.period },
+      bank: typeof run.bank === 'string' ? path.resolve(baseDir, run.bank) : undefined,
+      banks: hasBanks ? run.banks!.map(b => ({ ...b, path: path.resolve(baseDir, b.path) })) : undefined,
+      gl: path.resolve(baseDir, run.gl),
+      out: run.out ? path.resolve(baseDir, run.out) : undefined
+    };
+  });
+
+  return { requests, outRoot: outOverride ? path.resolve(outOverride) : path.resolve(baseDir, manifest.out || '.') };
+}
+
+/**
+ * Helper: The bank statements of a run - `banks`, else the single `bank`
+ */
+function statementsOf(request: RunRequest): BankStatementSource[] {
+  if (request.banks && request.banks.length > 0) return request.banks;
+  return request.bank ? [{ path: request.bank }] : [];
+}
+
+/**
+ * Helper: A --bank value, "<file>" or "<file>=<GL account>". A file whose
+ * name contains "=" is taken whole when it exists.
+ */
+function bankStatement(value: string, baseDir: string): BankStatementSource {
+  const split = value.lastIndexOf('=');
+  if (split <= 0 || fs.existsSync(path.resolve(baseDir, value))) {
+    return { path: path.resolve(baseDir, value) };
+  }
+  return { path: path.resolve(baseDir, value.slice(0, split)), account: value.slice(split + 1).trim() || undefined };
+}
+
+/**
+ * Helper: --flag value pairs, repeatable --flag values and boolean --flags
+ */
+function parseArgs(argv: string[]): Args {
+  const args: Args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i].replace(/^--/, '');
+    if (!argv[i].startsWith('--')) {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    } else if (BOOLEAN_FLAGS.includes(flag)) {
+      args[flag] = true;
+    } else if (VALUE_FLAGS.includes(flag)) {
+      if (i + 1 >= argv.length || argv[i + 1].startsWith('--')) {
+        throw new Error(`--${flag} needs a value`);
+      }
+      const value = argv[++i];
+      if (REPEATABLE_FLAGS.includes(flag)) {
+        args[flag] = [...((args[flag] as string[] | undefined) || []), value];
+      } else {
+        args[flag] = value;
+      }
+    } else {
+      throw new Error(`Unknown option: --${flag}`);
+    }
+  }
+  return args;
+}
+
+/**
+ * Helper: Unexplained differences only count when every run completed
+ */
+function exitCode(outcomes: RunOutcome[]): number {
+  if (outcomes.some(o => o.status === 'failed')) return EXIT_FAILED;
+  if (outcomes.some(o => o.status === 'difference')) return EXIT_DIFFERENCE;
+  return EXIT_RECONCILED;
+}
+
+/**
+ * Helper: The desktop app's user data folder (Electron's app.getPath('userData'))
+ */
+function defaultStoreDir(): string {
+  const home = os.homedir();
+  if (process.platform === 'win32') {
+    return path.join(process.env.APPDATA || path.join(home, 'AppData', 'Roaming'), APP_DATA_NAME);
+  }
+  if (process.platform === 'darwin') {
+    return path.join(home, 'Library', 'Application Support', APP_DATA_NAME);
+  }
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(home, '.config'), APP_DATA_NAME);
+}
+
+function readJSON<T>(filePath: string): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new UsageError(`Could not read ${filePath}: ${error.message}`);
+  }
+}
+
+function parseNumber(value: string, flag: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new UsageError(`${flag} needs a number`);
+  }
+  return number;
+}
+
+function printJSON(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+function usage(problem: string): number {
+  console.error(`${problem}\n`);
+  console.error('Usage: gl-match run --bank <file>[=<GL account>] [--bank ...] --gl <file> [--config <json>] [--out <dir>] [--client <name>]');
+  console.error('                    [--period-start YYYY-MM-DD --period-end YYYY-MM-DD] [--lookaround <days>]');
+  console.error('                    [--profile <id>] [--accounts <a,b>] [--csv] [--hold-out-duplicates] [--data-dir <dir>] [--quiet]');
+  console.error('       gl-match batch --manifest <json> [--out <dir>] [--data-dir <dir>] [--quiet]');
+  return EXIT_USAGE;
+}
+
+main().then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,95 @@
+/**
+ * ALIAS LEARNING
+ *
+ * Every confirmed match pairs a bank vendor with a QB name. Where the two
+ * still normalize to different names, the pair is evidence for a vendor alias;
+ * the evidence is counted per bank vendor and offered as suggestions the user
+ * approves or rejects.
+ */
+
+import { MatchedPair, TRANSFER_MATCH_TYPE } from './matcher';
+import { VendorAlias } from './vendor-aliases';
+
+export interface AliasSuggestion {
+  /** Bank vendor text, upper case - the alias variant */
+  variant: string;
+  /** QB name as the vendor comparison sees it - the alias target */
+  canonical: string;
+  /** QB names behind the canonical name, for display */
+  qbNames: string[];
+  /** Confirmed matches supporting the alias */
+  support: number;
+  /** Confirmed matches pairing the same bank vendor with a different name */
+  conflicting: number;
+  /** Client the alias would be saved for - all clients when absent */
+  client?: string;
+}
+
+/**
+ * Suggest aliases from confirmed matches (transfers aside). Bank vendors that
+ * already have an alias, and suggestions the user rejected before, are left out.
+ *
+ * `vendorKey` is the matcher's vendor normalization (GLMatcher.vendorKey).
+ */
+export function suggestVendorAliases(
+  confirmed: MatchedPair[],
+  vendorKey: (vendor: string, description?: string) => string,
+  aliases: VendorAlias[],
+  rejected: Omit<VendorAlias, 'id' | 'source'>[],
+  client?: string
+): AliasSuggestion[] {
+  // variant -> canonical -> supporting matches and QB names
+  const evidence = new Map<string, Map<string, { support: number; qbNames: Set<string> }>>();
+
+  for (const match of confirmed) {
+    // Transfers between the client's accounts pair no vendors
+    if (match.matchType === TRANSFER_MATCH_TYPE) continue;
+    const seen = new Set<string>();
+
+    for (const bank of match.bankRows) {
+      const variant = (bank.vendor || '').toUpperCase().trim();
+      const bankKey = vendorKey(bank.vendor);
+      // Vendors named from the description (e.g. Zelle payee) are not alias material
+      if (!variant || bankKey !== vendorKey(bank.vendor, bank.description)) continue;
+
+      for (const qb of match.qbRows) {
+        const canonical = vendorKey(qb.name);
+        if (!canonical || canonical === bankKey) continue;
+
+        const key = `${variant}\u0000${canonical}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const byCanonical = evidence.get(variant) || new Map();
+        evidence.set(variant, byCanonical);
+        const entry = byCanonical.get(canonical) || { support: 0, qbNames: new Set<string>() };
+        byCanonical.set(canonical, entry);
+        entry.support++;
+        entry.qbNames.add(qb.name);
+      }
+    }
+  }
+
+  const applies = (a: { client?: string }) => !a.client || a.client === client;
+  const suggestions: AliasSuggestion[] = [];
+
+  for (const [variant, byCanonical] of evidence) {
+    if (aliases.some(a => a.variant === variant && applies(a))) continue;
+
+    const total = [...byCanonical.values()].reduce((sum, e) => sum + e.support, 0);
+    for (const [canonical, entry] of byCanonical) {
+      if (rejected.some(r => r.variant === variant && r.canonical === canonical && (r.client || '') === (client || ''))) continue;
+
+      suggestions.push({
+        variant,
+        canonical,
+        qbNames: [...entry.qbNames],
+        support: entry.support,
+        conflicting: total - entry.support,
+        ...(client ? { client } : {})
+      });
+    }
+  }
+
+  return suggestions.sort((a, b) => b.support - a.support || a.variant.localeCompare(b.variant));
+}
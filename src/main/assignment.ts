@@ -0,0 +1,177 @@
+/**
+ * OPTIMAL ASSIGNMENT
+ *
+ * Maximum-total-score one-to-one matching between two sets (bank rows and QB
+ * rows) given scored candidate edges. The candidate graph is split into
+ * connected components and each component is solved with the Hungarian
+ * algorithm, so cost grows with the size of ambiguous clusters rather than
+ * with the size of the whole ledger.
+ */
+
+export interface ScoredEdge {
+  row: number;
+  col: number;
+  /** Must be > 0; higher is better */
+  score: number;
+}
+
+/** Components larger than this fall back to best-score-first greedy selection */
+const MAX_HUNGARIAN_SIZE = 400;
+
+/**
+ * Choose a set of edges, at most one per row and per column, with maximum total score
+ */
+export function solveAssignment(edges: ScoredEdge[]): ScoredEdge[] {
+  const chosen: ScoredEdge[] = [];
+
+  for (const component of connectedComponents(edges)) {
+    if (component.length === 1) {
+      chosen.push(component[0]);
+      continue;
+    }
+
+    const rows = [...new Set(component.map(e => e.row))];
+    const cols = [...new Set(component.map(e => e.col))];
+
+    if (Math.max(rows.length, cols.length) > MAX_HUNGARIAN_SIZE) {
+      chosen.push(...greedyAssignment(component));
+    } else {
+      chosen.push(...hungarianAssignment(component, rows, cols));
+    }
+  }
+
+  return chosen;
+}
+
+/**
+ * Helper: Group edges into connected components (union-find over rows and columns)
+ */
+function connectedComponents(edges: ScoredEdge[]): ScoredEdge[][] {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    let node = key;
+    while (parent.get(node) !== root) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+
+  for (const edge of edges) {
+    const r = `r${edge.row}`;
+    const c = `c${edge.col}`;
+    if (!parent.has(r)) parent.set(r, r);
+    if (!parent.has(c)) parent.set(c, c);
+    const rootR = find(r);
+    const rootC = find(c);
+    if (rootR !== rootC) parent.set(rootR, rootC);
+  }
+
+  const groups = new Map<string, ScoredEdge[]>();
+  for (const edge of edges) {
+    const root = find(`r${edge.row}`);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(edge);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Helper: Hungarian algorithm on one component.
+ * Non-edges get score 0, so assigning them is equivalent to leaving the row unmatched.
+ */
+function hungarianAssignment(edges: ScoredEdge[], rows: number[], cols: number[]): ScoredEdge[] {
+  const n = Math.max(rows.length, cols.length);
+  const rowIdx = new Map(rows.map((r, i) => [r, i]));
+  const colIdx = new Map(cols.map((c, i) => [c, i]));
+
+  const maxScore = Math.max(...edges.map(e => e.score));
+  const edgeAt: (ScoredEdge | null)[][] = Array.from({ length: n }, () => new Array(n).fill(null));
+  for (const edge of edges) {
+    const i = rowIdx.get(edge.row)!;
+    const j = colIdx.get(edge.col)!;
+    if (!edgeAt[i][j] || edgeAt[i][j]!.score < edge.score) {
+      edgeAt[i][j] = edge;
+    }
+  }
+
+  // Minimize (maxScore - score); 1-based arrays per the classic O(n^3) formulation
+  const cost = (i: number, j: number) => maxScore - (edgeAt[i][j] ? edgeAt[i][j]!.score : 0);
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const p = new Array(n + 1).fill(0);
+  const way = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = cost(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const chosen: ScoredEdge[] = [];
+  for (let j = 1; j <= n; j++) {
+    const edge = p[j] > 0 ? edgeAt[p[j] - 1][j - 1] : null;
+    if (edge) chosen.push(edge);
+  }
+  return chosen;
+}
+
+/**
+ * Helper: Best-score-first selection for oversized components
+ */
+function greedyAssignment(edges: ScoredEdge[]): ScoredEdge[] {
+  const usedRows = new Set<number>();
+  const usedCols = new Set<number>();
+  const chosen: ScoredEdge[] = [];
+
+  for (const edge of [...edges].sort((a, b) => b.score - a.score)) {
+    if (usedRows.has(edge.row) || usedCols.has(edge.col)) continue;
+    usedRows.add(edge.row);
+    usedCols.add(edge.col);
+    chosen.push(edge);
+  }
+
+  return chosen;
+}
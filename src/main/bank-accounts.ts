@@ -0,0 +1,172 @@
+/**
+ * BANK ACCOUNTS
+ *
+ * Runs with several bank statements - operating, payroll, credit card - each
+ * mapped to its GL cash account. The matcher keeps every statement to its own
+ * account, except for the transfers between the client's own accounts (the
+ * transfer pass); this module splits a run's result back into one
+ * reconciliation per account and lists those transfers.
+ */
+
+import { BankTransaction, QBTransaction, MatchedPair, ReconciliationResult, TRANSFER_MATCH_TYPE } from './matcher';
+import { ExcludedRow } from './excluded-rows';
+import { ReconciliationPeriod, periodWindow, isInWindow } from './period';
+import { StatementBalances, ReconciliationStatement, buildReconciliationStatement } from './reconciliation-statement';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+/**
+ * One GL cash account and the bank statement(s) reconciled against it
+ */
+export interface BankAccountContext {
+  account: string;
+  /** Bank file names (as in the rows' `sourceFile` and excluded rows' `source`) */
+  files: string[];
+  /** Balances entered for this account and read from its bank file(s) */
+  balances: { entered: StatementBalances; bankFile: StatementBalances };
+}
+
+/**
+ * A run's result narrowed to one account, with that account's statement
+ */
+export interface AccountReconciliation {
+  account: string;
+  files: string[];
+  result: ReconciliationResult;
+  bankTransactions: BankTransaction[];
+  qbTransactions: QBTransaction[];
+  statement?: ReconciliationStatement;
+}
+
+/**
+ * Money moved between two of the client's accounts, from a Transfer match.
+ * A side may have recorded only one account's end of it.
+ */
+export interface TransferPair {
+  /** The Transfer match */
+  matchId: string;
+  fromAccount: string;
+  toAccount: string;
+  /** Withdrawal and deposit - missing when that statement does not show them */
+  from?: BankTransaction;
+  to?: BankTransaction;
+  /** GL credit to the paying account and debit to the receiving one - missing when not booked */
+  glCredit?: QBTransaction;
+  glDebit?: QBTransaction;
+  /** Earliest date of the transfer's rows */
+  date: Date;
+  /** Amount moved, positive */
+  amount: number;
+}
+
+/**
+ * One reconciliation per account, from a (possibly reviewed) run result.
+ * `bankTransactions` and `qbTransactions` are the rows the matcher saw; matches are
+ * assigned by their rows' accounts (the matcher does not match across them).
+ */
+export function reconcileByAccount(
+  result: ReconciliationResult,
+  bankTransactions: BankTransaction[],
+  qbTransactions: QBTransaction[],
+  accounts: BankAccountContext[],
+  period?: ReconciliationPeriod,
+  excludedRows: ExcludedRow[] = [],
+  heldOut: { bank: BankTransaction[]; qb: QBTransaction[] } = { bank: [], qb: [] }
+): AccountReconciliation[] {
+  const window = period ? periodWindow(period) : null;
+  const inPeriod = (row: { date: Date }) => !window || isInWindow(row.date, window);
+
+  return accounts.map(({ account, files, balances }) => {
+    const ofAccount = <T extends { account?: string }>(rows: T[]) => rows.filter(row => row.account === account);
+    // A transfer touches two accounts - each keeps its own end
+    const matched = result.matched
+      .filter(m => m.bankRows.some(b => b.account === account) || m.qbRows.some(qb => qb.account === account))
+      .map(m => m.matchType === TRANSFER_MATCH_TYPE ? { ...m, bankRows: ofAccount(m.bankRows), qbRows: ofAccount(m.qbRows) } : m);
+    const bank = ofAccount(bankTransactions);
+    const qb = ofAccount(qbTransactions);
+    const unmatchedBank = ofAccount(result.unmatchedBank);
+    const totalBank = bank.filter(inPeriod).length;
+
+    const accountResult: ReconciliationResult = {
+      ...result,
+      matched,
+      needsReview: matched.filter(m => m.needsReview),
+      unmatchedBank,
+      unmatchedQB: ofAccount(result.unmatchedQB),
+      outsidePeriod: { bank: ofAccount(result.outsidePeriod.bank), qb: ofAccount(result.outsidePeriod.qb) },
+      matchRate: totalBank > 0 ? ((totalBank - unmatchedBank.length) / totalBank) * 100 : 0,
+      totalBank,
+      totalQB: qb.filter(inPeriod).length,
+      passResults: []
+    };
+
+    // Bank rows the import profile skipped belong to the statement they came from
+    const statement = period
+      ? buildReconciliationStatement(accountResult, bank, qb, period, balances,
+        excludedRows.filter(e => e.side === 'bank' && files.includes(e.source)),
+        { bank: ofAccount(heldOut.bank), qb: ofAccount(heldOut.qb) })
+      : undefined;
+
+    return { account, files, result: accountResult, bankTransactions: bank, qbTransactions: qb, statement };
+  });
+}
+
+/**
+ * The transfers of a (possibly reviewed) result - its Transfer matches that
+ * were not rejected
+ */
+export function transfersOf(matched: MatchedPair[]): TransferPair[] {
+  return matched
+    .filter(m => m.matchType === TRANSFER_MATCH_TYPE && m.reviewStatus !== 'rejected')
+    .map(m => {
+      const from = m.bankRows.find(b => b.type === 'Withdrawal');
+      const to = m.bankRows.find(b => b.type === 'Deposit');
+      const glCredit = m.qbRows.find(qb => qb.credit > 0);
+      const glDebit = m.qbRows.find(qb => qb.debit > 0);
+      return {
+        matchId: m.id,
+        fromAccount: (from ? from.account : glCredit?.account) || '',
+        toAccount: (to ? to.account : glDebit?.account) || '',
+        from,
+        to,
+        glCredit,
+        glDebit,
+        date: m.bankDate.getTime() < m.qbDate.getTime() ? m.bankDate : m.qbDate,
+        amount: m.amount
+      };
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * What a transfer is missing, e.g. ["Payroll bank", "Checking GL"] - empty
+ * when both statements and the books show both ends
+ */
+export function transferGaps(transfer: TransferPair): string[] {
+  return [
+    transfer.from ? '' : `${transfer.fromAccount} bank`,
+    transfer.to ? '' : `${transfer.toAccount} bank`,
+    transfer.glCredit ? '' : `${transfer.fromAccount} GL`,
+    transfer.glDebit ? '' : `${transfer.toAccount} GL`
+  ].filter(gap => gap);
+}
+
+/**
+ * Rows left once the rows of Transfer matches are taken out - a transfer has
+ * no vendor to learn
+ */
+export function withoutTransfers(
+  matched: MatchedPair[],
+  bankTransactions: BankTransaction[],
+  qbTransactions: QBTransaction[]
+): { bankTransactions: BankTransaction[]; qbTransactions: QBTransaction[] } {
+  const transfers = matched.filter(m => m.matchType === TRANSFER_MATCH_TYPE);
+  const ids = new Set(transfers.flatMap(m => [...m.bankRows, ...m.qbRows].map(row => row.id)));
+
+  return {
+    bankTransactions: bankTransactions.filter(row => !ids.has(row.id)),
+    qbTransactions: qbTransactions.filter(row => !ids.has(row.id))
+  };
+}
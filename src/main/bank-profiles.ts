@@ -0,0 +1,289 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+export type BankField = 'date' | 'type' | 'vendor' | 'description' | 'amount' | 'debit' | 'credit' | 'balance' | 'sourceFile';
+
+export interface BankImportProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  /** Candidate header names per field - the first one present in the file wins */
+  columns: { [F in BankField]?: string[] };
+  /** 'signed': one Amount column (negative = withdrawal); 'debitCredit': separate money-out / money-in columns */
+  amountMode: 'signed' | 'debitCredit';
+  /** Flip the sign of signed amounts for banks that report withdrawals as positive numbers */
+  invertSign?: boolean;
+  /** Values of the type column whose rows are skipped (e.g. bank fees) */
+  skipTypes?: string[];
+  /** Header sets used for auto-detection - the profile is detected if any set is fully present */
+  detect?: string[][];
+  /** Synthetic header names for banks that export CSVs without a header row */
+  headerless?: string[];
+}
+
+export interface BankLayout {
+  profile: BankImportProfile;
+  headers: string[];
+  /** Index of the header row, or -1 when the file has no header row */
+  headerRowIndex: number;
+}
+
+/**
+ * BUILT-IN PROFILES
+ */
+
+export const BUILTIN_BANK_PROFILES: BankImportProfile[] = [
+  {
+    id: 'standard',
+    name: 'Standard (Date/Type/Vendor/Description/Amount)',
+    builtIn: true,
+    columns: {
+      date: ['Date'],
+      type: ['Type'],
+      vendor: ['Vendor'],
+      description: ['Description'],
+      amount: ['Amount'],
+      balance: ['Balance'],
+      sourceFile: ['Source_File']
+    },
+    amountMode: 'signed',
+    skipTypes: ['Fee'],
+    detect: [['Date', 'Type', 'Vendor', 'Description', 'Amount']]
+  },
+  {
+    id: 'chase',
+    name: 'Chase',
+    builtIn: true,
+    columns: {
+      date: ['Posting Date', 'Transaction Date', 'Post Date'],
+      description: ['Description'],
+      amount: ['Amount'],
+      balance: ['Balance']
+    },
+    amountMode: 'signed',
+    detect: [
+      ['Details', 'Posting Date', 'Description', 'Amount'],
+      ['Transaction Date', 'Post Date', 'Description', 'Amount']
+    ]
+  },
+  {
+    id: 'bofa',
+    name: 'Bank of America',
+    builtIn: true,
+    columns: {
+      date: ['Date', 'Posted Date'],
+      description: ['Description', 'Payee'],
+      amount: ['Amount'],
+      balance: ['Running Bal.']
+    },
+    amountMode: 'signed',
+    detect: [
+      ['Date', 'Description', 'Amount', 'Running Bal.'],
+      ['Posted Date', 'Reference Number', 'Payee', 'Amount']
+    ]
+  },
+  {
+    id: 'wells',
+    name: 'Wells Fargo',
+    builtIn: true,
+    columns: {
+      date: ['Date'],
+      description: ['Description'],
+      amount: ['Amount']
+    },
+    amountMode: 'signed',
+    headerless: ['Date', 'Amount', 'Star', 'Check Number', 'Description']
+  },
+  {
+    id: 'citi',
+    name: 'Citi',
+    builtIn: true,
+    columns: {
+      date: ['Date'],
+      description: ['Description'],
+      debit: ['Debit'],
+      credit: ['Credit']
+    },
+    amountMode: 'debitCredit',
+    detect: [['Status', 'Date', 'Description', 'Debit', 'Credit']]
+  },
+  {
+    id: 'generic',
+    name: 'Generic',
+    builtIn: true,
+    columns: {
+      date: ['Date', 'Posting Date', 'Posted Date', 'Transaction Date', 'Trans Date', 'Effective Date'],
+      type: ['Type', 'Transaction Type'],
+      vendor: ['Vendor', 'Payee', 'Merchant', 'Name'],
+      description: ['Description', 'Memo', 'Details', 'Narrative'],
+      amount: ['Amount', 'Transaction Amount'],
+      debit: ['Debit', 'Withdrawal', 'Withdrawals', 'Money Out'],
+      credit: ['Credit', 'Deposit', 'Deposits', 'Money In'],
+      balance: ['Balance', 'Running Balance', 'Running Bal.', 'Ledger Balance']
+    },
+    amountMode: 'signed'
+  }
+];
+
+const PROFILE_STORE_FILE = 'bank-profiles.json';
+
+/**
+ * Load built-in profiles plus any user-saved profiles from the store directory
+ */
+export function loadBankProfiles(storeDir: string): BankImportProfile[] {
+  return [...BUILTIN_BANK_PROFILES, ...readCustomProfiles(storeDir)];
+}
+
+/**
+ * Save (create or replace) a user-defined profile
+ */
+export function saveBankProfile(storeDir: string, profile: BankImportProfile): BankImportProfile {
+  if (!profile.name || !profile.name.trim()) {
+    throw new Error('Profile name is required');
+  }
+  if (!profile.columns.date || profile.columns.date.length === 0) {
+    throw new Error('Profile must map a Date column');
+  }
+  if (profile.amountMode === 'signed' && !profile.columns.amount?.length) {
+    throw new Error('Profile must map an Amount column');
+  }
+  if (profile.amountMode === 'debitCredit' && (!profile.columns.debit?.length || !profile.columns.credit?.length)) {
+    throw new Error('Profile must map both Debit and Credit columns');
+  }
+
+  const saved: BankImportProfile = {
+    ...profile,
+    id: profile.id && !isBuiltInId(profile.id) ? profile.id : slugify(profile.name),
+    builtIn: false
+  };
+
+  const custom = readCustomProfiles(storeDir).filter(p => p.id !== saved.id);
+  custom.push(saved);
+  writeCustomProfiles(storeDir, custom);
+
+  return saved;
+}
+
+/**
+ * Delete a user-defined profile (built-ins cannot be deleted)
+ */
+export function deleteBankProfile(storeDir: string, id: string): void {
+  if (isBuiltInId(id)) {
+    throw new Error('Built-in profiles cannot be deleted');
+  }
+  writeCustomProfiles(storeDir, readCustomProfiles(storeDir).filter(p => p.id !== id));
+}
+
+/**
+ * Locate the header row and profile for raw CSV rows.
+ * With an explicit profile only that profile is tried; otherwise each candidate
+ * profile's detection header sets are checked, falling back to the generic profile.
+ */
+export function locateBankLayout(rows: string[][], profiles: BankImportProfile[], explicit?: BankImportProfile): BankLayout | null {
+  if (explicit) {
+    return locateWithProfile(rows, explicit, false);
+  }
+
+  // Specific profiles first (user-saved before built-in), generic last
+  const ordered = [
+    ...profiles.filter(p => !p.builtIn && p.id !== 'generic'),
+    ...profiles.filter(p => p.builtIn && p.id !== 'generic')
+  ];
+
+  for (const profile of ordered) {
+    const layout = locateWithProfile(rows, profile, true);
+    if (layout) return layout;
+  }
+
+  const generic = profiles.find(p => p.id === 'generic');
+  return generic ? locateWithProfile(rows, generic, false) : null;
+}
+
+/**
+ * Helper: Find index of the first header matching any of the candidate names
+ */
+export function findColumn(headers: string[], names?: string[]): number {
+  if (!names) return -1;
+  const normalized = headers.map(h => normalizeHeader(h));
+  for (const name of names) {
+    const idx = normalized.indexOf(normalizeHeader(name));
+    if (idx !== -1) return idx;
+  }
+  return -1;
+}
+
+/**
+ * Helper: Try one profile against the first rows of the file
+ */
+function locateWithProfile(rows: string[][], profile: BankImportProfile, requireSignature: boolean): BankLayout | null {
+  if (profile.headerless) {
+    // Headerless exports are only recognized when the first row is data, not headers
+    const first = rows[0] || [];
+    const looksLikeData = first.length === profile.headerless.length && /^\d{1,2}\/\d{1,2}\/\d{2,4}$/.test((first[0] || '').trim());
+    return looksLikeData ? { profile, headers: profile.headerless, headerRowIndex: -1 } : null;
+  }
+
+  for (let i = 0; i < Math.min(20, rows.length); i++) {
+    const headers = rows[i].map(h => (h || '').toString());
+
+    if (requireSignature) {
+      const signatures = profile.detect || [];
+      if (!signatures.some(set => set.every(name => findColumn(headers, [name]) !== -1))) {
+        continue;
+      }
+    }
+
+    if (hasRequiredColumns(headers, profile)) {
+      return { profile, headers, headerRowIndex: i };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Helper: Check that the date and amount columns a profile needs are present
+ */
+function hasRequiredColumns(headers: string[], profile: BankImportProfile): boolean {
+  if (findColumn(headers, profile.columns.date) === -1) return false;
+
+  const hasAmount = findColumn(headers, profile.columns.amount) !== -1;
+  const hasDebitCredit = findColumn(headers, profile.columns.debit) !== -1 && findColumn(headers, profile.columns.credit) !== -1;
+
+  return profile.amountMode === 'debitCredit' ? hasDebitCredit : (hasAmount || hasDebitCredit);
+}
+
+function readCustomProfiles(storeDir: string): BankImportProfile[] {
+  const filePath = path.join(storeDir, PROFILE_STORE_FILE);
+  if (!fs.existsSync(filePath)) return [];
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return Array.isArray(parsed) ? parsed.map((p: BankImportProfile) => ({ ...p, builtIn: false })) : [];
+  } catch (error) {
+    console.error(`Error reading bank profiles from ${filePath}:`, error);
+    return [];
+  }
+}
+
+function writeCustomProfiles(storeDir: string, profiles: BankImportProfile[]): void {
+  fs.mkdirSync(storeDir, { recursive: true });
+  fs.writeFileSync(path.join(storeDir, PROFILE_STORE_FILE), JSON.stringify(profiles, null, 2), 'utf-8');
+}
+
+function isBuiltInId(id: string): boolean {
+  return BUILTIN_BANK_PROFILES.some(p => p.id === id);
+}
+
+function slugify(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return isBuiltInId(slug) ? `custom-${slug}` : slug;
+}
+
+function normalizeHeader(header: string): string {
+  return (header || '').toString().trim().toLowerCase();
+}
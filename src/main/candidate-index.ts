@@ -0,0 +1,226 @@
+/**
+ * CANDIDATE INDEXES
+ *
+ * Lookup structures that let matching passes find candidates without scanning
+ * the whole ledger for every bank row:
+ * - DateIndex: rows sorted by date, range queries by binary search
+ * - AmountDateIndex: hash on amount in cents, each bucket a DateIndex
+ *
+ * Dates, amounts and removal flags live in typed arrays, so range scans never
+ * touch the row objects they skip. Matched rows are retired with remove().
+ */
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+interface Dated {
+  date: Date;
+}
+
+/**
+ * Rows sorted by date, optionally carrying an amount for upper-bound filtering
+ */
+export class DateIndex<T extends Dated> {
+  private rows: T[];
+  private times: Float64Array;
+  private amounts: Float64Array;
+  private removed: Uint8Array;
+  private slots = new Map<T, number>();
+
+  constructor(rows: T[], amount: (row: T) => number = () => 0) {
+    this.rows = [...rows].sort((a, b) => a.date.getTime() - b.date.getTime());
+    this.times = Float64Array.from(this.rows, r => r.date.getTime());
+    this.amounts = Float64Array.from(this.rows, amount);
+    this.removed = new Uint8Array(this.rows.length);
+    this.rows.forEach((row, i) => this.slots.set(row, i));
+  }
+
+  /**
+   * Exclude a row from future queries
+   */
+  public remove(row: T): void {
+    const slot = this.slots.get(row);
+    if (slot !== undefined) this.removed[slot] = 1;
+  }
+
+  /**
+   * Remaining rows dated within ±days of `date` (inclusive, same rule as
+   * GLMatcher.isWithinDays) with amount <= maxAmount, in date order
+   */
+  public near(date: Date, days: number, maxAmount = Infinity): T[] {
+    const center = date.getTime();
+    const to = center + days * DAY_MS;
+    const result: T[] = [];
+
+    for (let i = lowerBound(this.times, center - days * DAY_MS); i < this.times.length && this.times[i] <= to; i++) {
+      if (!this.removed[i] && this.amounts[i] <= maxAmount) result.push(this.rows[i]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Up to `limit` remaining rows from the same window, closest date first
+   * (earlier row on ties). Scans outward from `date`, so cost follows `limit`
+   * rather than the window size.
+   */
+  public nearest(date: Date, days: number, limit: number, maxAmount = Infinity): T[] {
+    const center = date.getTime();
+    const window = days * DAY_MS;
+    const result: T[] = [];
+    const eligible = (i: number) => !this.removed[i] && this.amounts[i] <= maxAmount;
+
+    let left = lowerBound(this.times, center) - 1;
+    let right = left + 1;
+
+    while (result.length < limit) {
+      const leftOpen = left >= 0 && center - this.times[left] <= window;
+      const rightOpen = right < this.times.length && this.times[right] - center <= window;
+      if (!leftOpen && !rightOpen) break;
+
+      if (leftOpen && (!rightOpen || center - this.times[left] <= this.times[right] - center)) {
+        if (eligible(left)) result.push(this.rows[left]);
+        left--;
+      } else {
+        if (eligible(right)) result.push(this.rows[right]);
+        right++;
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Rows bucketed by amount in cents, each bucket sorted by date
+ */
+export class AmountDateIndex<T extends Dated> {
+  private buckets = new Map<number, DateIndex<T>>();
+  private sortedCents: number[];
+  private amount: (row: T) => number;
+
+  constructor(rows: T[], amount: (row: T) => number) {
+    this.amount = amount;
+    const grouped = new Map<number, T[]>();
+    for (const row of rows) {
+      const cents = toCents(amount(row));
+      if (!grouped.has(cents)) grouped.set(cents, []);
+      grouped.get(cents)!.push(row);
+    }
+
+    for (const [cents, bucket] of grouped) {
+      this.buckets.set(cents, new DateIndex(bucket));
+    }
+    this.sortedCents = [...grouped.keys()].sort((a, b) => a - b);
+  }
+
+  /**
+   * Exclude a row from future queries
+   */
+  public remove(row: T): void {
+    const bucket = this.buckets.get(toCents(this.amount(row)));
+    if (bucket) bucket.remove(row);
+  }
+
+  /**
+   * Remaining rows with amount within ±tolerance and date within ±days
+   */
+  public find(amount: number, tolerance: number, date: Date, days: number): T[] {
+    const low = toCents(amount - tolerance);
+    const high = toCents(amount + tolerance);
+
+    if (low === high) {
+      const bucket = this.buckets.get(low);
+      return bucket ? bucket.near(date, days) : [];
+    }
+
+    const result: T[] = [];
+    for (let i = lowerBound(this.sortedCents, low); i < this.sortedCents.length && this.sortedCents[i] <= high; i++) {
+      result.push(...this.buckets.get(this.sortedCents[i])!.near(date, days));
+    }
+    return result;
+  }
+}
+
+/**
+ * Find `size` (2-4) distinct positive values summing exactly to `target`.
+ * Returns their indexes into `values`, or null.
+ *
+ * Values are sorted once; pairs use a two-pointer scan, triples fix one value
+ * and scan the rest, and quadruples meet in the middle over a hash of pair sums,
+ * so the cost is O(n²) at most instead of O(n^size).
+ */
+export function findSubsetSum(values: number[], target: number, size: number): number[] | null {
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const sorted = order.map(i => values[i]);
+
+  const found = size === 4 ? fourSum(sorted, target) : kSum(sorted, target, size, 0);
+  return found ? found.map(i => order[i]) : null;
+}
+
+/**
+ * Helper: Two-pointer pair sum, extended by fixing the smallest element for larger sizes
+ */
+function kSum(sorted: number[], target: number, size: number, start: number): number[] | null {
+  if (size === 2) {
+    let lo = start;
+    let hi = sorted.length - 1;
+    while (lo < hi) {
+      const sum = sorted[lo] + sorted[hi];
+      if (sum === target) return [lo, hi];
+      if (sum < target) lo++;
+      else hi--;
+    }
+    return null;
+  }
+
+  for (let i = start; i <= sorted.length - size; i++) {
+    // Remaining values are all >= sorted[i]
+    if (sorted[i] * size > target) break;
+    const rest = kSum(sorted, target - sorted[i], size - 1, i + 1);
+    if (rest) return [i, ...rest];
+  }
+  return null;
+}
+
+/**
+ * Helper: Meet in the middle - a quadruple i<j<k<l is a lower pair (i, j)
+ * completed by an upper pair (k, l); lower pairs are hashed by sum as k advances
+ */
+function fourSum(sorted: number[], target: number): number[] | null {
+  const lowerPairs = new Map<number, [number, number]>();
+
+  for (let k = 1; k < sorted.length - 1; k++) {
+    for (let i = 0; i < k - 1; i++) {
+      const sum = sorted[i] + sorted[k - 1];
+      if (!lowerPairs.has(sum)) lowerPairs.set(sum, [i, k - 1]);
+    }
+
+    for (let l = k + 1; l < sorted.length; l++) {
+      if (sorted[k] + sorted[l] >= target) break;
+      const pair = lowerPairs.get(target - sorted[k] - sorted[l]);
+      if (pair) return [pair[0], pair[1], k, l];
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert a dollar amount to integer cents
+ */
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Helper: First index whose value is >= target
+ */
+function lowerBound(values: ArrayLike<number>, target: number): number {
+  let lo = 0;
+  let hi = values.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (values[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
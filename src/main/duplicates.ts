@@ -0,0 +1,155 @@
+/**
+ * DUPLICATE DETECTION
+ *
+ * A statement imported twice, or a bill entered twice in QuickBooks, shows up
+ * as rows that repeat an earlier row of the same side: same account and
+ * amount, same or near date, similar text. Runs before matching; flagged rows
+ * are listed in the report and can be held out of matching.
+ */
+
+import { BankTransaction, QBTransaction } from './matcher';
+import { bigramSimilarity } from './vendor-analyzer';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+export interface DuplicateReasons {
+  dateDeltaDays: number;
+  /** Vendor and description (bank) or name and memo (GL) similarity, 0-1 */
+  textSimilarity: number;
+  /** Same FITID or check number (bank), same Trans #, date and name (GL) */
+  sameReference: boolean;
+}
+
+/**
+ * A row that repeats an earlier row of the same file set
+ */
+export interface DuplicateFlag<T> {
+  /** The later row - the one held out of matching */
+  row: T;
+  /** The earlier row it repeats */
+  original: T;
+  /** How likely the row is a duplicate, 0-1 */
+  confidence: number;
+  reasons: DuplicateReasons;
+}
+
+export interface DuplicateReport {
+  bank: DuplicateFlag<BankTransaction>[];
+  qb: DuplicateFlag<QBTransaction>[];
+  /** Flagged rows were left out of matching */
+  heldOut: boolean;
+}
+
+/** Days apart two rows may be and still be one transaction entered twice */
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+/** Minimum text similarity for rows without a shared reference */
+const MIN_TEXT_SIMILARITY = 0.6;
+
+/**
+ * Without a shared FITID or Trans # two identical rows may still be two real
+ * transactions (two coffees on one day), so confidence stays below this
+ */
+const UNREFERENCED_CONFIDENCE_CAP = 0.85;
+
+/**
+ * Flag likely duplicates within the bank rows and within the GL rows. Each
+ * row is compared with the earlier rows of its side that have the same
+ * account, direction and amount; rows whose FITIDs or check numbers differ are
+ * different transactions, and so are the lines of one GL entry. A row is
+ * flagged against its most likely original.
+ */
+export function findDuplicates(
+  bankTransactions: BankTransaction[],
+  qbTransactions: QBTransaction[],
+  days: number = DUPLICATE_WINDOW_DAYS
+): Omit<DuplicateReport, 'heldOut'> {
+  const bank = flagDuplicates(
+    bankTransactions,
+    b => `${b.account || ''}|${b.type}|${cents(b.amount)}`,
+    b => `${b.vendor} ${b.description}`,
+    (a, b) => {
+      if ((a.fitId && b.fitId && a.fitId !== b.fitId) || (a.checkNumber && b.checkNumber && a.checkNumber !== b.checkNumber)) {
+        return null;
+      }
+      return (!!a.fitId && a.fitId === b.fitId) || (!!a.checkNumber && a.checkNumber === b.checkNumber);
+    },
+    days
+  );
+  const qb = flagDuplicates(
+    qbTransactions,
+    q => `${q.account || ''}|${cents(q.debit)}|${cents(q.credit)}`,
+    q => `${q.name} ${q.memo}`,
+    qbReference,
+    days
+  );
+
+  return { bank, qb };
+}
+
+/**
+ * Helper: Flag rows repeating an earlier row with the same key. `reference`
+ * tells whether two rows share an ID, or null when their IDs rule it out.
+ */
+function flagDuplicates<T extends { date: Date }>(
+  rows: T[],
+  key: (row: T) => string,
+  text: (row: T) => string,
+  reference: (a: T, b: T) => boolean | null,
+  days: number
+): DuplicateFlag<T>[] {
+  const groups = new Map<string, T[]>();
+  const flags: DuplicateFlag<T>[] = [];
+
+  for (const row of rows) {
+    const earlier = groups.get(key(row)) || [];
+    groups.set(key(row), earlier);
+
+    let best: DuplicateFlag<T> | null = null;
+    for (const original of earlier) {
+      const dateDeltaDays = Math.round(Math.abs(row.date.getTime() - original.date.getTime()) / 86400000);
+      const sameReference = reference(original, row);
+      if (dateDeltaDays > days || sameReference === null) continue;
+
+      const [originalText, rowText] = [normalize(text(original)), normalize(text(row))];
+      // Identical texts, empty ones included, are fully similar
+      const textSimilarity = originalText === rowText ? 1 : bigramSimilarity(originalText, rowText);
+      if (!sameReference && textSimilarity < MIN_TEXT_SIMILARITY) continue;
+
+      const evidence = 0.5 * (1 - dateDeltaDays / (days + 1)) + 0.5 * textSimilarity;
+      const confidence = Math.round((sameReference ? 0.6 + 0.4 * evidence : UNREFERENCED_CONFIDENCE_CAP * evidence) * 1000) / 1000;
+      if (!best || confidence > best.confidence) {
+        best = { row, original, confidence, reasons: { dateDeltaDays, textSimilarity: Math.round(textSimilarity * 100) / 100, sameReference } };
+      }
+    }
+    if (best) flags.push(best);
+    earlier.push(row);
+  }
+
+  return flags;
+}
+
+/**
+ * Helper: Whether two GL lines share a Trans #. Lines of one entry share it
+ * too (split lines), so they rule each other out; and as parsers fill Trans #
+ * from Num when there is no Trans # column, it only counts for lines that
+ * also agree on date and name.
+ */
+function qbReference(a: QBTransaction, b: QBTransaction): boolean | null {
+  if (!a.transNumber || a.transNumber !== b.transNumber) return false;
+  if (a.account !== b.account || a.split !== b.split) return null;
+  return a.date.getTime() === b.date.getTime() && normalize(a.name) === normalize(b.name);
+}
+
+/**
+ * Helper: Upper case, single spaces
+ */
+function normalize(text: string): string {
+  return text.toUpperCase().replace(/\s+/g, ' ').trim();
+}
+
+function cents(amount: number): number {
+  return Math.round(Math.abs(amount) * 100);
+}
@@ -0,0 +1,145 @@
+/**
+ * EXCLUDED ROWS
+ *
+ * Every source row the parsers leave out of matching, with the reason, so a
+ * reconciliation can show that each line of the bank statement and GL export
+ * was either matched, unmatched or deliberately excluded.
+ */
+
+import { BankTransaction, QBTransaction } from './matcher';
+import { DateWindow, outsideWindowDetail, formatDay } from './period';
+import { DuplicateFlag } from './duplicates';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+/**
+ * 'skippedType': bank row type the import profile skips (e.g. Fee)
+ * 'outsidePeriod': dated outside the reconciliation period (and its lookaround days),
+ *   or a lookaround row that found no counterpart in the period
+ * 'invalidDate': date missing or unreadable
+ * 'invalidRow': any other row that could not be read
+ * 'noTransNumber': GL row without a Trans # (Desktop exports)
+ * 'otherAccount': GL row from an account that was not selected
+ * 'duplicate': likely duplicate of an earlier row, held out of matching
+ */
+export type ExclusionReason = 'skippedType' | 'outsidePeriod' | 'invalidDate' | 'invalidRow' | 'noTransNumber' | 'otherAccount' | 'duplicate';
+
+export const EXCLUSION_REASON_LABELS: { [R in ExclusionReason]: string } = {
+  skippedType: 'Skipped type',
+  outsidePeriod: 'Outside period',
+  invalidDate: 'Invalid date',
+  invalidRow: 'Unreadable row',
+  noTransNumber: 'No Trans #',
+  otherAccount: 'Other account',
+  duplicate: 'Likely duplicate'
+};
+
+export interface ExcludedRow {
+  side: 'bank' | 'qb';
+  /** File (bank, GL CSV) or sheet (GL workbook) the row came from */
+  source: string;
+  /** 1-based row number in the file or sheet; transaction number within the file for OFX (0 when unknown) */
+  row: number;
+  reason: ExclusionReason;
+  /** Specifics, e.g. the skipped type, the period boundary or the account */
+  detail: string;
+  /** Date and amount as they appear in the file */
+  date: string;
+  amount: string;
+  /** The row's cells joined with " | " (the OFX record for OFX files) */
+  content: string;
+}
+
+export interface ExclusionSummary {
+  bank: number;
+  qb: number;
+  byReason: { side: 'bank' | 'qb'; reason: ExclusionReason; label: string; count: number }[];
+}
+
+/**
+ * Count excluded rows per side and reason
+ */
+export function summarizeExcludedRows(rows: ExcludedRow[]): ExclusionSummary {
+  const counts = new Map<string, ExclusionSummary['byReason'][number]>();
+  for (const row of rows) {
+    const key = `${row.side}:${row.reason}`;
+    const entry = counts.get(key) || { side: row.side, reason: row.reason, label: EXCLUSION_REASON_LABELS[row.reason], count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+
+  return {
+    bank: rows.filter(r => r.side === 'bank').length,
+    qb: rows.filter(r => r.side === 'qb').length,
+    byReason: [...counts.values()].sort((a, b) => a.side.localeCompare(b.side) || b.count - a.count)
+  };
+}
+
+/**
+ * Rows read for the lookaround days that found no counterpart in the period -
+ * they belong to the neighbouring period's reconciliation
+ */
+export function outsidePeriodRows(rows: { bank: BankTransaction[]; qb: QBTransaction[] }, period: DateWindow): ExcludedRow[] {
+  const detail = (row: { date: Date }) => `Lookaround row with no match in the period (${outsideWindowDetail(row.date, period)})`;
+
+  return [
+    ...rows.bank.map(b => bankRow(b, 'outsidePeriod', detail(b))),
+    ...rows.qb.map(q => qbRow(q, 'outsidePeriod', detail(q)))
+  ];
+}
+
+/**
+ * Likely duplicates held out of matching, with the row each one repeats
+ */
+export function heldOutDuplicateRows(duplicates: { bank: DuplicateFlag<BankTransaction>[]; qb: DuplicateFlag<QBTransaction>[] }): ExcludedRow[] {
+  const detail = (flag: DuplicateFlag<{ id: string }>) =>
+    `Repeats ${flag.original.id} (${Math.round(flag.confidence * 100)}% confidence)`;
+
+  return [
+    ...duplicates.bank.map(d => bankRow(d.row, 'duplicate', detail(d))),
+    ...duplicates.qb.map(d => qbRow(d.row, 'duplicate', detail(d)))
+  ];
+}
+
+/**
+ * Helper: A parsed bank row as an excluded row
+ */
+function bankRow(b: BankTransaction, reason: ExclusionReason, detail: string): ExcludedRow {
+  return {
+    side: 'bank',
+    source: b.sourceFile,
+    row: b.fitId ? 0 : rowNumber(b.id),
+    reason,
+    detail,
+    date: formatDay(b.date),
+    amount: b.amount.toFixed(2),
+    content: [b.type, b.vendor, b.description, b.checkNumber || ''].filter(c => c).join(' | ')
+  };
+}
+
+/**
+ * Helper: A parsed GL row as an excluded row
+ */
+function qbRow(q: QBTransaction, reason: ExclusionReason, detail: string): ExcludedRow {
+  return {
+    side: 'qb',
+    source: q.id.split(':').slice(1, -1).join(':'),
+    row: rowNumber(q.id),
+    reason,
+    detail,
+    date: formatDay(q.date),
+    amount: q.amount.toFixed(2),
+    content: [q.type, q.transNumber, q.name, q.memo, q.account || ''].filter(c => c).join(' | ')
+  };
+}
+
+/**
+ * Helper: Row number from a row ID ("B:statement.csv:12" → 12). OFX rows keyed
+ * by FITID have none and get 0.
+ */
+function rowNumber(id: string): number {
+  const match = id.match(/:(\d+)(#\d+)?$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
@@ -2,16 +2,84 @@ import * as Papa from 'papaparse';
 import * as fs from 'fs';
 import * as path from 'path';
 import { MatchedPair, BankTransaction, QBTransaction, ReconciliationResult } from './matcher';
+import { describePass } from './matching-config';
+import { ReviewSummary } from './review';
+import { UnmatchedExplanation, EXPLANATION_LABELS } from './unmatched-explainer';
+import { ExcludedRow, EXCLUSION_REASON_LABELS, summarizeExcludedRows } from './excluded-rows';
+import { ReconciliationPeriod, describePeriod, isInWindow, periodWindow } from './period';
+import { ReconciliationStatement, StatementBalances, BalanceFigure, ReconcilingItemKind, RECONCILING_ITEM_LABELS } from './reconciliation-statement';
+import { BankAccountContext, AccountReconciliation, TransferPair, transferGaps } from './bank-accounts';
+import { DuplicateReport, DuplicateFlag } from './duplicates';
+
+/**
+ * Run details shown in the report alongside the match statistics
+ */
+export interface ReportContext {
+  /** Statement period reconciled */
+  period?: ReconciliationPeriod;
+  /** GL cash accounts included in the reconciliation */
+  accounts?: string[];
+  /** GL rows dropped because their account was not selected, per account */
+  excludedByAccount?: { [account: string]: number };
+  /** Reviewer decisions, when exporting a reviewed result */
+  review?: ReviewSummary;
+  /** Source rows the parsers left out, with reasons */
+  excludedRows?: ExcludedRow[];
+  /** Balances entered by the user and read from the bank file, for the reconciliation statement */
+  balances?: { entered: StatementBalances; bankFile: StatementBalances };
+  /** Reconciliation statement for the period, summarized in the report */
+  statement?: ReconciliationStatement;
+  /** Bank accounts of a multi-account run, with their statements' files and balances */
+  bankAccounts?: BankAccountContext[];
+  /** Per-account results and statements of a multi-account run (the rest is consolidated) */
+  byAccount?: AccountReconciliation[];
+  /** Transfers between the client's accounts */
+  transfers?: TransferPair[];
+  /** Likely duplicate rows within the bank and within the GL rows */
+  duplicates?: DuplicateReport;
+}
 
 /**
  * Export matched transactions to CSV
  */
-export function exportMatchedCSV(matched: MatchedPair[], outputDir: string, year: string): string {
-  const filename = `${year}_Matched_Transactions.csv`;
+export function exportMatchedCSV(matched: MatchedPair[], outputDir: string, label: string): string {
+  const filename = `${label}_Matched_Transactions.csv`;
+  const filePath = path.join(outputDir, filename);
+
+  const csv = Papa.unparse(matched.map(matchedRow));
+  fs.writeFileSync(filePath, csv, 'utf-8');
+
+  return filePath;
+}
+
+/**
+ * Export low-confidence matches that need a reviewer's attention
+ */
+export function exportNeedsReviewCSV(matched: MatchedPair[], outputDir: string, label: string): string {
+  const filename = `${label}_Needs_Review.csv`;
   const filePath = path.join(outputDir, filename);
 
-  const data = matched.map(m => ({
+  const data = [...matched]
+    .sort((a, b) => a.confidence - b.confidence)
+    .map(matchedRow);
+
+  const csv = Papa.unparse(data);
+  fs.writeFileSync(filePath, csv, 'utf-8');
+
+  return filePath;
+}
+
+/**
+ * Helper: One CSV row per matched pair, with confidence and match evidence
+ */
+function matchedRow(m: MatchedPair) {
+  return {
     'Match_Type': m.matchType,
+    'Confidence': m.confidence.toFixed(3),
+    'Needs_Review': m.needsReview ? 'Yes' : 'No',
+    'Review_Status': m.reviewStatus,
+    'Review_Note': m.reviewNote || '',
+    'Cross_Period': m.crossPeriod ? 'Yes' : 'No',
     'Bank_Date': formatDate(m.bankDate),
     'QB_Date': formatDate(m.qbDate),
     'Amount': m.amount.toFixed(2),
@@ -22,21 +90,29 @@ export function exportMatchedCSV(matched: MatchedPair[], outputDir: string, year
     'QB_Type': m.qbType,
     'QB_Memo': m.qbMemo,
     'QB_Split': m.qbSplit,
-    'Bank_Description': m.bankDescription
-  }));
-
-  const csv = Papa.unparse(data);
-  fs.writeFileSync(filePath, csv, 'utf-8');
-
-  return filePath;
+    'Bank_Description': m.bankDescription,
+    'Bank_Rows': m.bankRows.length,
+    'QB_Rows': m.qbRows.length,
+    'Date_Delta_Days': m.reasons.dateDeltaDays,
+    'Amount_Delta': m.reasons.amountDelta.toFixed(2),
+    'Vendor_Similarity': m.reasons.vendorSimilarity.toFixed(2),
+    'Type_Compatible': m.reasons.typeCompatible ? 'Yes' : 'No',
+    'Competing_Candidates': m.reasons.competingCandidates
+  };
 }
 
 /**
- * Export unmatched bank transactions to CSV
+ * Export unmatched bank transactions to CSV, with the reviewer's accepted explanations
  */
-export function exportUnmatchedBankCSV(unmatched: BankTransaction[], outputDir: string, year: string): string {
-  const filename = `${year}_Unmatched_Bank.csv`;
+export function exportUnmatchedBankCSV(
+  unmatched: BankTransaction[],
+  outputDir: string,
+  label: string,
+  explanations: UnmatchedExplanation[] = []
+): string {
+  const filename = `${label}_Unmatched_Bank.csv`;
   const filePath = path.join(outputDir, filename);
+  const byBankId = new Map(explanations.map(e => [e.bankId, e]));
 
   const data = unmatched.map(t => ({
     'Date': formatDate(t.date),
@@ -44,7 +120,11 @@ export function exportUnmatchedBankCSV(unmatched: BankTransaction[], outputDir:
     'Vendor': t.vendor,
     'Description': t.description,
     'Amount': t.amount.toFixed(2),
-    'Source_File': t.sourceFile
+    'Source_File': t.sourceFile,
+    'Check_#': t.checkNumber || '',
+    'FITID': t.fitId || '',
+    'Explanation': byBankId.has(t.id) ? EXPLANATION_LABELS[byBankId.get(t.id)!.kind] : '',
+    'Explanation_Note': byBankId.get(t.id)?.rationale || ''
   }));
 
   const csv = Papa.unparse(data);
@@ -56,8 +136,8 @@ export function exportUnmatchedBankCSV(unmatched: BankTransaction[], outputDir:
 /**
  * Export unmatched QB transactions to CSV
  */
-export function exportUnmatchedQBCSV(unmatched: QBTransaction[], outputDir: string, year: string): string {
-  const filename = `${year}_Unmatched_QB.csv`;
+export function exportUnmatchedQBCSV(unmatched: QBTransaction[], outputDir: string, label: string): string {
+  const filename = `${label}_Unmatched_QB.csv`;
   const filePath = path.join(outputDir, filename);
 
   const data = unmatched.map(t => ({
@@ -78,6 +158,100 @@ export function exportUnmatchedQBCSV(unmatched: QBTransaction[], outputDir: stri
   return filePath;
 }
 
+/**
+ * Export every source row left out of matching, with the reason
+ */
+export function exportExcludedRowsCSV(excluded: ExcludedRow[], outputDir: string, label: string): string {
+  const filename = `${label}_Excluded_Rows.csv`;
+  const filePath = path.join(outputDir, filename);
+
+  const data = excluded.map(e => ({
+    'Side': e.side === 'bank' ? 'Bank' : 'QB',
+    'Source': e.source,
+    'Row': e.row,
+    'Reason_Code': e.reason,
+    'Reason': EXCLUSION_REASON_LABELS[e.reason],
+    'Detail': e.detail,
+    'Date': e.date,
+    'Amount': e.amount,
+    'Row_Content': e.content
+  }));
+
+  const csv = Papa.unparse(data);
+  fs.writeFileSync(filePath, csv, 'utf-8');
+
+  return filePath;
+}
+
+/**
+ * Write the bank reconciliation statement: bank side, book side, each
+ * reconciling item and the difference left unexplained. With an account, it
+ * is that account's statement of a multi-account run.
+ */
+export function exportReconciliationStatement(statement: ReconciliationStatement, outputDir: string, label: string, account?: string): string {
+  const filename = account ? `${label}_${fileSafe(account)}_Reconciliation_Statement.txt` : `${label}_Reconciliation_Statement.txt`;
+  const filePath = path.join(outputDir, filename);
+
+  const width = 90;
+  const line = (text: string, amount?: number | null) =>
+    amount === undefined ? text : `${text.padEnd(width - 16)}${(amount === null ? 'n/a' : formatMoney(amount)).padStart(16)}`;
+  const balance = (text: string, figure: BalanceFigure) =>
+    line(`${text}${figure.source === 'missing' ? '' : ` (${BALANCE_SOURCE_LABELS[figure.source]})`}`, figure.amount);
+  const itemLines = (kind: ReconcilingItemKind, sign: '+' | '-') => {
+    const items = statement.items.filter(i => i.kind === kind);
+    const out = [line(`${sign === '+' ? 'Add' : 'Less'}: ${RECONCILING_ITEM_LABELS[kind]} (${items.length})`, sign === '+' ? statement.totals[kind] : -statement.totals[kind])];
+    for (const item of items) {
+      const text = `    ${formatDate(item.date)}  ${item.reference ? `#${item.reference} ` : ''}${item.description}`.slice(0, width - 37);
+      out.push(line(`${text.padEnd(width - 36)}${item.note.slice(0, 19)}`, item.amount));
+    }
+    return out;
+  };
+
+  const lines: string[] = [];
+  lines.push('='.repeat(width));
+  lines.push(`BANK RECONCILIATION STATEMENT - ${describePeriod(statement.period)}`);
+  lines.push('='.repeat(width));
+  if (account) {
+    lines.push(`Account: ${account}`);
+  }
+  lines.push(`Generated: ${new Date().toLocaleString()}`);
+  lines.push('');
+
+  lines.push('BALANCE PER BANK');
+  lines.push(balance('Opening balance', statement.bankOpening));
+  lines.push(line('Net activity in the period', statement.bankActivity));
+  lines.push(balance('Ending balance per statement', statement.bankEnding));
+  if (statement.bankRollForwardDifference !== null && statement.bankRollForwardDifference !== 0) {
+    lines.push(line('  ! Opening + activity does not equal the ending balance by', statement.bankRollForwardDifference));
+  }
+  lines.push(...itemLines('depositInTransit', '+'));
+  lines.push(...itemLines('outstandingCheck', '-'));
+  lines.push(line('ADJUSTED BANK BALANCE', statement.adjustedBank));
+  lines.push('');
+
+  lines.push('BALANCE PER BOOKS (GL)');
+  lines.push(balance('Opening balance', statement.glOpening));
+  lines.push(line('Net activity in the period', statement.glActivity));
+  lines.push(balance('Ending balance per GL', statement.glEnding));
+  lines.push(...itemLines('bankCredit', '+'));
+  lines.push(...itemLines('bankDebit', '-'));
+  lines.push(line('ADJUSTED BOOK BALANCE', statement.adjustedBook));
+  lines.push('');
+
+  lines.push('-'.repeat(width));
+  if (statement.difference === null) {
+    lines.push('DIFFERENCE: not available - enter the missing bank or GL balance');
+  } else if (statement.difference === 0) {
+    lines.push(line('DIFFERENCE (reconciled)', 0));
+  } else {
+    lines.push(line('*** UNEXPLAINED DIFFERENCE ***', statement.difference));
+  }
+  lines.push('-'.repeat(width));
+
+  fs.writeFileSync(filePath, lines.join('\n'), 'utf-8');
+  return filePath;
+}
+
 /**
  * Generate comprehensive reconciliation report
  */
@@ -86,24 +260,51 @@ export function generateReport(
   bankTransactions: BankTransaction[],
   qbTransactions: QBTransaction[],
   outputDir: string,
-  year: string
+  label: string,
+  context: ReportContext = {}
 ): string {
-  const filename = `${year}_Reconciliation_Report.txt`;
+  const filename = `${label}_Reconciliation_Report.txt`;
   const filePath = path.join(outputDir, filename);
 
   const lines: string[] = [];
 
   lines.push('='.repeat(80));
-  lines.push(`BANK RECONCILIATION REPORT - ${year}`);
+  lines.push(`BANK RECONCILIATION REPORT - ${label}`);
   lines.push('='.repeat(80));
   lines.push(`Generated: ${new Date().toLocaleString()}`);
+  if (context.period) {
+    lines.push(`Period: ${describePeriod(context.period)} (lookaround ${context.period.lookaroundDays} day(s) each side)`);
+  }
   lines.push('');
 
+  // Multi-account runs: each account on its own, then the consolidated figures below
+  if (context.byAccount && context.byAccount.length > 0) {
+    lines.push('ACCOUNTS:');
+    for (const a of context.byAccount) {
+      lines.push(`  ${a.account} (${a.files.join(', ')})`);
+      lines.push(`    Bank Transactions: ${a.result.totalBank}  QB Transactions: ${a.result.totalQB}`);
+      lines.push(`    Matched: ${a.result.matched.length}  Match Rate: ${a.result.matchRate.toFixed(1)}%`);
+      lines.push(`    Unmatched Bank: ${a.result.unmatchedBank.length}  Unmatched QB: ${a.result.unmatchedQB.length}`);
+      if (a.statement) {
+        lines.push(`    Bank Ending: ${formatAmount(a.statement.bankEnding.amount)}  GL Ending: ${formatAmount(a.statement.glEnding.amount)}`);
+        lines.push(`    Difference: ${formatAmount(a.statement.difference)}${a.statement.difference ? '  *** UNEXPLAINED ***' : ''} (see ${label}_${fileSafe(a.account)}_Reconciliation_Statement.txt)`);
+      }
+    }
+    lines.push('');
+    lines.push('CONSOLIDATED (ALL ACCOUNTS):');
+    lines.push('');
+  }
+
+  // Summaries cover the period only - lookaround rows appear as cross-period matches or excluded rows
+  const window = context.period ? periodWindow(context.period) : null;
+  const bankInPeriod = window ? bankTransactions.filter(t => isInWindow(t.date, window)) : bankTransactions;
+  const qbInPeriod = window ? qbTransactions.filter(t => isInWindow(t.date, window)) : qbTransactions;
+
   // Bank Summary
   lines.push('BANK SUMMARY:');
   lines.push(`  Total Transactions: ${result.totalBank}`);
-  const deposits = bankTransactions.filter(t => t.type === 'Deposit');
-  const withdrawals = bankTransactions.filter(t => t.type === 'Withdrawal');
+  const deposits = bankInPeriod.filter(t => t.type === 'Deposit');
+  const withdrawals = bankInPeriod.filter(t => t.type === 'Withdrawal');
   const depositSum = deposits.reduce((sum, t) => sum + t.amount, 0);
   const withdrawalSum = withdrawals.reduce((sum, t) => sum + Math.abs(t.amount), 0);
   lines.push(`  Deposits: ${deposits.length} - $${depositSum.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`);
@@ -112,19 +313,78 @@ export function generateReport(
 
   // QuickBooks Summary
   lines.push('QUICKBOOKS SUMMARY:');
+  if (context.accounts && context.accounts.length > 0) {
+    lines.push(`  Cash Account(s): ${context.accounts.join(', ')}`);
+  }
   lines.push(`  Total Transactions: ${result.totalQB}`);
-  const debits = qbTransactions.filter(t => t.debit > 0);
-  const credits = qbTransactions.filter(t => t.credit > 0);
+  const debits = qbInPeriod.filter(t => t.debit > 0);
+  const credits = qbInPeriod.filter(t => t.credit > 0);
   const debitSum = debits.reduce((sum, t) => sum + t.debit, 0);
   const creditSum = credits.reduce((sum, t) => sum + t.credit, 0);
   lines.push(`  Debits: ${debits.length} - $${debitSum.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`);
   lines.push(`  Credits: ${credits.length} - $${creditSum.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`);
+  const excludedAccounts = Object.entries(context.excludedByAccount || {});
+  if (excludedAccounts.length > 0) {
+    const excludedTotal = excludedAccounts.reduce((sum, [, count]) => sum + count, 0);
+    lines.push(`  Excluded (other accounts): ${excludedTotal} rows`);
+    excludedAccounts.sort((a, b) => b[1] - a[1]).forEach(([account, count]) => {
+      lines.push(`    ${account}: ${count}`);
+    });
+  }
   lines.push('');
 
+  // Rows left out by the parsers
+  if (context.excludedRows && context.excludedRows.length > 0) {
+    const summary = summarizeExcludedRows(context.excludedRows);
+    lines.push(`EXCLUDED ROWS (see the Excluded sheet of ${label}_Reconciliation.xlsx):`);
+    lines.push(`  Bank: ${summary.bank}`);
+    summary.byReason.filter(e => e.side === 'bank').forEach(e => lines.push(`    ${e.label}: ${e.count}`));
+    lines.push(`  QB: ${summary.qb}`);
+    summary.byReason.filter(e => e.side === 'qb').forEach(e => lines.push(`    ${e.label}: ${e.count}`));
+    lines.push('');
+  }
+
+  // Rows that repeat an earlier row of the same side
+  if (context.duplicates && context.duplicates.bank.length + context.duplicates.qb.length > 0) {
+    const { bank, qb, heldOut } = context.duplicates;
+    const flagged = (d: DuplicateFlag<{ id: string }>) =>
+      `repeats ${d.original.id}, ${Math.round(d.confidence * 100)}%${d.reasons.sameReference ? ', same reference' : ''}${d.reasons.dateDeltaDays > 0 ? `, ${d.reasons.dateDeltaDays} day(s) apart` : ''}`;
+    lines.push(`POSSIBLE DUPLICATES (${heldOut ? 'held out of matching' : 'still matched'}):`);
+    lines.push(`  Bank: ${bank.length}`);
+    bank.forEach(d => lines.push(`    ${formatDate(d.row.date)} ${d.row.vendor}: ${formatMoney(d.row.amount)} (${flagged(d)})`));
+    lines.push(`  QB: ${qb.length}`);
+    qb.forEach(d => lines.push(`    ${formatDate(d.row.date)} ${d.row.type} #${d.row.transNumber} ${d.row.name}: ${formatMoney(d.row.debit || d.row.credit)} (${flagged(d)})`));
+    lines.push('');
+  }
+
+  // Reconciliation statement
+  if (context.statement) {
+    const { statement } = context;
+    lines.push(`RECONCILIATION STATEMENT (see ${label}_Reconciliation_Statement.txt):`);
+    lines.push(`  Bank Ending Balance: ${formatAmount(statement.bankEnding.amount)}`);
+    lines.push(`  Adjusted Bank Balance: ${formatAmount(statement.adjustedBank)}`);
+    lines.push(`  GL Ending Balance: ${formatAmount(statement.glEnding.amount)}`);
+    lines.push(`  Adjusted Book Balance: ${formatAmount(statement.adjustedBook)}`);
+    lines.push(`  Difference: ${formatAmount(statement.difference)}${statement.difference ? '  *** UNEXPLAINED ***' : ''}`);
+    lines.push('');
+  }
+
+  // Transfers between the client's own accounts
+  if (context.transfers && context.transfers.length > 0) {
+    const total = context.transfers.reduce((sum, t) => sum + t.amount, 0);
+    lines.push(`TRANSFERS BETWEEN ACCOUNTS: ${context.transfers.length} - ${formatMoney(total)}`);
+    for (const t of context.transfers) {
+      const gaps = transferGaps(t);
+      lines.push(`  ${formatDate(t.date)} ${t.fromAccount} → ${t.toAccount}: ${formatMoney(t.amount)} (${t.matchId}${gaps.length ? `, not in ${gaps.join(', ')}` : ''})`);
+    }
+    lines.push('');
+  }
+
   // Matching Results
   lines.push('MATCHING RESULTS:');
   lines.push(`  Total Matched: ${result.matched.length}`);
   lines.push(`  Match Rate: ${result.matchRate.toFixed(1)}%`);
+  lines.push(`  Cross-Period Matches: ${result.matched.filter(m => m.crossPeriod).length}`);
   lines.push(`  Unmatched Bank: ${result.unmatchedBank.length}`);
   lines.push(`  Unmatched QB: ${result.unmatchedQB.length}`);
   lines.push('');
@@ -142,6 +402,40 @@ export function generateReport(
     lines.push('');
   }
 
+  // Confidence
+  if (result.matched.length > 0) {
+    const threshold = result.config.reviewThreshold;
+    const avgConfidence = result.matched.reduce((sum, m) => sum + m.confidence, 0) / result.matched.length;
+    const high = result.matched.filter(m => m.confidence >= 0.85).length;
+    const medium = result.matched.filter(m => m.confidence >= threshold && m.confidence < 0.85).length;
+    lines.push('MATCH CONFIDENCE:');
+    lines.push(`  Average Confidence: ${(avgConfidence * 100).toFixed(1)}%`);
+    lines.push(`  High (≥85%): ${high}`);
+    lines.push(`  Medium (${Math.round(threshold * 100)}-85%): ${medium}`);
+    lines.push(`  Needs Review (<${Math.round(threshold * 100)}%): ${result.needsReview.length}`);
+    lines.push('');
+  }
+
+  // Reviewer decisions
+  if (context.review) {
+    lines.push('REVIEW:');
+    lines.push(`  Accepted: ${context.review.accepted} (${context.review.manual} linked manually)`);
+    lines.push(`  Rejected: ${context.review.rejected}`);
+    lines.push(`  Not Reviewed: ${context.review.pending}`);
+    lines.push('');
+  }
+
+  // Matching configuration used for this run
+  lines.push(`MATCHING PASSES (${result.config.strategy === 'optimal' ? 'optimal assignment' : 'greedy assignment'}):`);
+  result.passResults.forEach((p, idx) => {
+    lines.push(`  ${idx + 1}. ${p.pass}: ${p.matches}`);
+  });
+  const disabled = result.config.passes.filter(p => !p.enabled);
+  if (disabled.length > 0) {
+    lines.push(`  Disabled: ${disabled.map(p => describePass(p)).join('; ')}`);
+  }
+  lines.push('');
+
   // Unmatched Details
   if (result.unmatchedBank.length > 0) {
     lines.push('UNMATCHED BANK:');
@@ -173,8 +467,9 @@ export function generateReport(
 
   // Match rate by type
   lines.push('MATCH RATE BY TRANSACTION TYPE:');
-  const matchedDeposits = result.matched.filter(m => m.bankType === 'Deposit').length;
-  const matchedWithdrawals = result.matched.filter(m => m.bankType === 'Withdrawal').length;
+  const matchedBankRows = result.matched.flatMap(m => m.bankRows);
+  const matchedDeposits = matchedBankRows.filter(t => t.type === 'Deposit').length;
+  const matchedWithdrawals = matchedBankRows.filter(t => t.type === 'Withdrawal').length;
   lines.push(`  Deposits: ${matchedDeposits}/${deposits.length} (${(matchedDeposits / deposits.length * 100).toFixed(1)}%)`);
   lines.push(`  Withdrawals: ${matchedWithdrawals}/${withdrawals.length} (${(matchedWithdrawals / withdrawals.length * 100).toFixed(1)}%)`);
   lines.push('');
@@ -193,8 +488,8 @@ export function generateReport(
     const inRange = bankTransactions.filter(t => 
       Math.abs(t.amount) >= range.min && Math.abs(t.amount) < range.max
     );
-    const matchedInRange = result.matched.filter(m =>
-      m.amount >= range.min && m.amount < range.max
+    const matchedInRange = matchedBankRows.filter(t =>
+      Math.abs(t.amount) >= range.min && Math.abs(t.amount) < range.max
     );
     if (inRange.length > 0) {
       const pct = (matchedInRange.length / inRange.length * 100).toFixed(1);
@@ -252,6 +547,32 @@ export function generateReport(
   return filePath;
 }
 
+const BALANCE_SOURCE_LABELS: { [S in BalanceFigure['source']]: string } = {
+  entered: 'entered',
+  bankFile: 'from bank file',
+  computed: 'computed from activity',
+  missing: 'not available'
+};
+
+/**
+ * Helper: $1,234.56 / -$1,234.56
+ */
+function formatMoney(value: number): string {
+  const text = Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return value < 0 ? `-$${text}` : `$${text}`;
+}
+
+/**
+ * Helper: An account name usable in a file name
+ */
+function fileSafe(name: string): string {
+  return name.replace(/[^\w.-]+/g, '_');
+}
+
+function formatAmount(value: number | null): string {
+  return value === null ? 'n/a' : formatMoney(value);
+}
+
 /**
  * Helper: Format date as MM/DD/YYYY
  */
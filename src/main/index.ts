@@ -1,23 +1,56 @@
 import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
-import { parseBankCSV, parseQBExcel, extractYearFromFilename } from './parsers';
-import { GLMatcher, BankTransaction, QBTransaction } from './matcher';
-import { 
-  exportMatchedCSV, 
-  exportUnmatchedBankCSV, 
-  exportUnmatchedQBCSV, 
-  generateReport 
-} from './exporter';
-import { analyzeVendorsWithGemini } from './gemini-analyzer';
+import { parseBankFile, parseQBFile, readBankHeaders } from './parsers';
+import { BankImportProfile, loadBankProfiles, saveBankProfile, deleteBankProfile } from './bank-profiles';
+import { GLMatcher, ReconciliationResult } from './matcher';
+import { withoutTransfers } from './bank-accounts';
+import { exportPdfPackage } from './pdf-package';
+import {
+  ReconciliationOptions,
+  PipelineRun,
+  PipelineSettings,
+  resolveSource,
+  runPipeline,
+  writeOutputs,
+  summarizeRun,
+  resolveBankProfile,
+  resolveCashAccounts
+} from './pipeline';
+import { ReviewSession } from './review';
+import {
+  SessionSource,
+  SessionFile,
+  BankStatementSource,
+  SESSION_FILE_EXTENSION,
+  createSessionFile,
+  writeSessionFile,
+  readSessionFile,
+  changedSourceFiles,
+  describeSourceSide
+} from './session';
+import { analyzeVendors } from './vendor-analyzer';
+import { LLMProviderSettings, LLM_PROVIDERS } from './llm-providers';
+import { explainUnmatched } from './unmatched-explainer';
+import { summarizeStatement } from './reconciliation-statement';
+import { describePeriod, periodLabel } from './period';
+import { DEFAULT_MATCHING_CONFIG, normalizeMatchingConfig } from './matching-config';
+import {
+  VendorAlias,
+  loadVendorAliases,
+  listAliasClients,
+  saveVendorAlias,
+  deleteVendorAlias,
+  addAIVendorAliases,
+  importVendorAliases,
+  exportVendorAliases,
+  loadRejectedAliases,
+  rejectAliasSuggestion
+} from './vendor-aliases';
+import { AliasSuggestion, suggestVendorAliases } from './alias-learning';
 
 let mainWindow: BrowserWindow | null = null;
-let lastResults: {
-  bankTransactions: BankTransaction[];
-  qbTransactions: QBTransaction[];
-  outputDir: string;
-  year: string;
-} | null = null;
+let lastResults: PipelineRun | null = null;
 
 /**
  * Create main application window
@@ -63,14 +96,16 @@ app.on('window-all-closed', () => {
 });
 
 /**
- * IPC: Select Bank CSV file
+ * IPC: Select Bank statement file (CSV or OFX/QFX/QBO)
  */
 ipcMain.handle('select-bank-file', async () => {
   const result = await dialog.showOpenDialog(mainWindow!, {
     properties: ['openFile'],
-    title: 'Select Bank Transactions CSV',
+    title: 'Select Bank Transactions File',
     filters: [
+      { name: 'Bank Statements', extensions: ['csv', 'ofx', 'qfx', 'qbo'] },
       { name: 'CSV Files', extensions: ['csv'] },
+      { name: 'OFX / Web Connect', extensions: ['ofx', 'qfx', 'qbo'] },
       { name: 'All Files', extensions: ['*'] }
     ]
   });
@@ -83,14 +118,16 @@ ipcMain.handle('select-bank-file', async () => {
 });
 
 /**
- * IPC: Select QuickBooks Excel file
+ * IPC: Select QuickBooks GL export (Excel or CSV)
  */
 ipcMain.handle('select-qb-file', async () => {
   const result = await dialog.showOpenDialog(mainWindow!, {
     properties: ['openFile'],
-    title: 'Select QuickBooks GL Excel',
+    title: 'Select QuickBooks GL Export',
     filters: [
+      { name: 'QuickBooks Exports', extensions: ['xlsx', 'xls', 'csv'] },
       { name: 'Excel Files', extensions: ['xlsx', 'xls'] },
+      { name: 'CSV Files', extensions: ['csv'] },
       { name: 'All Files', extensions: ['*'] }
     ]
   });
@@ -103,92 +140,155 @@ ipcMain.handle('select-qb-file', async () => {
 });
 
 /**
- * IPC: Process reconciliation
+ * IPC: List bank import profiles (built-in + saved)
  */
-ipcMain.handle('process-reconciliation', async (_event, bankPath: string, qbPath: string, aiMappings?: { [key: string]: string[] }) => {
+ipcMain.handle('get-bank-profiles', () => {
+  return loadBankProfiles(profileStoreDir());
+});
+
+/**
+ * IPC: Read bank file headers and auto-detect its import profile
+ */
+ipcMain.handle('read-bank-headers', async (_event, bankPath: string) => {
   try {
-    log('Starting reconciliation process...', 'info');
+    return { success: true, ...readBankHeaders(bankPath, loadBankProfiles(profileStoreDir())) };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
 
-    // Extract year from filenames
-    const bankYear = extractYearFromFilename(path.basename(bankPath));
-    const qbYear = extractYearFromFilename(path.basename(qbPath));
-    const year = bankYear || qbYear || new Date().getFullYear();
+/**
+ * IPC: Save a user-defined bank import profile
+ */
+ipcMain.handle('save-bank-profile', async (_event, profile: BankImportProfile) => {
+  try {
+    const saved = saveBankProfile(profileStoreDir(), profile);
+    log(`✓ Saved import profile: ${saved.name}`, 'success');
+    return { success: true, profile: saved };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
 
-    log(`Using year: ${year}`, 'info');
+/**
+ * IPC: Delete a user-defined bank import profile
+ */
+ipcMain.handle('delete-bank-profile', async (_event, id: string) => {
+  try {
+    deleteBankProfile(profileStoreDir(), id);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
 
-    // Parse files
-    log('Step 1: Loading bank transactions...', 'info');
-    const bankTransactions = parseBankCSV(bankPath, year);
-    log(`✓ Loaded ${bankTransactions.length} bank transactions`, 'success');
+/**
+ * IPC: List vendor aliases (built-in, AI and user) and the clients that have their own
+ */
+ipcMain.handle('get-vendor-aliases', () => {
+  const aliases = loadVendorAliases(profileStoreDir());
+  return { aliases, clients: listAliasClients(aliases) };
+});
 
-    log('Step 2: Loading QuickBooks transactions...', 'info');
-    const qbTransactions = parseQBExcel(qbPath, year);
-    log(`✓ Loaded ${qbTransactions.length} QB transactions`, 'success');
+/**
+ * IPC: Save a user vendor alias
+ */
+ipcMain.handle('save-vendor-alias', async (_event, alias: VendorAlias) => {
+  try {
+    const saved = saveVendorAlias(profileStoreDir(), alias);
+    log(`✓ Saved vendor alias: ${saved.variant} → ${saved.canonical}${saved.client ? ` (${saved.client})` : ''}`, 'success');
+    return { success: true, alias: saved };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
 
-    // Run matching
-    log('Step 3: Running intelligent matching algorithm...', 'info');
-    if (aiMappings && Object.keys(aiMappings).length > 0) {
-      log(`  Using ${Object.keys(aiMappings).length} AI-generated vendor mappings`, 'info');
-    }
-    const matcher = new GLMatcher(bankTransactions, qbTransactions, aiMappings);
-    const result = matcher.match();
+/**
+ * IPC: Delete a saved vendor alias
+ */
+ipcMain.handle('delete-vendor-alias', async (_event, id: string) => {
+  try {
+    deleteVendorAlias(profileStoreDir(), id);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
 
-    log(`✓ Matching complete!`, 'success');
-    log(`  Total Matched: ${result.matched.length}`, 'info');
-    log(`  Match Rate: ${result.matchRate.toFixed(1)}%`, 'info');
-    log(`  Unmatched Bank: ${result.unmatchedBank.length}`, 'warning');
-    log(`  Unmatched QB: ${result.unmatchedQB.length}`, 'warning');
+/**
+ * IPC: Import vendor aliases from a CSV file
+ */
+ipcMain.handle('import-vendor-aliases', async () => {
+  const picked = await dialog.showOpenDialog(mainWindow!, {
+    properties: ['openFile'],
+    title: 'Import Vendor Aliases',
+    filters: [{ name: 'CSV Files', extensions: ['csv'] }]
+  });
+  if (picked.canceled || picked.filePaths.length === 0) {
+    return null;
+  }
 
-    // Generate outputs
-    log('Step 4: Generating output files...', 'info');
-    
-    // Create output directory in Downloads
-    const downloadsPath = app.getPath('downloads');
-    const outputDir = path.join(downloadsPath, `GL_Matching_Results_${year}_${Date.now()}`);
-    
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
-    }
+  try {
+    const count = importVendorAliases(profileStoreDir(), picked.filePaths[0]);
+    log(`✓ Imported ${count} vendor alias(es) from ${path.basename(picked.filePaths[0])}`, 'success');
+    return { success: true, count };
+  } catch (error: any) {
+    log(`❌ Alias import failed: ${error.message}`, 'error');
+    return { success: false, error: error.message };
+  }
+});
 
-    // Export files
-    const matchedPath = exportMatchedCSV(result.matched, outputDir, year.toString());
-    log(`✓ Created: ${path.basename(matchedPath)}`, 'success');
+/**
+ * IPC: Export all vendor aliases to a CSV file
+ */
+ipcMain.handle('export-vendor-aliases', async () => {
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    title: 'Export Vendor Aliases',
+    defaultPath: path.join(app.getPath('documents'), 'Vendor_Aliases.csv'),
+    filters: [{ name: 'CSV Files', extensions: ['csv'] }]
+  });
+  if (result.canceled || !result.filePath) {
+    return null;
+  }
 
-    if (result.unmatchedBank.length > 0) {
-      const unmatchedBankPath = exportUnmatchedBankCSV(result.unmatchedBank, outputDir, year.toString());
-      log(`✓ Created: ${path.basename(unmatchedBankPath)}`, 'success');
-    }
+  try {
+    exportVendorAliases(loadVendorAliases(profileStoreDir()), result.filePath);
+    log(`✓ Exported vendor aliases to ${path.basename(result.filePath)}`, 'success');
+    return { success: true, filePath: result.filePath };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
 
-    if (result.unmatchedQB.length > 0) {
-      const unmatchedQBPath = exportUnmatchedQBCSV(result.unmatchedQB, outputDir, year.toString());
-      log(`✓ Created: ${path.basename(unmatchedQBPath)}`, 'success');
-    }
+/**
+ * IPC: List the accounts in a GL export, flagging likely cash accounts
+ */
+ipcMain.handle('list-qb-accounts', async (_event, qbPath: string) => {
+  try {
+    return { success: true, accounts: parseQBFile(qbPath).accounts };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
 
-    const reportPath = generateReport(result, bankTransactions, qbTransactions, outputDir, year.toString());
-    log(`✓ Created: ${path.basename(reportPath)}`, 'success');
+/**
+ * IPC: Default matching configuration (for the settings panel)
+ */
+ipcMain.handle('get-default-matching-config', () => {
+  return DEFAULT_MATCHING_CONFIG;
+});
 
-    // Store results for later
-    lastResults = {
-      bankTransactions,
-      qbTransactions,
-      outputDir,
-      year: year.toString()
-    };
+/**
+ * IPC: Process reconciliation
+ */
+ipcMain.handle('process-reconciliation', async (_event, bankFiles: BankStatementSource[], qbPath: string, options: ReconciliationOptions = {}) => {
+  try {
+    log('Starting reconciliation process...', 'info');
 
-    log('', 'info');
-    log('🎉 Reconciliation Complete!', 'success');
-    log(`Results saved to: ${outputDir}`, 'info');
+    const source = resolveSource(bankFiles, qbPath, options, profileStoreDir());
+    log(`Reconciliation period: ${describePeriod(source.period)} (lookaround ${source.period.lookaroundDays} day(s))`, 'info');
 
-    return {
-      success: true,
-      outputDir,
-      stats: {
-        totalMatched: result.matched.length,
-        matchRate: result.matchRate,
-        unmatchedBank: result.unmatchedBank.length,
-        unmatchedQB: result.unmatchedQB.length
-      }
-    };
+    return await runReconciliation(source);
 
   } catch (error: any) {
     console.error('Reconciliation error:', error);
@@ -202,20 +302,251 @@ ipcMain.handle('process-reconciliation', async (_event, bankPath: string, qbPath
 });
 
 /**
- * IPC: Analyze vendors with Gemini AI
+ * IPC: Save the last run and its review to a session file
+ */
+ipcMain.handle('save-session', async () => {
+  try {
+    if (!lastResults) {
+      throw new Error('No results to save - run a reconciliation first');
+    }
+
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      title: 'Save Reconciliation Session',
+      defaultPath: path.join(app.getPath('documents'), `GL_Matching_${lastResults.label}.${SESSION_FILE_EXTENSION}`),
+      filters: [{ name: 'GL Matching Sessions', extensions: [SESSION_FILE_EXTENSION] }]
+    });
+
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+
+    const { source, files, review, matcher } = lastResults;
+    writeSessionFile(result.filePath, createSessionFile(
+      source,
+      files,
+      review.records(),
+      review.acceptedExplanations(),
+      matcher.getBankTransactions(),
+      matcher.getQBTransactions()
+    ));
+    log(`✓ Session saved: ${path.basename(result.filePath)}`, 'success');
+
+    return { success: true, filePath: result.filePath };
+  } catch (error: any) {
+    log(`❌ Could not save session: ${error.message}`, 'error');
+    return { success: false, error: error.message };
+  }
+});
+
+/**
+ * IPC: Reopen a saved session. When a source file changed, offer to re-run
+ * the rows that are not covered by a surviving saved match.
+ */
+ipcMain.handle('open-session', async () => {
+  const picked = await dialog.showOpenDialog(mainWindow!, {
+    properties: ['openFile'],
+    title: 'Open Reconciliation Session',
+    filters: [{ name: 'GL Matching Sessions', extensions: [SESSION_FILE_EXTENSION] }]
+  });
+
+  if (picked.canceled || picked.filePaths.length === 0) {
+    return null;
+  }
+
+  try {
+    const session = readSessionFile(picked.filePaths[0]);
+    log(`Opening session: ${path.basename(picked.filePaths[0])} (saved ${new Date(session.savedAt).toLocaleString()})`, 'info');
+
+    const changed = changedSourceFiles(session);
+    if (changed.length > 0) {
+      const names = changed.map(describeSourceSide).join(' and ');
+      log(`⚠️ ${names} changed since the session was saved`, 'warning');
+
+      const answer = await dialog.showMessageBox(mainWindow!, {
+        type: 'question',
+        buttons: ['Re-run Changed Rows', 'Cancel'],
+        defaultId: 0,
+        cancelId: 1,
+        title: 'Source Files Changed',
+        message: `${names} changed since this session was saved.`,
+        detail: 'Saved matches whose rows are unchanged keep their review status and notes. ' +
+          'New and changed rows, and rows of matches that no longer hold, are matched again.'
+      });
+      if (answer.response !== 0) {
+        log('Session not opened', 'warning');
+        return { success: false, canceled: true };
+      }
+    }
+
+    const result = await runReconciliation(session.source, { session, rerun: changed.length > 0 });
+    return { ...result, source: lastResults!.source };
+  } catch (error: any) {
+    log(`❌ Could not open session: ${error.message}`, 'error');
+    return { success: false, error: error.message };
+  }
+});
+
+/**
+ * IPC: Review tables for the last run
+ */
+ipcMain.handle('get-review', () => {
+  return withReview(() => undefined);
+});
+
+/**
+ * IPC: Review actions - each returns the updated review tables
+ */
+ipcMain.handle('review-accept', (_event, matchId: string) => {
+  return withReview(review => review.accept(matchId));
+});
+
+ipcMain.handle('review-reject', (_event, matchId: string) => {
+  return withReview(review => review.reject(matchId));
+});
+
+ipcMain.handle('review-unmatch', (_event, matchId: string) => {
+  return withReview(review => review.unmatch(matchId));
+});
+
+ipcMain.handle('review-note', (_event, matchId: string, note: string) => {
+  return withReview(review => review.note(matchId, note));
+});
+
+ipcMain.handle('review-link', (_event, bankIds: string[], qbIds: string[]) => {
+  return withReview(review => {
+    const match = review.link(bankIds, qbIds);
+    log(`✓ Linked ${match.bankRows.length} bank row(s) to ${match.qbRows.length} QB row(s) - $${match.amount.toFixed(2)}`, 'success');
+  });
+});
+
+/**
+ * IPC: Approve an alias learned from confirmed matches
+ */
+ipcMain.handle('approve-alias-suggestion', (_event, suggestion: AliasSuggestion) => {
+  return withReview(() => {
+    const saved = saveVendorAlias(profileStoreDir(), suggestion, 'learned');
+    log(`✓ Learned vendor alias: ${saved.variant} → ${saved.canonical}${saved.client ? ` (${saved.client})` : ''}`, 'success');
+  });
+});
+
+/**
+ * IPC: Reject an alias suggestion - it is not suggested again
+ */
+ipcMain.handle('reject-alias-suggestion', (_event, suggestion: AliasSuggestion) => {
+  return withReview(() => rejectAliasSuggestion(profileStoreDir(), suggestion));
+});
+
+/**
+ * IPC: Suggest explanations for the unmatched bank rows with the selected provider
  */
-ipcMain.handle('analyze-vendors-gemini', async (_event, apiKey: string, bankPath: string, qbPath: string) => {
+ipcMain.handle('explain-unmatched', async (_event, provider: LLMProviderSettings) => {
   try {
-    log('🤖 Starting AI vendor analysis...', 'info');
+    if (!lastResults) {
+      throw new Error('No results to review - run a reconciliation first');
+    }
+
+    const { review, matcher } = lastResults;
+    const result = review.toResult();
+    log(`🤖 Explaining ${result.unmatchedBank.length} unmatched bank row(s)...`, 'info');
+
+    const explanations = await explainUnmatched(provider, result.unmatchedBank, result.unmatchedQB, matcher.getBankTransactions(), log);
+    log(`✅ ${explanations.length} suggestion(s) - accept or dismiss them in the Unmatched Bank tab`, 'success');
+
+    return withReview(r => r.suggestExplanations(explanations));
+  } catch (error: any) {
+    log(`❌ Explaining unmatched items failed: ${error.message}`, 'error');
+    return { success: false, error: error.message };
+  }
+});
+
+/**
+ * IPC: Accept a suggested explanation - counterparts become a manual link
+ */
+ipcMain.handle('accept-explanation', (_event, bankId: string) => {
+  return withReview(review => {
+    const match = review.acceptExplanation(bankId);
+    if (match) {
+      log(`✓ Linked suggested counterpart - $${match.amount.toFixed(2)}`, 'success');
+    }
+  });
+});
+
+ipcMain.handle('dismiss-explanation', (_event, bankId: string) => {
+  return withReview(review => review.dismissExplanation(bankId));
+});
+
+/**
+ * IPC: Regenerate the output files from the reviewed state
+ */
+ipcMain.handle('export-reviewed-results', async () => {
+  try {
+    if (!lastResults) {
+      throw new Error('No results to export - run a reconciliation first');
+    }
+
+    const { review, bankTransactions, qbTransactions, outputDir, label, reportContext } = lastResults;
+    const result = review.toResult();
+
+    log('Exporting reviewed results...', 'info');
+    for (const file of lastResults.outputFiles) {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    }
+    const outputs = await writeOutputs(result, bankTransactions, qbTransactions, outputDir, label, {
+      ...reportContext,
+      review: review.summary()
+    }, pipelineSettings(), review.acceptedExplanations(), lastResults.source.csvExports);
+    lastResults.outputFiles = outputs.files;
+    lastResults.result = result;
+    lastResults.statement = outputs.statement;
+    lastResults.byAccount = outputs.byAccount;
+    log(`Results saved to: ${outputDir}`, 'info');
+
+    return { success: true, outputDir, stats: resultStats(result), statement: outputs.statement && summarizeStatement(outputs.statement) };
+  } catch (error: any) {
+    log(`❌ Export failed: ${error.message}`, 'error');
+    return { success: false, error: error.message };
+  }
+});
+
+/**
+ * IPC: Vendor analysis providers
+ */
+ipcMain.handle('get-llm-providers', async () => {
+  return LLM_PROVIDERS;
+});
+
+/**
+ * IPC: Analyze vendors with the selected provider
+ */
+ipcMain.handle('analyze-vendors', async (_event, provider: LLMProviderSettings, bankFiles: BankStatementSource[], qbPath: string, options: ReconciliationOptions = {}) => {
+  try {
+    const info = LLM_PROVIDERS.find(p => p.type === provider.type);
+    log(`🤖 Starting vendor analysis (${info ? info.label : provider.type})...`, 'info');
     
-    // Parse files
-    const bankTransactions = await parseBankCSV(bankPath);
-    const qbTransactions = await parseQBExcel(qbPath);
+    // Parse files - rows of a statement mapped to an account carry that account
+    const profiles = loadBankProfiles(profileStoreDir());
+    const bankRows = bankFiles.flatMap(file =>
+      parseBankFile(file.path, undefined, resolveBankProfile(profiles, file.bankProfileId || options.bankProfileId), profiles).transactions
+        .map(t => (file.account ? { ...t, account: file.account } : t))
+    );
+    const statementAccounts = bankFiles.map(f => f.account).filter((a): a is string => !!a);
+    const accounts = statementAccounts.length > 0 ? [...new Set([...(options.accounts || []), ...statementAccounts])] : options.accounts;
+    const qbRows = parseQBFile(qbPath, undefined, resolveCashAccounts(qbPath, accounts)).transactions;
+
+    // Transfers between the client's own accounts have no vendor - the
+    // matcher's transfer pass finds them, as in a run
+    const config = normalizeMatchingConfig(options.matchingConfig);
+    const transferMatcher = new GLMatcher(bankRows, qbRows, undefined, { ...config, passes: config.passes.filter(p => p.type === 'transfer') });
+    const { matched } = transferMatcher.match();
+    const { bankTransactions, qbTransactions } = withoutTransfers(matched, transferMatcher.getBankTransactions(), transferMatcher.getQBTransactions());
+    const transfers = bankRows.length - bankTransactions.length + qbRows.length - qbTransactions.length;
+    if (transfers > 0) {
+      log(`Left out ${transfers} transfer row(s) between accounts`, 'info');
+    }
     
     log(`Extracted ${bankTransactions.length} bank vendors and ${qbTransactions.length} QB vendors`, 'info');
     
-    // Call Gemini
-    const mappings = await analyzeVendorsWithGemini(apiKey, bankTransactions, qbTransactions);
+    const mappings = await analyzeVendors(provider, bankTransactions, qbTransactions, log);
     
     const mappingCount = Object.keys(mappings).length;
     let totalVariants = 0;
@@ -223,12 +554,16 @@ ipcMain.handle('analyze-vendors-gemini', async (_event, apiKey: string, bankPath
       totalVariants += variants.length;
     }
     
-    log(`✅ AI found ${mappingCount} vendor groups with ${totalVariants} total mappings`, 'success');
+    log(`✅ Found ${mappingCount} vendor groups with ${totalVariants} total mappings`, 'success');
     
     // Log each mapping
     for (const [canonical, variants] of Object.entries(mappings)) {
       log(`  ${canonical} ← [${variants.join(', ')}]`, 'info');
     }
+
+    // Keep them for future runs - existing aliases for the same variants win
+    const added = addAIVendorAliases(profileStoreDir(), mappings, options.client || undefined);
+    log(`✓ Saved ${added} new AI vendor alias(es)${options.client ? ` for ${options.client}` : ''}`, 'success');
     
     return { 
       success: true, 
@@ -239,7 +574,7 @@ ipcMain.handle('analyze-vendors-gemini', async (_event, apiKey: string, bankPath
       }
     };
   } catch (error: any) {
-    log(`❌ AI analysis failed: ${error.message}`, 'error');
+    log(`❌ Vendor analysis failed: ${error.message}`, 'error');
     return { 
       success: false, 
       error: error.message 
@@ -267,6 +602,98 @@ ipcMain.handle('get-app-version', () => {
   return app.getVersion();
 });
 
+/**
+ * Helper: Run the pipeline into a new results folder in Downloads and keep the
+ * run for review. With a saved session, its matches are restored first.
+ */
+async function runReconciliation(source: SessionSource, restore?: { session: SessionFile; rerun: boolean }) {
+  const outputDir = path.join(app.getPath('downloads'), `GL_Matching_Results_${periodLabel(source.period)}_${Date.now()}`);
+  const run = await runPipeline(source, outputDir, pipelineSettings(), restore);
+
+  // Store results for review, re-export and saving
+  lastResults = run;
+
+  log('', 'info');
+  log('🎉 Reconciliation Complete!', 'success');
+  log(`Results saved to: ${outputDir}`, 'info');
+
+  const summary = summarizeRun(run);
+  return {
+    success: true,
+    outputDir,
+    stats: resultStats(run.result),
+    excluded: summary.excluded,
+    statement: summary.statement,
+    accounts: summary.accounts,
+    transfers: summary.transfers,
+    duplicates: summary.duplicates
+  };
+}
+
+/**
+ * Helper: Summary numbers shown in the renderer
+ */
+function resultStats(result: ReconciliationResult) {
+  return {
+    totalMatched: result.matched.length,
+    matchRate: result.matchRate,
+    needsReview: result.needsReview.length,
+    unmatchedBank: result.unmatchedBank.length,
+    unmatchedQB: result.unmatchedQB.length
+  };
+}
+
+/**
+ * Helper: Apply a review action to the last run and return the updated tables
+ */
+function withReview(action: (review: ReviewSession) => void) {
+  try {
+    if (!lastResults) {
+      throw new Error('No results to review - run a reconciliation first');
+    }
+    action(lastResults.review);
+    return {
+      success: true,
+      review: lastResults.review.snapshot(),
+      stats: resultStats(lastResults.review.toResult()),
+      aliasSuggestions: aliasSuggestions()
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Helper: Vendor aliases suggested by the last run's confirmed matches
+ */
+function aliasSuggestions(): AliasSuggestion[] {
+  if (!lastResults) return [];
+
+  const { matcher, review, source } = lastResults;
+  return suggestVendorAliases(
+    review.confirmedMatches(),
+    (vendor, description) => matcher.vendorKey(vendor, description),
+    loadVendorAliases(profileStoreDir()),
+    loadRejectedAliases(profileStoreDir()),
+    source.client
+  );
+}
+
+/**
+ * Helper: Directory holding user-saved settings (import profiles, vendor aliases)
+ */
+function profileStoreDir(): string {
+  return app.getPath('userData');
+}
+
+/**
+ * Helper: Pipeline settings for the app - profiles and aliases from the user
+ * data folder, progress to the log panel, and the PDF package
+ */
+function pipelineSettings(): PipelineSettings {
+  return { storeDir: profileStoreDir(), log, exportPdf: exportPdfPackage };
+}
+
 /**
  * Helper: Send log message to renderer
  */
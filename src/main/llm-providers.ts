@@ -0,0 +1,219 @@
+/**
+ * LLM PROVIDERS
+ *
+ * Text completion behind one interface, so AI features can run against
+ * Gemini, any OpenAI-compatible API, or a model served on this machine
+ * (Ollama, llama.cpp) - or not call a model at all ('heuristic').
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+/**
+ * 'gemini': Google Gemini API
+ * 'openai': any OpenAI-compatible chat completions endpoint
+ * 'local': a local Ollama or llama.cpp server (OpenAI-compatible API, no key)
+ * 'heuristic': deterministic offline rules - nothing leaves the machine
+ */
+export type LLMProviderType = 'gemini' | 'openai' | 'local' | 'heuristic';
+
+export interface LLMProviderSettings {
+  type: LLMProviderType;
+  /** Model name - provider default when empty */
+  model?: string;
+  /** Base URL for 'openai' and 'local' - provider default when empty */
+  endpoint?: string;
+  apiKey?: string;
+}
+
+export interface LLMProviderInfo {
+  type: LLMProviderType;
+  label: string;
+  defaultModel?: string;
+  defaultEndpoint?: string;
+  needsApiKey: boolean;
+  /** Sends vendor names off this machine */
+  remote: boolean;
+}
+
+export interface LLMClient {
+  /** Provider and model, for logs (e.g. "Gemini (gemini-2.5-pro)") */
+  readonly name: string;
+  complete(prompt: string): Promise<string>;
+}
+
+/**
+ * Progress messages for the log (e.g. the 'log-message' channel)
+ */
+export type LLMProgress = (message: string, level: 'info' | 'success' | 'warning') => void;
+
+/** Attempts per request before it is given up */
+const MAX_ATTEMPTS = 3;
+/** Wait before the first retry; doubles with every further retry */
+const RETRY_DELAY_MS = 2000;
+/** A request still unanswered after this is aborted (and retried) */
+const REQUEST_TIMEOUT_MS = 120000;
+
+export const LLM_PROVIDERS: LLMProviderInfo[] = [
+  { type: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-pro', needsApiKey: true, remote: true },
+  { type: 'openai', label: 'OpenAI-compatible API', defaultModel: 'gpt-4o-mini', defaultEndpoint: 'https://api.openai.com/v1', needsApiKey: false, remote: true },
+  { type: 'local', label: 'Local model (Ollama / llama.cpp)', defaultModel: 'llama3.1', defaultEndpoint: 'http://localhost:11434/v1', needsApiKey: false, remote: false },
+  { type: 'heuristic', label: 'Offline heuristic (no AI)', needsApiKey: false, remote: false }
+];
+
+/**
+ * CLIENTS
+ */
+
+/**
+ * Create a completion client for a model-backed provider
+ */
+export function createLLMClient(settings: LLMProviderSettings): LLMClient {
+  const info = LLM_PROVIDERS.find(p => p.type === settings.type);
+  if (!info) {
+    throw new Error(`Unknown AI provider: ${settings.type}`);
+  }
+  if (info.type === 'heuristic') {
+    throw new Error('The offline heuristic does not use a language model');
+  }
+  if (info.needsApiKey && !settings.apiKey) {
+    throw new Error(`${info.label} API key is required`);
+  }
+
+  const model = (settings.model || '').trim() || info.defaultModel!;
+  const name = `${info.label} (${model})`;
+
+  if (info.type === 'gemini') {
+    return new GeminiClient(name, settings.apiKey!, model);
+  }
+  const endpoint = ((settings.endpoint || '').trim() || info.defaultEndpoint!).replace(/\/+$/, '');
+  return new OpenAICompatibleClient(name, endpoint, model, settings.apiKey, !info.remote);
+}
+
+class GeminiClient implements LLMClient {
+  constructor(public readonly name: string, private apiKey: string, private model: string) {}
+
+  async complete(prompt: string): Promise<string> {
+    const genAI = new GoogleGenerativeAI(this.apiKey);
+    const model = genAI.getGenerativeModel({ model: this.model }, { timeout: REQUEST_TIMEOUT_MS });
+
+    try {
+      const result = await model.generateContent(prompt);
+      return result.response.text().trim();
+    } catch (error) {
+      throw new Error(`Gemini API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+/**
+ * OpenAI chat completions protocol - also spoken by Ollama (/v1), llama.cpp
+ * server, vLLM, LM Studio and Azure-style gateways
+ */
+class OpenAICompatibleClient implements LLMClient {
+  constructor(
+    public readonly name: string,
+    private endpoint: string,
+    private model: string,
+    private apiKey: string | undefined,
+    private local: boolean
+  ) {}
+
+  async complete(prompt: string): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.endpoint}/chat/completions`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0
+        })
+      });
+    } catch (error) {
+      if (isTimeout(error)) {
+        throw new Error(`${this.name} did not answer within ${REQUEST_TIMEOUT_MS / 1000}s`);
+      }
+      const hint = this.local ? ' - is the local model server running?' : '';
+      throw new Error(`Could not reach ${this.endpoint}${hint} (${error instanceof Error ? error.message : error})`);
+    }
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`${this.name} returned HTTP ${response.status}: ${body.slice(0, 200)}`);
+    }
+
+    const data: any = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error(`${this.name} returned no completion`);
+    }
+    return text.trim();
+  }
+}
+
+/**
+ * STRUCTURED RESPONSES
+ */
+
+/**
+ * Ask for a JSON reply and check it with `validate` (which throws when the
+ * reply does not fit). Bad replies and failed requests, timed-out ones
+ * included, are retried with backoff; returns null when every attempt fails.
+ */
+export async function completeJSON<T>(
+  client: LLMClient,
+  prompt: string,
+  validate: (raw: unknown) => T,
+  label: string,
+  onProgress: LLMProgress
+): Promise<T | null> {
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      return validate(parseJSONResponse(await client.complete(prompt)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (attempt === MAX_ATTEMPTS) {
+        onProgress(`${label}: ${message} - skipped after ${MAX_ATTEMPTS} attempts`, 'warning');
+        return null;
+      }
+
+      const delay = RETRY_DELAY_MS * 2 ** (attempt - 1);
+      onProgress(`${label}: ${message} - retrying in ${delay / 1000}s (attempt ${attempt + 1}/${MAX_ATTEMPTS})`, 'warning');
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+  return null;
+}
+
+/**
+ * Helper: Whether a request was aborted by its timeout signal
+ */
+function isTimeout(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+}
+
+/**
+ * Helper: The JSON object in a model response (code fences and surrounding prose are ignored)
+ */
+function parseJSONResponse(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end < start) {
+    throw new Error('Response contains no JSON object');
+  }
+
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Response is not valid JSON (${error instanceof Error ? error.message : error})`);
+  }
+}
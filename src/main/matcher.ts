@@ -1,18 +1,29 @@
+import { MatchingConfig, MatchPassConfig, DEFAULT_MATCHING_CONFIG, normalizeMatchingConfig, describePass } from './matching-config';
+import { ScoredEdge, solveAssignment } from './assignment';
+import { AmountDateIndex, DateIndex, findSubsetSum, toCents } from './candidate-index';
+import { VendorMappings, BUILTIN_VENDOR_ALIASES, resolveVendorMappings } from './vendor-aliases';
+import { DateWindow, isInWindow } from './period';
+
 /**
  * TYPES AND INTERFACES
  */
 
 export interface BankTransaction {
+  id: string;            // Stable row ID, e.g. "B:statement.csv:12" (file + row)
   date: Date;
   type: 'Deposit' | 'Withdrawal';
   vendor: string;
   description: string;
   amount: number;
   sourceFile: string;
+  account?: string;      // GL cash account the statement is reconciled against (multi-account runs)
+  fitId?: string;        // OFX financial institution transaction ID
+  checkNumber?: string;
   matched?: boolean;
 }
 
 export interface QBTransaction {
+  id: string;            // Stable row ID, e.g. "Q:General Ledger:40" (sheet + row)
   date: Date;
   transNumber: string;
   type: string;
@@ -26,8 +37,51 @@ export interface QBTransaction {
   matched?: boolean;
 }
 
+/**
+ * Why a pair was matched - the evidence behind its confidence score
+ */
+export interface MatchReasons {
+  /** Days between bank and QB dates (largest gap for splits) */
+  dateDeltaDays: number;
+  /** Absolute difference between bank amount and QB amount(s) */
+  amountDelta: number;
+  /** Normalized vendor name similarity, 0-1 */
+  vendorSimilarity: number;
+  /** Bank type and QB transaction type are compatible (e.g. Withdrawal ↔ Check) */
+  typeCompatible: boolean;
+  /** Other eligible QB candidates the pass could have chosen instead */
+  competingCandidates: number;
+}
+
+/**
+ * Reviewer decision on a match. Rejected matches stay listed but their rows
+ * count as unmatched.
+ */
+export type ReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * A matched group of bank and QB rows. The flat fields summarize the group for
+ * display and export: for multi-row sides, dates are the earliest, amount is the
+ * bank-side total and text fields are joined.
+ */
 export interface MatchedPair {
+  /** Match ID, unique within a run (e.g. "M12") */
+  id: string;
   matchType: string;
+  /** Bank rows in this match - one for 1:1 and QB-side splits, several for bank-side splits and groups */
+  bankRows: BankTransaction[];
+  /** QB rows in this match - several for splits and groups */
+  qbRows: QBTransaction[];
+  /** Match confidence, 0-1 */
+  confidence: number;
+  reasons: MatchReasons;
+  /** Confidence is below the configured review threshold */
+  needsReview: boolean;
+  reviewStatus: ReviewStatus;
+  /** Reviewer's note */
+  reviewNote?: string;
+  /** Uses a row dated outside the reconciliation period (found in the lookaround days) */
+  crossPeriod: boolean;
   bankDate: Date;
   qbDate: Date;
   amount: number;
@@ -41,231 +95,572 @@ export interface MatchedPair {
   qbSplit: string;
 }
 
-export interface ReconciliationResult {
-  matched: MatchedPair[];
+/**
+ * A match by row IDs - the form saved in session files
+ */
+export interface MatchRecord {
+  id: string;
+  matchType: string;
+  bankIds: string[];
+  qbIds: string[];
+  confidence: number;
+  reasons: MatchReasons;
+  needsReview: boolean;
+  reviewStatus: ReviewStatus;
+  reviewNote?: string;
+}
+
+/**
+ * Row counts of the reconciliation period. Rows from the lookaround days only
+ * count when they are matched; unmatched ones are listed in `outsidePeriod`.
+ */
+export interface PeriodTally {
   unmatchedBank: BankTransaction[];
   unmatchedQB: QBTransaction[];
+  /** Unmatched lookaround rows - outside the period, so not reconciling items */
+  outsidePeriod: { bank: BankTransaction[]; qb: QBTransaction[] };
+  /** Share of the period's bank rows that are matched */
   matchRate: number;
+  /** Bank and QB rows dated in the period */
   totalBank: number;
   totalQB: number;
 }
 
+export interface ReconciliationResult extends PeriodTally {
+  matched: MatchedPair[];
+  /** Matching configuration used for this run */
+  config: MatchingConfig;
+  /** Matches found by each enabled pass, in run order */
+  passResults: { pass: string; matches: number }[];
+  /** Matches with confidence below the review threshold */
+  needsReview: MatchedPair[];
+}
+
+/**
+ * Pair evaluation before competition is taken into account
+ */
+interface PairEvaluation {
+  score: number;
+  reasons: Omit<MatchReasons, 'competingCandidates'>;
+}
+
 /**
  * MATCHING ENGINE
  */
 
+/** Weights of the pair score used for optimal assignment and confidence */
+const SCORE_WEIGHTS = { date: 0.35, amount: 0.35, vendor: 0.2, type: 0.1 };
+
+/** Confidence lost per competing candidate: confidence = score / (1 + penalty × competitors) */
+const COMPETITION_PENALTY = 0.25;
+
+/** Nearest-dated QB rows searched per bank row by the split pass */
+const MAX_SPLIT_CANDIDATES = 200;
+
+/** Match type of money moved between two of the client's accounts */
+export const TRANSFER_MATCH_TYPE = 'Transfer';
+
+/** QB transaction types that can move money between two cash accounts in one entry */
+const TRANSFER_ENTRY_TYPES = ['Transfer', 'Journal Entry', 'General Journal'];
+
 export class GLMatcher {
   private bankTransactions: BankTransaction[] = [];
   private qbTransactions: QBTransaction[] = [];
   private matched: MatchedPair[] = [];
-  private additionalMappings: { [key: string]: string[] } = {};
-
-  constructor(bank: BankTransaction[], qb: QBTransaction[], additionalMappings?: { [key: string]: string[] }) {
-    this.bankTransactions = bank.map(t => ({ ...t, matched: false }));
-    this.qbTransactions = qb.map(t => ({ ...t, matched: false }));
-    this.additionalMappings = additionalMappings || {};
+  private vendorMappings: VendorMappings;
+  private config: MatchingConfig;
+  private period?: DateWindow;
+
+  // Candidate indexes, built once per run; matched rows are removed as they are claimed
+  private bankOrder = new Map<string, number>();
+  private qbOrder = new Map<string, number>();
+  private bankDeposits: DateIndex<BankTransaction>;
+  private bankWithdrawals: DateIndex<BankTransaction>;
+  private qbDebits: DateIndex<QBTransaction>;
+  private qbCredits: DateIndex<QBTransaction>;
+  private qbByDebit: AmountDateIndex<QBTransaction>;
+  private qbByCredit: AmountDateIndex<QBTransaction>;
+  private vendorCache = new Map<string, string>();
+  private nextMatchId = 1;
+
+  constructor(
+    bank: BankTransaction[],
+    qb: QBTransaction[],
+    vendorMappings?: VendorMappings,
+    config: MatchingConfig = DEFAULT_MATCHING_CONFIG,
+    period?: DateWindow
+  ) {
+    this.period = period;
+    this.bankTransactions = uniqueIds(bank.map(t => ({ ...t, matched: false })));
+    this.qbTransactions = uniqueIds(qb.map(t => ({ ...t, matched: false })));
+    this.vendorMappings = vendorMappings || resolveVendorMappings(BUILTIN_VENDOR_ALIASES);
+    this.config = normalizeMatchingConfig(config);
+
+    this.bankTransactions.forEach((t, i) => this.bankOrder.set(t.id, i));
+    this.qbTransactions.forEach((t, i) => this.qbOrder.set(t.id, i));
+    this.bankDeposits = new DateIndex(this.bankTransactions.filter(t => t.type === 'Deposit'), t => Math.abs(t.amount));
+    this.bankWithdrawals = new DateIndex(this.bankTransactions.filter(t => t.type === 'Withdrawal'), t => Math.abs(t.amount));
+    this.qbDebits = new DateIndex(this.qbTransactions.filter(qb => qb.debit > 0), qb => qb.debit);
+    this.qbCredits = new DateIndex(this.qbTransactions.filter(qb => qb.credit > 0), qb => qb.credit);
+    this.qbByDebit = new AmountDateIndex(this.qbTransactions, qb => qb.debit);
+    this.qbByCredit = new AmountDateIndex(this.qbTransactions, qb => qb.credit);
   }
 
   /**
-   * Run all matching passes
+   * Run the configured matching passes in order
    */
   public match(): ReconciliationResult {
     console.log('Starting matching process...');
-    
-    // Pass 1: Exact match (date + amount)
-    const pass1 = this.exactMatch();
-    console.log(`Pass 1 (Exact): ${pass1} matches`);
 
-    // Pass 2: Near date ±3 days
-    const pass2 = this.nearDateMatch(3);
-    console.log(`Pass 2 (±3 days): ${pass2} matches`);
+    const passResults: { pass: string; matches: number }[] = [];
 
-    // Pass 3: Near date ±7 days
-    const pass3 = this.nearDateMatch(7);
-    console.log(`Pass 3 (±7 days): ${pass3} matches`);
-
-    // Pass 4: Transaction splits
-    const pass4 = this.splitMatch();
-    console.log(`Pass 4 (Splits): ${pass4} matches`);
+    this.config.passes.filter(p => p.enabled).forEach((pass, idx) => {
+      const matches = this.runPass(pass);
+      const label = describePass(pass);
+      console.log(`Pass ${idx + 1} (${label}): ${matches} matches`);
+      passResults.push({ pass: label, matches });
+    });
 
-    // Pass 5: Fuzzy amount (±$1)
-    const pass5 = this.fuzzyAmountMatch();
-    console.log(`Pass 5 (Fuzzy): ${pass5} matches`);
+    return this.result(passResults);
+  }
 
-    // Pass 6: Vendor + type compatible
-    const pass6 = this.vendorTypeMatch();
-    console.log(`Pass 6 (Vendor): ${pass6} matches`);
+  /**
+   * The current matches without running any passes (e.g. right after restoreMatches)
+   */
+  public result(passResults: { pass: string; matches: number }[] = []): ReconciliationResult {
+    return {
+      matched: this.matched,
+      ...this.tally(),
+      config: this.config,
+      passResults,
+      needsReview: this.matched.filter(m => m.needsReview)
+    };
+  }
 
-    const unmatchedBank = this.bankTransactions.filter(t => !t.matched);
-    const unmatchedQB = this.qbTransactions.filter(t => !t.matched);
+  /**
+   * Unmatched rows and match rate from the rows' current matched flags
+   */
+  public tally(): PeriodTally {
+    const bankInPeriod = this.bankTransactions.filter(t => this.isInPeriod(t));
+    const qbInPeriod = this.qbTransactions.filter(t => this.isInPeriod(t));
 
     return {
-      matched: this.matched,
-      unmatchedBank,
-      unmatchedQB,
-      matchRate: (this.matched.length / this.bankTransactions.length) * 100,
-      totalBank: this.bankTransactions.length,
-      totalQB: this.qbTransactions.length
+      unmatchedBank: bankInPeriod.filter(t => !t.matched),
+      unmatchedQB: qbInPeriod.filter(t => !t.matched),
+      outsidePeriod: {
+        bank: this.bankTransactions.filter(t => !t.matched && !this.isInPeriod(t)),
+        qb: this.qbTransactions.filter(t => !t.matched && !this.isInPeriod(t))
+      },
+      matchRate: bankInPeriod.length > 0 ? (bankInPeriod.filter(t => t.matched).length / bankInPeriod.length) * 100 : 0,
+      totalBank: bankInPeriod.length,
+      totalQB: qbInPeriod.length
     };
   }
 
   /**
-   * Pass 1: Exact date and amount match
+   * Whether a row is dated in the reconciliation period (always, without one)
    */
-  private exactMatch(): number {
-    let count = 0;
+  public isInPeriod(row: { date: Date }): boolean {
+    return !this.period || isInWindow(row.date, this.period);
+  }
 
-    for (let i = 0; i < this.bankTransactions.length; i++) {
-      const bank = this.bankTransactions[i];
-      if (bank.matched) continue;
+  /**
+   * Working copies of the bank rows, in file order (row objects referenced by matches)
+   */
+  public getBankTransactions(): BankTransaction[] {
+    return this.bankTransactions;
+  }
 
-      const bankAmount = Math.abs(bank.amount);
-      const candidates = this.qbTransactions.filter(qb => 
-        !qb.matched &&
-        this.isSameDay(bank.date, qb.date) &&
-        this.getQBAmount(qb, bank.type) === bankAmount
-      );
+  /**
+   * Working copies of the QB rows, in file order
+   */
+  public getQBTransactions(): QBTransaction[] {
+    return this.qbTransactions;
+  }
 
-      // Match if exactly one candidate
-      if (candidates.length === 1) {
-        this.createMatch('Exact', bank, candidates[0], i, this.qbTransactions.indexOf(candidates[0]));
-        count++;
+  /**
+   * A vendor name as the vendor comparison sees it (aliases applied)
+   */
+  public vendorKey(vendor: string, description?: string): string {
+    return this.normalizeVendor(vendor, description);
+  }
+
+  /**
+   * Build a reviewer-made link between bank and QB rows, by row ID.
+   * The match is accepted with full confidence; its reasons still show the
+   * date and amount differences. Matched flags are left to the caller.
+   */
+  public manualMatch(bankIds: string[], qbIds: string[]): MatchedPair {
+    const lookup = <T>(rows: T[], order: Map<string, number>, ids: string[], side: string) => ids.map(id => {
+      const position = order.get(id);
+      if (position === undefined) {
+        throw new Error(`Unknown ${side} row: ${id}`);
       }
-      // If multiple candidates and ALL have empty account field, pick the first one
-      else if (candidates.length > 1 && candidates.every(qb => !qb.account || qb.account.trim() === '')) {
-        this.createMatch('Exact', bank, candidates[0], i, this.qbTransactions.indexOf(candidates[0]));
-        count++;
+      return rows[position];
+    });
+
+    const banks = lookup(this.bankTransactions, this.bankOrder, bankIds, 'bank');
+    const qbs = lookup(this.qbTransactions, this.qbOrder, qbIds, 'QB');
+    if (banks.length === 0 || qbs.length === 0) {
+      throw new Error('A manual match needs at least one bank row and one QB row');
+    }
+    if (banks.some(b => b.type !== banks[0].type)) {
+      throw new Error('Bank rows in one match must all be deposits or all withdrawals');
+    }
+
+    const match = this.buildGroupMatch('Manual', banks, qbs, this.evaluateGroup(banks, qbs, 0), 0);
+    return { ...match, confidence: 1, needsReview: false, reviewStatus: 'accepted' };
+  }
+
+  /**
+   * Re-create matches from an earlier run before match() runs the passes, so
+   * only the remaining rows are matched again. Rows of rejected matches are held
+   * out as well - the reviewer has already looked at them.
+   */
+  public restoreMatches(records: MatchRecord[]): void {
+    for (const record of records) {
+      const banks = record.bankIds.map(id => this.bankTransactions[this.bankOrder.get(id)!]);
+      const qbs = record.qbIds.map(id => this.qbTransactions[this.qbOrder.get(id)!]);
+      if ([...banks, ...qbs].some(row => !row || row.matched)) {
+        throw new Error(`Cannot restore match ${record.id}: its rows are missing or already matched`);
       }
+
+      const match = this.buildGroupMatch(record.matchType, banks, qbs, this.evaluateGroup(banks, qbs, 0), 0);
+      this.matched.push({
+        ...match,
+        id: record.id,
+        confidence: record.confidence,
+        reasons: record.reasons,
+        needsReview: record.needsReview,
+        reviewStatus: record.reviewStatus,
+        reviewNote: record.reviewNote
+      });
+      this.retire(banks, qbs);
+
+      const number = parseInt(record.id.slice(1), 10);
+      if (number >= this.nextMatchId) this.nextMatchId = number + 1;
     }
+  }
 
-    return count;
+  /**
+   * Dispatch one configured pass
+   */
+  private runPass(pass: MatchPassConfig): number {
+    switch (pass.type) {
+      case 'transfer':
+        return this.transferMatch(pass.days!);
+      case 'exact':
+        return this.exactMatch();
+      case 'nearDate':
+        return this.nearDateMatch(pass.days!);
+      case 'split':
+        return this.splitMatch(pass.days!, pass.maxSplitSize!);
+      case 'group':
+        return this.groupMatch(pass.days!, pass.maxBankRows!, pass.maxQBRows!, pass.maxCandidates!);
+      case 'fuzzyAmount':
+        return this.fuzzyAmountMatch(pass.days!, pass.amountTolerance!);
+      case 'vendorType':
+        return this.vendorTypeMatch(pass.days!, pass.similarityThreshold!);
+    }
   }
 
   /**
-   * Pass 2 & 3: Near date match (within days window)
+   * Transfer pass: money moved between two of the client's accounts. On the
+   * bank side, the withdrawal in one statement and the deposit of the same
+   * amount in another (closest dates first); on the GL side, a credit to one
+   * account and a debit to another within one Trans #. Each transfer becomes
+   * one match of the bank rows and GL lines found for it - when only one
+   * side recorded an account's end, that end stays a reconciling item of its
+   * account (see reconciliation-statement.ts).
    */
-  private nearDateMatch(days: number): number {
+  private transferMatch(days: number): number {
     let count = 0;
 
-    for (let i = 0; i < this.bankTransactions.length; i++) {
-      const bank = this.bankTransactions[i];
-      if (bank.matched) continue;
+    // Both bank ends, with the GL lines the books have for them
+    for (const { from, to, competing } of this.bankTransferCandidates(days)) {
+      if (from.matched || to.matched) continue;
 
-      const bankAmount = Math.abs(bank.amount);
-      const candidates = this.qbTransactions.filter(qb => 
-        !qb.matched &&
-        this.isWithinDays(bank.date, qb.date, days) &&
-        this.getQBAmount(qb, bank.type) === bankAmount
-      );
+      const legs = this.transferLegs(from, to, days);
+      if (legs.length === 0 || !this.touchesPeriod([from, to], legs)) continue;
 
-      // Match if exactly one candidate
-      if (candidates.length === 1) {
-        this.createMatch(`Near Date (±${days}d)`, bank, candidates[0], i, this.qbTransactions.indexOf(candidates[0]));
-        count++;
-      }
-      // If multiple candidates and ALL have empty account field, pick the first one
-      else if (candidates.length > 1 && candidates.every(qb => !qb.account || qb.account.trim() === '')) {
-        this.createMatch(`Near Date (±${days}d)`, bank, candidates[0], i, this.qbTransactions.indexOf(candidates[0]));
-        count++;
-      }
+      this.createGroupMatch(TRANSFER_MATCH_TYPE, [from, to], legs, this.evaluateTransfer([from, to], legs, days), competing);
+      count++;
+    }
+
+    // Transfer entries in the GL with only one end on the bank statements
+    for (const [credit, debit] of this.glTransferEntries()) {
+      if (credit.matched || debit.matched) continue;
+
+      const banks = [this.transferEnd(credit, 'Withdrawal', days), this.transferEnd(debit, 'Deposit', days)]
+        .filter((b): b is BankTransaction => !!b);
+      if (banks.length === 0 || !this.touchesPeriod(banks, [credit, debit])) continue;
+
+      this.createGroupMatch(TRANSFER_MATCH_TYPE, banks, [credit, debit], this.evaluateTransfer(banks, [credit, debit], days), 0);
+      count++;
     }
 
     return count;
   }
 
   /**
-   * Pass 4: Transaction splits (2-3 QB entries sum to one bank entry)
+   * Exact pass: same date and amount
+   */
+  private exactMatch(): number {
+    return this.assignOneToOne(
+      (bank, qb) => this.isSameDay(bank.date, qb.date) && this.getQBAmount(qb, bank.type) === Math.abs(bank.amount),
+      (_bank, candidates) => this.pickUnambiguous(candidates),
+      () => 'Exact',
+      0,
+      0
+    );
+  }
+
+  /**
+   * Near date pass: same amount within days window
+   */
+  private nearDateMatch(days: number): number {
+    return this.assignOneToOne(
+      (bank, qb) => this.isWithinDays(bank.date, qb.date, days) && this.getQBAmount(qb, bank.type) === Math.abs(bank.amount),
+      (_bank, candidates) => this.pickUnambiguous(candidates),
+      () => `Near Date (±${days}d)`,
+      days,
+      0
+    );
+  }
+
+  /**
+   * Split pass: 2 to maxSplitSize QB entries sum to one bank entry.
+   * Only the nearest-dated QB rows no larger than the bank amount can take part,
+   * and the subset search runs on sorted cents (two-pointer / meet-in-the-middle).
    */
-  private splitMatch(): number {
+  private splitMatch(days: number, maxSplitSize: number): number {
     let count = 0;
 
-    for (let i = 0; i < this.bankTransactions.length; i++) {
-      const bank = this.bankTransactions[i];
+    for (const bank of this.bankTransactions) {
       if (bank.matched) continue;
 
       const bankAmount = Math.abs(bank.amount);
-      const candidates = this.qbTransactions.filter(qb =>
-        !qb.matched &&
-        this.isWithinDays(bank.date, qb.date, 5) &&
-        this.getQBAmount(qb, bank.type) > 0
-      );
+      const candidates = this.qbDatesFor(bank.type).nearest(bank.date, days, MAX_SPLIT_CANDIDATES, bankAmount)
+        .filter(qb => (this.isInPeriod(bank) || this.isInPeriod(qb)) && this.sameAccount(bank, qb));
 
       if (candidates.length < 2) continue;
 
-      // Try 2-transaction splits
-      for (let j = 0; j < candidates.length - 1; j++) {
-        for (let k = j + 1; k < candidates.length; k++) {
-          const sum = this.getQBAmount(candidates[j], bank.type) + this.getQBAmount(candidates[k], bank.type);
-          if (Math.abs(sum - bankAmount) < 0.01) {
-            this.createSplitMatch(
-              `Split (2 transactions)`,
-              bank,
-              [candidates[j], candidates[k]],
-              i,
-              [this.qbTransactions.indexOf(candidates[j]), this.qbTransactions.indexOf(candidates[k])]
-            );
-            count++;
-            break;
-          }
+      const cents = candidates.map(qb => toCents(this.getQBAmount(qb, bank.type)));
+
+      // Smallest splits first: 2 transactions, then 3, ...
+      for (let size = 2; size <= Math.min(maxSplitSize, candidates.length); size++) {
+        const found = findSubsetSum(cents, toCents(bankAmount), size);
+        if (found) {
+          const combo = found.sort((a, b) => a - b).map(i => candidates[i]);
+          this.createGroupMatch(
+            `Split (${size} transactions)`,
+            [bank],
+            combo,
+            this.evaluateGroup([bank], combo, days),
+            candidates.length - size
+          );
+          count++;
+          break;
         }
-        if (bank.matched) break;
       }
+    }
 
-      if (bank.matched) continue;
+    return count;
+  }
 
-      // Try 3-transaction splits
-      for (let j = 0; j < candidates.length - 2; j++) {
-        for (let k = j + 1; k < candidates.length - 1; k++) {
-          for (let l = k + 1; l < candidates.length; l++) {
-            const sum = 
-              this.getQBAmount(candidates[j], bank.type) + 
-              this.getQBAmount(candidates[k], bank.type) + 
-              this.getQBAmount(candidates[l], bank.type);
-            
-            if (Math.abs(sum - bankAmount) < 0.01) {
-              this.createSplitMatch(
-                `Split (3 transactions)`,
-                bank,
-                [candidates[j], candidates[k], candidates[l]],
-                i,
-                [
-                  this.qbTransactions.indexOf(candidates[j]),
-                  this.qbTransactions.indexOf(candidates[k]),
-                  this.qbTransactions.indexOf(candidates[l])
-                ]
-              );
-              count++;
-              break;
-            }
-          }
-          if (bank.matched) break;
+  /**
+   * Group pass: bank-side splits (several bank rows → one QB entry, e.g. one QB
+   * deposit for several bank deposits or a merchant batch settlement) and small
+   * N:M groups, where a set of bank rows sums exactly to a set of QB rows.
+   *
+   * Bounded subset-sum: each unmatched bank row anchors a search over the
+   * `maxCandidates` nearest-dated unmatched rows of each side within the date
+   * window. All QB subset sums (up to maxQBRows) are indexed by cents once per
+   * anchor, then each bank subset containing the anchor is looked up - at most
+   * C(maxCandidates, 3) subsets per side, whatever the ledger size.
+   * Plain 1:1 matches are left to the other passes.
+   */
+  private groupMatch(days: number, maxBankRows: number, maxQBRows: number, maxCandidates: number): number {
+    let count = 0;
+
+    for (const anchor of this.bankTransactions) {
+      if (anchor.matched) continue;
+
+      const bankPool = this.bankDatesFor(anchor.type)
+        .nearest(anchor.date, days, maxCandidates + 1)
+        .filter(b => b !== anchor && b.account === anchor.account)
+        .slice(0, maxCandidates);
+      const qbPool = this.qbDatesFor(anchor.type)
+        .nearest(anchor.date, days, maxCandidates)
+        .filter(qb => this.sameAccount(anchor, qb));
+
+      if (qbPool.length === 0) continue;
+
+      // Index every QB subset (size 1..maxQBRows) by its total in cents
+      const qbSums = new Map<number, QBTransaction[][]>();
+      this.forEachSubset(qbPool, maxQBRows, subset => {
+        const cents = Math.round(subset.reduce((sum, qb) => sum + this.getQBAmount(qb, anchor.type), 0) * 100);
+        if (!qbSums.has(cents)) qbSums.set(cents, []);
+        qbSums.get(cents)!.push([...subset]);
+      });
+
+      // Bank subsets always include the anchor
+      const found: { banks: BankTransaction[]; qbs: QBTransaction[] }[] = [];
+      this.forEachSubset(bankPool, maxBankRows - 1, others => {
+        const banks = [anchor, ...others];
+        const cents = Math.round(banks.reduce((sum, b) => sum + Math.abs(b.amount), 0) * 100);
+        for (const qbs of qbSums.get(cents) || []) {
+          if (banks.length === 1 && qbs.length === 1) continue;
+          if (!this.touchesPeriod(banks, qbs)) continue;
+          found.push({ banks, qbs });
         }
-        if (bank.matched) break;
-      }
+      }, true);
+
+      if (found.length === 0) continue;
+
+      // Prefer the smallest group, then the tightest date spread
+      const spread = (g: { banks: BankTransaction[]; qbs: QBTransaction[] }) =>
+        Math.max(...g.banks.flatMap(b => g.qbs.map(qb => this.daysBetween(b.date, qb.date))));
+      found.sort((a, b) =>
+        (a.banks.length + a.qbs.length) - (b.banks.length + b.qbs.length) || spread(a) - spread(b)
+      );
+
+      const best = found[0];
+      const label = best.qbs.length === 1
+        ? `Bank Split (${best.banks.length} bank transactions)`
+        : best.banks.length === 1
+          ? `Split (${best.qbs.length} transactions)`
+          : `Group (${best.banks.length} bank : ${best.qbs.length} QB)`;
+
+      this.createGroupMatch(label, best.banks, best.qbs, this.evaluateGroup(best.banks, best.qbs, days), found.length - 1);
+      count++;
     }
 
     return count;
   }
 
   /**
-   * Pass 5: Fuzzy amount matching (within $1 for rounding)
+   * Helper: Visit every subset of `rows` with 1..maxSize elements (or 0..maxSize
+   * when includeEmpty), in index order. The visited array is reused - copy to keep it.
    */
-  private fuzzyAmountMatch(): number {
+  private forEachSubset<T>(rows: T[], maxSize: number, visit: (subset: T[]) => void, includeEmpty = false): void {
+    const chosen: T[] = [];
+    const walk = (start: number) => {
+      if (chosen.length > 0 || includeEmpty) visit(chosen);
+      if (chosen.length === maxSize) return;
+      for (let j = start; j < rows.length; j++) {
+        chosen.push(rows[j]);
+        walk(j + 1);
+        chosen.pop();
+      }
+    };
+    walk(0);
+  }
+
+  /**
+   * Fuzzy amount pass: amount within tolerance (rounding differences)
+   */
+  private fuzzyAmountMatch(days: number, tolerance: number): number {
+    return this.assignOneToOne(
+      (bank, qb) =>
+        this.isWithinDays(bank.date, qb.date, days) &&
+        Math.abs(this.getQBAmount(qb, bank.type) - Math.abs(bank.amount)) <= tolerance,
+      (_bank, candidates) => (candidates.length === 1 ? candidates[0] : null),
+      () => 'Fuzzy Amount',
+      days,
+      tolerance
+    );
+  }
+
+  /**
+   * Vendor pass: vendor name similarity + type compatible
+   */
+  private vendorTypeMatch(days: number, similarityThreshold: number): number {
+    // Pass description for Zelle name extraction
+    const vendorSimilarity = (bank: BankTransaction, qb: QBTransaction) => {
+      const bankVendorNorm = this.normalizeVendor(bank.vendor, bank.description);
+      const qbVendorNorm = this.normalizeVendor(qb.name);
+      const similarity = this.similarityScore(bankVendorNorm, qbVendorNorm);
+      const sameVendor = bankVendorNorm === qbVendorNorm && bankVendorNorm !== '';
+      return { similarity, accepted: similarity >= similarityThreshold || sameVendor };
+    };
+
+    return this.assignOneToOne(
+      (bank, qb) =>
+        this.isWithinDays(bank.date, qb.date, days) &&
+        this.getQBAmount(qb, bank.type) === Math.abs(bank.amount) &&
+        this.typesAreCompatible(bank.type, qb.type) &&
+        vendorSimilarity(bank, qb).accepted,
+      // Greedy: first candidate in file order
+      (_bank, candidates) => candidates[0] || null,
+      (bank, qb) => `Vendor+Type (${Math.round(vendorSimilarity(bank, qb).similarity * 100)}% similar)`,
+      days,
+      0
+    );
+  }
+
+  /**
+   * Run a one-to-one pass with the configured assignment strategy.
+   * Candidates come from the amount/date index (amount ±tolerance, date ±days)
+   * and are then checked with `isCandidate`.
+   * greedy: bank rows in file order take the candidate chosen by `pick`.
+   * optimal: every eligible pair is scored and the best one-to-one assignment is taken.
+   */
+  private assignOneToOne(
+    isCandidate: (bank: BankTransaction, qb: QBTransaction) => boolean,
+    pick: (bank: BankTransaction, candidates: QBTransaction[]) => QBTransaction | null,
+    label: (bank: BankTransaction, qb: QBTransaction) => string,
+    days: number,
+    tolerance: number
+  ): number {
+    // At least a day, so same-day rows with a time of day are found by the exact pass
+    const candidatesFor = (bank: BankTransaction) =>
+      this.qbIndexFor(bank.type)
+        .find(Math.abs(bank.amount), tolerance, bank.date, Math.max(days, 1))
+        .filter(qb => this.touchesPeriod([bank], [qb]) && this.sameAccount(bank, qb) && isCandidate(bank, qb))
+        .sort((a, b) => this.qbPosition(a) - this.qbPosition(b));
+
+    if (this.config.strategy === 'optimal') {
+      const edges: ScoredEdge[] = [];
+      const evaluations = new Map<string, PairEvaluation>();
+      const candidateCounts = new Map<string, number>();
+
+      for (const bank of this.bankTransactions) {
+        if (bank.matched) continue;
+        const candidates = candidatesFor(bank);
+        for (const qb of candidates) {
+          const evaluation = this.evaluatePair(bank, qb, days, tolerance);
+          evaluations.set(`${bank.id}|${qb.id}`, evaluation);
+          edges.push({ row: this.bankOrder.get(bank.id)!, col: this.qbPosition(qb), score: evaluation.score });
+        }
+        candidateCounts.set(bank.id, candidates.length);
+      }
+
+      const assignment = solveAssignment(edges).sort((a, b) => a.row - b.row);
+      for (const { row, col } of assignment) {
+        const bank = this.bankTransactions[row];
+        const qb = this.qbTransactions[col];
+        this.createMatch(label(bank, qb), bank, qb, evaluations.get(`${bank.id}|${qb.id}`)!, candidateCounts.get(bank.id)! - 1);
+      }
+      return assignment.length;
+    }
+
     let count = 0;
 
-    for (let i = 0; i < this.bankTransactions.length; i++) {
-      const bank = this.bankTransactions[i];
+    for (const bank of this.bankTransactions) {
       if (bank.matched) continue;
 
-      const bankAmount = Math.abs(bank.amount);
-      const candidates = this.qbTransactions.filter(qb => 
-        !qb.matched &&
-        this.isWithinDays(bank.date, qb.date, 3) &&
-        Math.abs(this.getQBAmount(qb, bank.type) - bankAmount) <= 1.0
-      );
-
-      if (candidates.length === 1) {
-        this.createMatch('Fuzzy Amount', bank, candidates[0], i, this.qbTransactions.indexOf(candidates[0]));
+      const candidates = candidatesFor(bank);
+      const chosen = pick(bank, candidates);
+
+      if (chosen) {
+        this.createMatch(
+          label(bank, chosen),
+          bank,
+          chosen,
+          this.evaluatePair(bank, chosen, days, tolerance),
+          candidates.length - 1
+        );
         count++;
       }
     }
@@ -274,53 +669,261 @@ export class GLMatcher {
   }
 
   /**
-   * Pass 6: Vendor name + type compatible matching
+   * Helper: QB amount index matching the bank side (debits for deposits, credits for withdrawals)
    */
-  private vendorTypeMatch(): number {
-    let count = 0;
+  private qbIndexFor(bankType: 'Deposit' | 'Withdrawal'): AmountDateIndex<QBTransaction> {
+    return bankType === 'Deposit' ? this.qbByDebit : this.qbByCredit;
+  }
 
-    for (let i = 0; i < this.bankTransactions.length; i++) {
-      const bank = this.bankTransactions[i];
-      if (bank.matched) continue;
+  /**
+   * Helper: Bank rows of one type by date
+   */
+  private bankDatesFor(bankType: 'Deposit' | 'Withdrawal'): DateIndex<BankTransaction> {
+    return bankType === 'Deposit' ? this.bankDeposits : this.bankWithdrawals;
+  }
 
-      const bankAmount = Math.abs(bank.amount);
-      // Pass description for Zelle name extraction
-      const bankVendorNorm = this.normalizeVendor(bank.vendor, bank.description);
+  /**
+   * Helper: QB rows with a non-zero amount on the bank's side, by date
+   */
+  private qbDatesFor(bankType: 'Deposit' | 'Withdrawal'): DateIndex<QBTransaction> {
+    return bankType === 'Deposit' ? this.qbDebits : this.qbCredits;
+  }
 
-      const candidates = this.qbTransactions.filter(qb =>
-        !qb.matched &&
-        this.isWithinDays(bank.date, qb.date, 3) &&
-        this.getQBAmount(qb, bank.type) === bankAmount &&
-        this.typesAreCompatible(bank.type, qb.type)
-      );
+  /**
+   * Helper: Position of a QB row in the file, for file-order tie-breaking
+   */
+  private qbPosition(qb: QBTransaction): number {
+    return this.qbOrder.get(qb.id)!;
+  }
 
-      for (const candidate of candidates) {
-        const qbVendorNorm = this.normalizeVendor(candidate.name);
-        const similarity = this.similarityScore(bankVendorNorm, qbVendorNorm);
-
-        if (similarity > 0.6 || (bankVendorNorm === qbVendorNorm && bankVendorNorm !== '')) {
-          this.createMatch(
-            `Vendor+Type (${Math.round(similarity * 100)}% similar)`,
-            bank,
-            candidate,
-            i,
-            this.qbTransactions.indexOf(candidate)
-          );
-          count++;
-          break;
-        }
+  /**
+   * Helper: Greedy pick for exact/near-date passes
+   * Match if exactly one candidate; if multiple candidates and ALL have empty
+   * account field, pick the first one
+   */
+  private pickUnambiguous(candidates: QBTransaction[]): QBTransaction | null {
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+    if (candidates.length > 1 && candidates.every(qb => !qb.account || qb.account.trim() === '')) {
+      return candidates[0];
+    }
+    return null;
+  }
+
+  /**
+   * Helper: Unmatched withdrawals paired with a same-amount deposit in another
+   * account within `days`, closest dates first, with the number of other
+   * pairings either row has
+   */
+  private bankTransferCandidates(days: number): { from: BankTransaction; to: BankTransaction; competing: number }[] {
+    const deposits = new Map<number, BankTransaction[]>();
+    for (const to of this.bankTransactions) {
+      if (to.matched || to.type !== 'Deposit' || !to.account) continue;
+      const cents = toCents(Math.abs(to.amount));
+      deposits.set(cents, [...(deposits.get(cents) || []), to]);
+    }
+
+    const candidates: { from: BankTransaction; to: BankTransaction; gap: number }[] = [];
+    const pairings = new Map<BankTransaction, number>();
+    for (const from of this.bankTransactions) {
+      if (from.matched || from.type !== 'Withdrawal' || !from.account) continue;
+      for (const to of deposits.get(toCents(Math.abs(from.amount))) || []) {
+        if (to.account === from.account || !this.isWithinDays(from.date, to.date, days)) continue;
+        candidates.push({ from, to, gap: this.daysBetween(from.date, to.date) });
+        pairings.set(from, (pairings.get(from) || 0) + 1);
+        pairings.set(to, (pairings.get(to) || 0) + 1);
       }
     }
 
-    return count;
+    return candidates
+      .sort((a, b) => a.gap - b.gap)
+      .map(({ from, to }) => ({ from, to, competing: Math.max(pairings.get(from)!, pairings.get(to)!) - 1 }));
+  }
+
+  /**
+   * Helper: GL lines of a transfer - a credit to the paying account near the
+   * withdrawal and a debit to the receiving account near the deposit. Lines
+   * sharing a Trans # win, then the closest dates, then file order. When the
+   * books have only one of them, that one is returned alone.
+   */
+  private transferLegs(from: BankTransaction, to: BankTransaction, days: number): QBTransaction[] {
+    const amount = Math.abs(from.amount);
+    const near = (bank: BankTransaction) => (qb: QBTransaction) =>
+      qb.account === bank.account && this.isWithinDays(bank.date, qb.date, days);
+    const closest = (bank: BankTransaction) => (a: QBTransaction, b: QBTransaction) =>
+      this.daysBetween(bank.date, a.date) - this.daysBetween(bank.date, b.date) || this.qbPosition(a) - this.qbPosition(b);
+    const credits = this.qbByCredit.find(amount, 0, from.date, Math.max(days, 1)).filter(near(from)).sort(closest(from));
+    const debits = this.qbByDebit.find(amount, 0, to.date, Math.max(days, 1)).filter(near(to)).sort(closest(to));
+
+    if (credits.length === 0 || debits.length === 0) {
+      return [...credits.slice(0, 1), ...debits.slice(0, 1)];
+    }
+
+    const pairs = credits.flatMap(credit => debits.map(debit => ({
+      legs: [credit, debit],
+      sameEntry: !!credit.transNumber && credit.transNumber === debit.transNumber,
+      gap: this.daysBetween(from.date, credit.date) + this.daysBetween(to.date, debit.date)
+    })));
+    pairs.sort((a, b) =>
+      Number(b.sameEntry) - Number(a.sameEntry) ||
+      a.gap - b.gap ||
+      this.qbPosition(a.legs[0]) - this.qbPosition(b.legs[0]) ||
+      this.qbPosition(a.legs[1]) - this.qbPosition(b.legs[1])
+    );
+
+    return pairs[0].legs;
+  }
+
+  /**
+   * Helper: Unmatched GL transfer entries - a credit to one account and a debit
+   * of the same amount to another, in one Transfer or journal entry. Without a
+   * Trans # column the parser fills Trans # from Num, a check or reference
+   * number unrelated lines may share, so lines of one entry must also share
+   * their date.
+   */
+  private glTransferEntries(): [QBTransaction, QBTransaction][] {
+    const entries = new Map<string, QBTransaction[]>();
+    for (const qb of this.qbTransactions) {
+      if (qb.matched || !qb.account || !qb.transNumber || !TRANSFER_ENTRY_TYPES.includes(qb.type)) continue;
+      const key = `${qb.transNumber}|${qb.date.getTime()}`;
+      entries.set(key, [...(entries.get(key) || []), qb]);
+    }
+
+    const pairs: [QBTransaction, QBTransaction][] = [];
+    for (const lines of entries.values()) {
+      const used = new Set<QBTransaction>();
+      for (const credit of lines.filter(qb => qb.credit > 0)) {
+        const debit = lines.find(qb =>
+          !used.has(qb) && qb.account !== credit.account && toCents(qb.debit) === toCents(credit.credit)
+        );
+        if (!debit) continue;
+        used.add(debit);
+        pairs.push([credit, debit]);
+      }
+    }
+
+    return pairs.sort((a, b) => this.qbPosition(a[0]) - this.qbPosition(b[0]));
+  }
+
+  /**
+   * Helper: The unmatched bank row of a GL transfer line's account - same
+   * amount, within `days`, closest date first
+   */
+  private transferEnd(qb: QBTransaction, bankType: 'Deposit' | 'Withdrawal', days: number): BankTransaction | undefined {
+    const cents = toCents(this.getQBAmount(qb, bankType));
+    return this.bankTransactions
+      .filter(b => !b.matched && b.type === bankType && b.account === qb.account &&
+        toCents(Math.abs(b.amount)) === cents && this.isWithinDays(b.date, qb.date, days))
+      .sort((a, b) => this.daysBetween(a.date, qb.date) - this.daysBetween(b.date, qb.date))[0];
+  }
+
+  /**
+   * Helper: Evaluate a transfer by its booked ends (a bank row and the GL line
+   * of its account); the date gap also covers the days in transit. The score
+   * is scaled by the share of the four rows - two bank ends, two GL lines -
+   * that were found.
+   */
+  private evaluateTransfer(banks: BankTransaction[], qbs: QBTransaction[], days: number): PairEvaluation {
+    const legs = banks.flatMap(b => qbs.filter(qb => qb.account === b.account).map(qb => this.evaluatePair(b, qb, days, 0)));
+    const inTransit = banks.length === 2 ? this.daysBetween(banks[0].date, banks[1].date) : 0;
+
+    const reasons = {
+      dateDeltaDays: Math.max(inTransit, ...legs.map(l => l.reasons.dateDeltaDays)),
+      amountDelta: Math.round(legs.reduce((total, l) => total + l.reasons.amountDelta, 0) * 100) / 100,
+      vendorSimilarity: Math.max(...legs.map(l => l.reasons.vendorSimilarity)),
+      typeCompatible: legs.every(l => l.reasons.typeCompatible)
+    };
+
+    return { score: this.weightedScore(reasons, days, 0) * (banks.length + qbs.length) / 4, reasons };
+  }
+
+  /**
+   * Helper: Score a bank/QB pair (0-1) - closer dates and amounts, more similar
+   * vendors and compatible types score higher. Used to rank candidates for
+   * optimal assignment and as the basis of match confidence.
+   */
+  private evaluatePair(bank: BankTransaction, qb: QBTransaction, days: number, tolerance: number): PairEvaluation {
+    const reasons = {
+      dateDeltaDays: this.daysBetween(bank.date, qb.date),
+      amountDelta: Math.round(Math.abs(this.getQBAmount(qb, bank.type) - Math.abs(bank.amount)) * 100) / 100,
+      vendorSimilarity: this.similarityScore(this.normalizeVendor(bank.vendor, bank.description), this.normalizeVendor(qb.name)),
+      typeCompatible: this.typesAreCompatible(bank.type, qb.type)
+    };
+
+    return { score: this.weightedScore(reasons, days, tolerance), reasons };
+  }
+
+  /**
+   * Helper: Evaluate a split or group - the widest bank/QB date gap, the
+   * difference between the two sides' totals, the best vendor similarity and
+   * whether any pairing has compatible types
+   */
+  private evaluateGroup(banks: BankTransaction[], qbs: QBTransaction[], days: number): PairEvaluation {
+    const bankType = banks[0].type;
+    const bankTotal = banks.reduce((total, b) => total + Math.abs(b.amount), 0);
+    const qbTotal = qbs.reduce((total, qb) => total + this.getQBAmount(qb, bankType), 0);
+    const pairs = banks.flatMap(b => qbs.map(qb => ({ b, qb })));
+
+    const reasons = {
+      dateDeltaDays: Math.max(...pairs.map(({ b, qb }) => this.daysBetween(b.date, qb.date))),
+      amountDelta: Math.round(Math.abs(qbTotal - bankTotal) * 100) / 100,
+      vendorSimilarity: Math.max(...pairs.map(({ b, qb }) =>
+        this.similarityScore(this.normalizeVendor(b.vendor, b.description), this.normalizeVendor(qb.name))
+      )),
+      typeCompatible: pairs.some(({ b, qb }) => this.typesAreCompatible(b.type, qb.type))
+    };
+
+    return { score: this.weightedScore(reasons, days, 0), reasons };
+  }
+
+  /**
+   * Helper: Combine pair evidence into a 0-1 score
+   */
+  private weightedScore(reasons: PairEvaluation['reasons'], days: number, tolerance: number): number {
+    const dateScore = Math.max(0, 1 - reasons.dateDeltaDays / (days + 1));
+    const amountScore = Math.max(0, 1 - reasons.amountDelta / (tolerance + 0.01));
+
+    const score =
+      SCORE_WEIGHTS.date * dateScore +
+      SCORE_WEIGHTS.amount * amountScore +
+      SCORE_WEIGHTS.vendor * reasons.vendorSimilarity +
+      SCORE_WEIGHTS.type * (reasons.typeCompatible ? 1 : 0);
+
+    // Every eligible pair must stay selectable
+    return Math.max(score, 0.001);
+  }
+
+  /**
+   * Helper: Confidence = pair score discounted by the number of competing candidates
+   */
+  private toConfidence(evaluation: PairEvaluation, competingCandidates: number): { confidence: number; reasons: MatchReasons; needsReview: boolean } {
+    const confidence = Math.round((evaluation.score / (1 + COMPETITION_PENALTY * competingCandidates)) * 1000) / 1000;
+    return {
+      confidence,
+      reasons: { ...evaluation.reasons, competingCandidates },
+      needsReview: confidence < this.config.reviewThreshold
+    };
   }
 
   /**
    * Create a single match
    */
-  private createMatch(matchType: string, bank: BankTransaction, qb: QBTransaction, bankIdx: number, qbIdx: number): void {
+  private createMatch(
+    matchType: string,
+    bank: BankTransaction,
+    qb: QBTransaction,
+    evaluation: PairEvaluation,
+    competingCandidates: number
+  ): void {
     this.matched.push({
+      id: `M${this.nextMatchId++}`,
       matchType,
+      bankRows: [bank],
+      qbRows: [qb],
+      ...this.toConfidence(evaluation, competingCandidates),
+      reviewStatus: 'pending',
+      crossPeriod: !this.isInPeriod(bank) || !this.isInPeriod(qb),
       bankDate: bank.date,
       qbDate: qb.date,
       amount: Math.abs(bank.amount),
@@ -334,39 +937,93 @@ export class GLMatcher {
       qbSplit: qb.split
     });
 
-    this.bankTransactions[bankIdx].matched = true;
-    this.qbTransactions[qbIdx].matched = true;
+    this.retire([bank], [qb]);
   }
 
   /**
-   * Create a split match (multiple QB entries to one bank)
+   * Create a split/group match (multiple QB and/or bank entries)
    */
-  private createSplitMatch(
-    matchType: string, 
-    bank: BankTransaction, 
-    qbs: QBTransaction[], 
-    bankIdx: number, 
-    qbIndices: number[]
+  private createGroupMatch(
+    matchType: string,
+    banks: BankTransaction[],
+    qbs: QBTransaction[],
+    evaluation: PairEvaluation,
+    competingCandidates: number
   ): void {
-    this.matched.push({
+    this.matched.push(this.buildGroupMatch(matchType, banks, qbs, evaluation, competingCandidates));
+    this.retire(banks, qbs);
+  }
+
+  /**
+   * Helper: Summarize a group of bank and QB rows as one match
+   */
+  private buildGroupMatch(
+    matchType: string,
+    banks: BankTransaction[],
+    qbs: QBTransaction[],
+    evaluation: PairEvaluation,
+    competingCandidates: number
+  ): MatchedPair {
+    const earliest = <T extends { date: Date }>(rows: T[]) =>
+      new Date(Math.min(...rows.map(r => r.date.getTime())));
+    // A transfer's bank rows are the two ends of one movement
+    const transfer = matchType === TRANSFER_MATCH_TYPE;
+
+    return {
+      id: `M${this.nextMatchId++}`,
       matchType,
-      bankDate: bank.date,
-      qbDate: qbs[0].date,
-      amount: Math.abs(bank.amount),
-      bankType: bank.type,
-      bankVendor: bank.vendor,
-      bankDescription: bank.description,
+      bankRows: banks,
+      qbRows: qbs,
+      ...this.toConfidence(evaluation, competingCandidates),
+      reviewStatus: 'pending',
+      crossPeriod: [...banks, ...qbs].some(row => !this.isInPeriod(row)),
+      bankDate: earliest(banks),
+      qbDate: earliest(qbs),
+      amount: transfer
+        ? Math.abs(banks[0].amount)
+        : Math.round(banks.reduce((total, b) => total + Math.abs(b.amount), 0) * 100) / 100,
+      bankType: transfer ? TRANSFER_MATCH_TYPE : banks[0].type,
+      bankVendor: banks.map(b => b.vendor).join(', '),
+      bankDescription: banks.map(b => b.description).join(' | '),
       qbTransNumber: qbs.map(q => q.transNumber).join(', '),
-      qbType: 'Multiple',
+      qbType: qbs.length === 1 ? qbs[0].type : 'Multiple',
       qbName: qbs.map(q => q.name).join(', '),
       qbMemo: qbs.map(q => q.memo).join(' | '),
       qbSplit: qbs.map(q => q.split).join(' | ')
-    });
+    };
+  }
 
-    this.bankTransactions[bankIdx].matched = true;
-    qbIndices.forEach(idx => {
-      this.qbTransactions[idx].matched = true;
-    });
+  /**
+   * Helper: Lookaround rows may only match rows from the period - two rows
+   * that are both outside it belong to another reconciliation
+   */
+  private touchesPeriod(banks: BankTransaction[], qbs: QBTransaction[]): boolean {
+    return banks.some(b => this.isInPeriod(b)) || qbs.some(qb => this.isInPeriod(qb));
+  }
+
+  /**
+   * Helper: A statement mapped to a GL cash account only matches that account's
+   * rows (rows without an account match anything)
+   */
+  private sameAccount(bank: BankTransaction, qb: QBTransaction): boolean {
+    return !bank.account || !qb.account || bank.account === qb.account;
+  }
+
+  /**
+   * Helper: Mark rows matched and drop them from the candidate indexes
+   */
+  private retire(banks: BankTransaction[], qbs: QBTransaction[]): void {
+    for (const bank of banks) {
+      bank.matched = true;
+      this.bankDatesFor(bank.type).remove(bank);
+    }
+    for (const qb of qbs) {
+      qb.matched = true;
+      this.qbDebits.remove(qb);
+      this.qbCredits.remove(qb);
+      this.qbByDebit.remove(qb);
+      this.qbByCredit.remove(qb);
+    }
   }
 
   /**
@@ -385,6 +1042,13 @@ export class GLMatcher {
            date1.getDate() === date2.getDate();
   }
 
+  /**
+   * Helper: Whole days between two dates
+   */
+  private daysBetween(date1: Date, date2: Date): number {
+    return Math.round(Math.abs(date1.getTime() - date2.getTime()) / (1000 * 60 * 60 * 24));
+  }
+
   /**
    * Helper: Check if dates are within N days (INCLUSIVE of exact same day)
    * Python: (qb_date >= bank_date - timedelta(days=N)) & (qb_date <= bank_date + timedelta(days=N))
@@ -402,6 +1066,20 @@ export class GLMatcher {
   private normalizeVendor(vendor: string, description?: string): string {
     if (!vendor) return '';
 
+    const cacheKey = `${vendor}\u0000${description || ''}`;
+    const cached = this.vendorCache.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const normalized = this.computeNormalizedVendor(vendor, description);
+    this.vendorCache.set(cacheKey, normalized);
+    return normalized;
+  }
+
+  /**
+   * Helper: Uncached vendor normalization
+   */
+  private computeNormalizedVendor(vendor: string, description?: string): string {
+
     let normalized = vendor.toUpperCase().trim();
 
     // Special handling for Zelle - extract person name from description
@@ -417,18 +1095,8 @@ export class GLMatcher {
       }
     }
 
-    // Vendor mappings (base + AI-generated)
-    const mappings: { [key: string]: string[] } = {
-      'CITI CARD': ['CITIBANK', 'CITI CARD ONLINE', 'CITICTP'],
-      'BANK OF AMERICA': ['BK OF', 'BK OF AMER VISA', 'BANK OF AMERICA'],
-      'CHASE': ['CHASE CREDIT CARD', 'CHASE CARD', 'CHASE BANK'],
-      'SBA': ['SBA LOAN', 'SBA EIDL', 'SBA EIDL LOAN'],
-      'BRANDUSA': ['BRANDUSA NIRO', 'BRANDUSA'],
-      'KATERINA': ['KATRINA', 'KATERINA OHANYAN', 'KATRINA OHANYAN'],
-      ...this.additionalMappings  // Merge AI-generated mappings
-    };
-
-    for (const [key, variants] of Object.entries(mappings)) {
+    // Vendor aliases (built-in, AI-suggested and user-entered, see vendor-aliases.ts)
+    for (const [key, variants] of Object.entries(this.vendorMappings)) {
       for (const variant of variants) {
         if (normalized.includes(variant)) {
           return key;
@@ -454,7 +1122,7 @@ export class GLMatcher {
    */
   private typesAreCompatible(bankType: string, qbType: string): boolean {
     if (bankType === 'Deposit') {
-      return ['Deposit', 'Payment', 'Sales Receipt', 'Invoice Payment'].includes(qbType);
+      return ['Deposit', 'Payment', 'Sales Receipt', 'Invoice Payment', 'Transfer'].includes(qbType);
     }
     if (bankType === 'Withdrawal') {
       return ['Check', 'Bill Pmt -Check', 'Transfer', 'Expense', 'Credit Card'].includes(qbType);
@@ -514,3 +1182,17 @@ export class GLMatcher {
     return matrix[str2.length][str1.length];
   }
 }
+
+/**
+ * Helper: Make row IDs unique within one side (repeated OFX FITIDs, hand-built rows)
+ */
+function uniqueIds<T extends { id: string }>(rows: T[]): T[] {
+  const seen = new Map<string, number>();
+  for (const row of rows) {
+    const id = row.id || 'row';
+    const n = (seen.get(id) || 0) + 1;
+    seen.set(id, n);
+    row.id = n === 1 ? id : `${id}#${n}`;
+  }
+  return rows;
+}
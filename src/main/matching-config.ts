@@ -0,0 +1,141 @@
+/**
+ * MATCHING CONFIGURATION
+ *
+ * Which passes GLMatcher runs, in what order, and with what tolerances.
+ * The enabled defaults reproduce the original fixed 6-pass algorithm, after
+ * a transfer pass that only finds anything in multi-account runs.
+ */
+
+export type MatchPassType = 'transfer' | 'exact' | 'nearDate' | 'split' | 'group' | 'fuzzyAmount' | 'vendorType';
+
+export interface MatchPassConfig {
+  type: MatchPassType;
+  enabled: boolean;
+  /** Date window in days, inclusive (transfer, nearDate, split, group, fuzzyAmount, vendorType) */
+  days?: number;
+  /** Allowed amount difference in dollars (fuzzyAmount) */
+  amountTolerance?: number;
+  /** Maximum number of QB entries combined into one bank entry (split) */
+  maxSplitSize?: number;
+  /** Maximum bank rows in one group (group) */
+  maxBankRows?: number;
+  /** Maximum QB rows in one group (group) */
+  maxQBRows?: number;
+  /** Nearest-dated rows per side searched for each group - bounds the subset search (group) */
+  maxCandidates?: number;
+  /** Minimum vendor name similarity, 0-1 (vendorType) */
+  similarityThreshold?: number;
+}
+
+/**
+ * 'greedy': bank rows claim QB candidates in file order (original behavior).
+ * 'optimal': each one-to-one pass scores every eligible bank/QB pair and picks
+ * the one-to-one assignment with the highest total score.
+ */
+export type AssignmentStrategy = 'greedy' | 'optimal';
+
+export interface MatchingConfig {
+  strategy: AssignmentStrategy;
+  /** Matches with confidence below this (0-1) are flagged "needs review" */
+  reviewThreshold: number;
+  passes: MatchPassConfig[];
+}
+
+/**
+ * Defaults for each pass type's parameters
+ */
+const PASS_DEFAULTS: { [T in MatchPassType]: Omit<MatchPassConfig, 'type' | 'enabled'> } = {
+  transfer: { days: 3 },
+  exact: {},
+  nearDate: { days: 3 },
+  split: { days: 5, maxSplitSize: 3 },
+  group: { days: 5, maxBankRows: 3, maxQBRows: 3, maxCandidates: 12 },
+  fuzzyAmount: { days: 3, amountTolerance: 1.0 },
+  vendorType: { days: 3, similarityThreshold: 0.6 }
+};
+
+export const DEFAULT_MATCHING_CONFIG: MatchingConfig = {
+  strategy: 'greedy',
+  reviewThreshold: 0.6,
+  passes: [
+    { type: 'transfer', enabled: true, days: 3 },
+    { type: 'exact', enabled: true },
+    { type: 'nearDate', enabled: true, days: 3 },
+    { type: 'nearDate', enabled: true, days: 7 },
+    { type: 'split', enabled: true, days: 5, maxSplitSize: 3 },
+    { type: 'group', enabled: false, days: 5, maxBankRows: 3, maxQBRows: 3, maxCandidates: 12 },
+    { type: 'fuzzyAmount', enabled: true, days: 3, amountTolerance: 1.0 },
+    { type: 'vendorType', enabled: true, days: 3, similarityThreshold: 0.6 }
+  ]
+};
+
+/**
+ * Validate a (possibly partial) config from the UI and fill in defaults -
+ * each missing field falls back on its own
+ */
+export function normalizeMatchingConfig(config?: Partial<MatchingConfig>): MatchingConfig {
+  config = config || {};
+  const passes = Array.isArray(config.passes) ? config.passes.map(normalizePass) : DEFAULT_MATCHING_CONFIG.passes.map(pass => ({ ...pass }));
+
+  const strategy = config.strategy || DEFAULT_MATCHING_CONFIG.strategy;
+  if (strategy !== 'greedy' && strategy !== 'optimal') {
+    throw new Error(`Unknown assignment strategy: ${strategy}`);
+  }
+
+  const reviewThreshold = config.reviewThreshold === undefined
+    ? DEFAULT_MATCHING_CONFIG.reviewThreshold
+    : clamp(config.reviewThreshold, 0, 1, 'reviewThreshold');
+
+  return { strategy, reviewThreshold, passes };
+}
+
+/**
+ * Helper: Validate one pass and fill in its type's defaults
+ */
+function normalizePass(pass: MatchPassConfig): MatchPassConfig {
+  if (!pass || !(pass.type in PASS_DEFAULTS)) {
+    throw new Error(`Unknown matching pass type: ${pass && pass.type}`);
+  }
+
+  const merged: MatchPassConfig = { ...PASS_DEFAULTS[pass.type], ...pass, enabled: pass.enabled !== false };
+
+  if (merged.days !== undefined) merged.days = clamp(merged.days, 0, 60, 'days');
+  if (merged.amountTolerance !== undefined) merged.amountTolerance = clamp(merged.amountTolerance, 0, 100, 'amountTolerance');
+  if (merged.maxSplitSize !== undefined) merged.maxSplitSize = Math.round(clamp(merged.maxSplitSize, 2, 4, 'maxSplitSize'));
+  if (merged.maxBankRows !== undefined) merged.maxBankRows = Math.round(clamp(merged.maxBankRows, 1, 4, 'maxBankRows'));
+  if (merged.maxQBRows !== undefined) merged.maxQBRows = Math.round(clamp(merged.maxQBRows, 1, 4, 'maxQBRows'));
+  if (merged.maxCandidates !== undefined) merged.maxCandidates = Math.round(clamp(merged.maxCandidates, 2, 20, 'maxCandidates'));
+  if (merged.similarityThreshold !== undefined) merged.similarityThreshold = clamp(merged.similarityThreshold, 0, 1, 'similarityThreshold');
+
+  return merged;
+}
+
+/**
+ * Human-readable pass description, e.g. "Near Date (±3 days)"
+ */
+export function describePass(pass: MatchPassConfig): string {
+  switch (pass.type) {
+    case 'transfer':
+      return `Transfers between accounts (±${pass.days} days)`;
+    case 'exact':
+      return 'Exact';
+    case 'nearDate':
+      return `Near Date (±${pass.days} days)`;
+    case 'split':
+      return `Splits (2-${pass.maxSplitSize} QB entries, ±${pass.days} days)`;
+    case 'group':
+      return `Groups (≤${pass.maxBankRows} bank : ≤${pass.maxQBRows} QB, ±${pass.days} days)`;
+    case 'fuzzyAmount':
+      return `Fuzzy Amount (±$${(pass.amountTolerance ?? 0).toFixed(2)}, ±${pass.days} days)`;
+    case 'vendorType':
+      return `Vendor+Type (≥${Math.round((pass.similarityThreshold ?? 0) * 100)}% similar, ±${pass.days} days)`;
+  }
+}
+
+function clamp(value: number, min: number, max: number, name: string): number {
+  const num = Number(value);
+  if (isNaN(num)) {
+    throw new Error(`Invalid matching setting ${name}: ${value}`);
+  }
+  return Math.min(max, Math.max(min, num));
+}
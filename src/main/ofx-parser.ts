@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BankTransaction } from './matcher';
+import { ExcludedRow, ExclusionReason } from './excluded-rows';
+import { DateWindow, isInWindow, outsideWindowDetail } from './period';
+import { BankBalancePoint } from './reconciliation-statement';
+
+/**
+ * File extensions handled by the OFX parser (QFX and QBO are OFX with vendor headers)
+ */
+export const OFX_EXTENSIONS = ['.ofx', '.qfx', '.qbo'];
+
+/**
+ * Check whether a bank file should be read as OFX
+ */
+export function isOFXFile(filePath: string): boolean {
+  return OFX_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Parse OFX / QFX / QBO bank statement file
+ * Handles both OFX 1.x (SGML, unclosed tags) and OFX 2.x (XML)
+ */
+export function parseOFX(filePath: string, window?: DateWindow): { transactions: BankTransaction[]; excluded: ExcludedRow[]; balances: BankBalancePoint[] } {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const result = parseOFXContent(content, path.basename(filePath), window);
+
+  console.log(`Loaded ${result.transactions.length} bank transactions from OFX (${result.excluded.length} excluded)`);
+  return result;
+}
+
+/**
+ * Parse OFX content into bank transactions. Records left out are returned in
+ * `excluded`, numbered by their position in the file; records without a FITID
+ * take that number as their ID, so it stays stable when the window changes.
+ * When the statement has a ledger balance, the running balance after each
+ * record is returned in `balances`.
+ */
+export function parseOFXContent(
+  content: string,
+  sourceFile: string,
+  window?: DateWindow
+): { transactions: BankTransaction[]; excluded: ExcludedRow[]; balances: BankBalancePoint[] } {
+  const bodyStart = content.search(/<OFX>/i);
+  if (bodyStart === -1) {
+    throw new Error('Not a valid OFX file: <OFX> element not found');
+  }
+  const body = content.slice(bodyStart);
+
+  const transactions: BankTransaction[] = [];
+  const excluded: ExcludedRow[] = [];
+  const movements: { date: Date; amount: number }[] = [];
+  let recordNumber = 0;
+
+  // SGML files don't close aggregates reliably, so a record runs until the next record or list end
+  const recordRegex = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi;
+  let record: RegExpExecArray | null;
+
+  while ((record = recordRegex.exec(body)) !== null) {
+    const block = record[1];
+    recordNumber++;
+    const exclude = (reason: ExclusionReason, detail: string) => {
+      excluded.push({
+        side: 'bank',
+        source: sourceFile,
+        row: recordNumber,
+        reason,
+        detail,
+        date: readTag(block, 'DTPOSTED'),
+        amount: readTag(block, 'TRNAMT'),
+        content: block.trim().replace(/\s*\n\s*/g, ' ')
+      });
+    };
+
+    try {
+      let date: Date;
+      try {
+        date = parseOFXDate(readTag(block, 'DTPOSTED'));
+      } catch (error: any) {
+        exclude('invalidDate', error.message);
+        continue;
+      }
+
+      const amount = Math.round(parseFloat(readTag(block, 'TRNAMT').replace(/,/g, '')) * 100) / 100;
+      if (isNaN(amount)) {
+        throw new Error('Invalid TRNAMT');
+      }
+      movements.push({ date, amount });
+
+      // Filter by date window if specified
+      if (window && !isInWindow(date, window)) {
+        exclude('outsidePeriod', outsideWindowDetail(date, window));
+        continue;
+      }
+
+      const name = readTag(block, 'NAME') || readTag(block, 'PAYEEID');
+      const memo = readTag(block, 'MEMO');
+      const checkNumber = readTag(block, 'CHECKNUM');
+
+      const fitId = readTag(block, 'FITID');
+
+      transactions.push({
+        id: `B:${sourceFile}:${fitId || recordNumber}`,
+        date,
+        type: amount < 0 ? 'Withdrawal' : 'Deposit',
+        vendor: name || memo || (checkNumber ? `CHECK ${checkNumber}` : readTag(block, 'TRNTYPE')),
+        description: memo || name,
+        amount,
+        sourceFile,
+        fitId: fitId || undefined,
+        checkNumber: checkNumber || undefined,
+        matched: false
+      });
+    } catch (error: any) {
+      console.error(`Error parsing OFX transaction:`, block.trim(), error);
+      exclude('invalidRow', error.message);
+    }
+  }
+
+  return { transactions, excluded, balances: runningBalances(body, movements) };
+}
+
+/**
+ * Helper: Running balance after each record, worked back from the statement's
+ * ledger balance (LEDGERBAL) as of its DTASOF date
+ */
+function runningBalances(body: string, movements: { date: Date; amount: number }[]): BankBalancePoint[] {
+  const ledger = body.match(/<LEDGERBAL>([\s\S]*?)(?=<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|$)/i);
+  if (!ledger) return [];
+
+  const ledgerBalance = parseFloat(readTag(ledger[1], 'BALAMT').replace(/,/g, ''));
+  let asOf: Date;
+  try {
+    asOf = parseOFXDate(readTag(ledger[1], 'DTASOF'));
+  } catch {
+    return [];
+  }
+  if (isNaN(ledgerBalance)) return [];
+
+  const sorted = [...movements].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const untilAsOf = sorted.filter(m => m.date.getTime() <= asOf.getTime()).reduce((sum, m) => sum + m.amount, 0);
+  let balance = ledgerBalance - untilAsOf;
+
+  return sorted.map(m => {
+    balance = Math.round((balance + m.amount) * 100) / 100;
+    return { date: m.date, amount: m.amount, balance };
+  });
+}
+
+/**
+ * Helper: Read a leaf element's value (works for both <TAG>value and <TAG>value</TAG>)
+ */
+function readTag(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+}
+
+/**
+ * Helper: Parse OFX date - YYYYMMDD[HHMMSS[.XXX]][[gmt offset:tz name]]
+ * Only the calendar date is kept, as local midnight
+ */
+function parseOFXDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    throw new Error(`Unable to parse OFX date: ${value}`);
+  }
+  return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&');
+}
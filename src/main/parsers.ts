@@ -1,143 +1,388 @@
 import * as Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 import * as fs from 'fs';
+import * as path from 'path';
 import { BankTransaction, QBTransaction } from './matcher';
+import { BankImportProfile, BUILTIN_BANK_PROFILES, locateBankLayout, findColumn } from './bank-profiles';
+import { isOFXFile, parseOFX } from './ofx-parser';
+import { detectQBLayout, isTotalRow, isBalanceRow, sectionAccountName, isLikelyCashAccount } from './qb-layouts';
+import { ExcludedRow, ExclusionReason } from './excluded-rows';
+import { DateWindow, isInWindow, outsideWindowDetail, formatDay } from './period';
+import { BankBalancePoint } from './reconciliation-statement';
+
+export interface QBAccountSummary {
+  name: string;
+  transactionCount: number;
+  debitTotal: number;
+  creditTotal: number;
+  /** Looks like a bank/cash account - pre-selected in the UI */
+  suggested: boolean;
+}
+
+export interface QBParseResult {
+  transactions: QBTransaction[];
+  /** Every account found in the file (before account filtering) */
+  accounts: QBAccountSummary[];
+  /** Rows dropped because their account was not selected, per account */
+  excludedByAccount: { [account: string]: number };
+  excludedCount: number;
+  /** Every transaction row left out, with the reason (other accounts included) */
+  excluded: ExcludedRow[];
+}
+
+export interface BankParseResult {
+  transactions: BankTransaction[];
+  /** Every transaction row left out, with the reason */
+  excluded: ExcludedRow[];
+  /** Running balances in date order, outside the date window too (empty when the file has none) */
+  balances: BankBalancePoint[];
+}
+
+/**
+ * Parse a bank statement file - OFX/QFX/QBO by extension, otherwise CSV.
+ * When `window` is given, rows dated outside it are excluded.
+ */
+export function parseBankFile(
+  filePath: string,
+  window?: DateWindow,
+  profile?: BankImportProfile,
+  profiles: BankImportProfile[] = BUILTIN_BANK_PROFILES
+): BankParseResult {
+  if (isOFXFile(filePath)) {
+    return parseOFX(filePath, window);
+  }
+  return parseBankCSV(filePath, window, profile, profiles);
+}
 
 /**
  * Parse Bank CSV file
+ * Columns are mapped through an import profile; when none is given the profile
+ * is auto-detected from the header row.
  */
-export function parseBankCSV(filePath: string, year?: number): BankTransaction[] {
-  const csvContent = fs.readFileSync(filePath, 'utf-8');
-  
-  const result = Papa.parse(csvContent, {
-    header: true,
-    skipEmptyLines: true,
-    dynamicTyping: false
-  });
+export function parseBankCSV(
+  filePath: string,
+  window?: DateWindow,
+  profile?: BankImportProfile,
+  profiles: BankImportProfile[] = BUILTIN_BANK_PROFILES
+): BankParseResult {
+  const rows = readCSVRows(filePath);
+  const layout = locateBankLayout(rows, profiles, profile);
+
+  if (!layout) {
+    throw new Error(
+      profile
+        ? `Bank file does not match the "${profile.name}" import profile`
+        : 'Unable to recognize bank CSV columns - choose or create an import profile'
+    );
+  }
+
+  const { columns, amountMode, invertSign, skipTypes } = layout.profile;
+  const col = {
+    date: findColumn(layout.headers, columns.date),
+    type: findColumn(layout.headers, columns.type),
+    vendor: findColumn(layout.headers, columns.vendor),
+    description: findColumn(layout.headers, columns.description),
+    amount: findColumn(layout.headers, columns.amount),
+    debit: findColumn(layout.headers, columns.debit),
+    credit: findColumn(layout.headers, columns.credit),
+    balance: findColumn(layout.headers, columns.balance),
+    sourceFile: findColumn(layout.headers, columns.sourceFile)
+  };
+  const useDebitCredit = amountMode === 'debitCredit' || (col.amount === -1 && col.debit !== -1 && col.credit !== -1);
+  const cell = (row: string[], idx: number) => (idx === -1 ? '' : (row[idx] ?? '').toString().trim());
+
+  console.log(`Bank import profile: ${layout.profile.name}`);
 
   const transactions: BankTransaction[] = [];
+  const excluded: ExcludedRow[] = [];
+  const balances: BankBalancePoint[] = [];
+
+  for (let r = layout.headerRowIndex + 1; r < rows.length; r++) {
+    const row = rows[r];
+    const cells = (row || []).map(c => (c ?? '').toString().trim());
+    if (cells.every(c => c === '')) {
+      continue;
+    }
+
+    let amount = 0;
+    const exclude = (reason: ExclusionReason, detail: string, date?: Date) => {
+      excluded.push({
+        side: 'bank',
+        source: path.basename(filePath),
+        row: r + 1,
+        reason,
+        detail,
+        date: date ? formatDay(date) : cell(row, col.date),
+        amount: amount.toFixed(2),
+        content: cells.join(' | ')
+      });
+    };
 
-  for (const row of result.data as any[]) {
     try {
-      const date = parseDate(row['Date']);
-      
-      // Filter by year if specified
-      if (year && date.getFullYear() !== year) {
+      // Signed amount: negative = money out. Debit/credit columns: debit = money out, credit = money in
+      if (useDebitCredit) {
+        amount = Math.round((Math.abs(parseAmount(cell(row, col.credit))) - Math.abs(parseAmount(cell(row, col.debit)))) * 100) / 100;
+      } else {
+        amount = parseAmount(cell(row, col.amount));
+        if (invertSign) amount = -amount;
+      }
+
+      // A Type column that names the direction wins over the sign (some formats list withdrawals as positive)
+      const rawType = cell(row, col.type);
+      const typed = bankTypeOf(rawType);
+      if (typed) {
+        amount = typed === 'Withdrawal' ? -Math.abs(amount) : Math.abs(amount);
+      }
+
+      let date: Date;
+      try {
+        date = parseDate(cell(row, col.date));
+      } catch (error: any) {
+        exclude('invalidDate', error.message);
         continue;
       }
 
-      // Exclude fees
-      if (row['Type'] === 'Fee') {
+      // Running balance, before any filtering - every row on the statement moves it
+      if (cell(row, col.balance)) {
+        balances.push({ date, amount, balance: parseAmount(cell(row, col.balance)) });
+      }
+
+      // Filter by date window if specified
+      if (window && !isInWindow(date, window)) {
+        exclude('outsidePeriod', outsideWindowDetail(date, window), date);
         continue;
       }
 
-      // Parse and round to 2 decimal places to match Python behavior
-      const amount = Math.round(parseFloat(row['Amount']?.toString().replace(/,/g, '') || '0') * 100) / 100;
+      // Exclude fees (or whatever types the profile skips)
+      if (skipTypes && skipTypes.includes(rawType)) {
+        exclude('skippedType', `Type "${rawType}" is skipped by the ${layout.profile.name} profile`, date);
+        continue;
+      }
+
+      const vendor = cell(row, col.vendor);
+      const description = cell(row, col.description);
 
       transactions.push({
+        id: `B:${path.basename(filePath)}:${r + 1}`,
         date,
-        type: row['Type'] as 'Deposit' | 'Withdrawal',
-        vendor: row['Vendor'] || '',
-        description: row['Description'] || '',
+        type: typed || (amount < 0 ? 'Withdrawal' : 'Deposit'),
+        vendor: vendor || description,
+        description: description || vendor,
         amount,
-        sourceFile: row['Source_File'] || '',
+        sourceFile: cell(row, col.sourceFile) || path.basename(filePath),
         matched: false
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error(`Error parsing bank row:`, row, error);
+      exclude('invalidRow', error.message);
     }
   }
 
-  console.log(`Loaded ${transactions.length} bank transactions`);
-  return transactions;
+  console.log(`Loaded ${transactions.length} bank transactions (${excluded.length} rows excluded)`);
+
+  // Newest-first exports list the latest balance first
+  if (balances.length > 1 && balances[0].date.getTime() > balances[balances.length - 1].date.getTime()) {
+    balances.reverse();
+  }
+  balances.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return { transactions, excluded, balances };
 }
 
 /**
- * Parse QuickBooks Excel file
+ * Read a bank CSV's header row and the profile that would be auto-detected for it
  */
-export function parseQBExcel(filePath: string, year?: number): QBTransaction[] {
-  const workbook = XLSX.readFile(filePath);
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  
-  // Convert to JSON, skip first 2 rows (headers)
-  const data = XLSX.utils.sheet_to_json(sheet, { 
-    header: 1,
-    defval: ''
-  }) as any[][];
-
-  // Find header row (usually row 3, index 2)
-  let headerRowIndex = 2;
-  for (let i = 0; i < Math.min(5, data.length); i++) {
-    if (data[i].includes('Trans #') || data[i].includes('Date')) {
-      headerRowIndex = i;
-      break;
-    }
+export function readBankHeaders(
+  filePath: string,
+  profiles: BankImportProfile[] = BUILTIN_BANK_PROFILES
+): { format: 'csv' | 'ofx'; headers: string[]; detectedProfileId: string | null } {
+  if (isOFXFile(filePath)) {
+    return { format: 'ofx', headers: [], detectedProfileId: null };
   }
 
-  const headers = data[headerRowIndex];
-  const rows = data.slice(headerRowIndex + 1);
+  const rows = readCSVRows(filePath);
+  const layout = locateBankLayout(rows, profiles);
+
+  return {
+    format: 'csv',
+    headers: layout ? layout.headers : (rows[0] || []).map(h => h.toString()),
+    detectedProfileId: layout ? layout.profile.id : null
+  };
+}
 
+/**
+ * Parse QuickBooks GL export
+ * Supports Desktop and Online report layouts, as .xlsx/.xls or .csv.
+ * Every sheet with a recognizable GL header row is read; account section rows
+ * fill in the account for exports without an Account column, and subtotal /
+ * opening balance rows are skipped.
+ * When `accounts` is given, only rows from those accounts are kept (rows without
+ * an account are always kept); the others are counted per account.
+ * Transaction rows left out for any reason are returned in `excluded`.
+ */
+export function parseQBFile(filePath: string, window?: DateWindow, accounts?: string[]): QBParseResult {
+  const sheets = readQBSheets(filePath);
   const transactions: QBTransaction[] = [];
+  const accountSummaries = new Map<string, QBAccountSummary>();
+  const excludedByAccount: { [account: string]: number } = {};
+  let excludedCount = 0;
+  const excluded: ExcludedRow[] = [];
+  let recognizedSheets = 0;
 
-  for (const row of rows) {
-    try {
-      // Skip empty rows or total rows
-      if (!row || row.length === 0 || !row[0]) {
-        continue;
-      }
+  for (const { name: sheetName, rows } of sheets) {
+    const layout = detectQBLayout(rows);
+    if (!layout) {
+      continue;
+    }
 
-      const rowObj: any = {};
-      headers.forEach((header: string, index: number) => {
-        rowObj[header] = row[index];
-      });
+    recognizedSheets++;
+    console.log(`QB layout: ${layout.label} (sheet "${sheetName}", header row ${layout.headerRowIndex + 1})`);
 
-      // Skip if no transaction number
-      if (!rowObj['Trans #']) {
-        continue;
-      }
+    const col = layout.columns;
+    let currentAccount = '';
 
-      const date = parseDate(rowObj['Date']);
-      
-      // Filter by year if specified
-      if (year && date.getFullYear() !== year) {
-        continue;
-      }
+    for (let r = layout.headerRowIndex + 1; r < rows.length; r++) {
+      const row = rows[r];
+      try {
+        const cells = (row || []).map(cell => (cell ?? '').toString().trim());
 
-      // Filter to Operating Account only
-      const account = rowObj['Account'] || '';
-      if (account && !account.includes('Operating Account') && !account.includes('Chase 0275')) {
-        continue;
-      }
+        // Skip empty rows, subtotal rows and opening balances
+        if (cells.every(c => c === '') || isTotalRow(cells) || isBalanceRow(cells)) {
+          continue;
+        }
 
-      // Parse and round to 2 decimal places to match Python behavior
-      const debit = Math.round(parseFloat(rowObj['Debit']?.toString().replace(/,/g, '') || '0') * 100) / 100;
-      const credit = Math.round(parseFloat(rowObj['Credit']?.toString().replace(/,/g, '') || '0') * 100) / 100;
-      const amount = Math.round(parseFloat(rowObj['Amount']?.toString().replace(/,/g, '') || '0') * 100) / 100;
+        // Account section header ("Checking", "10100 · Operating Account")
+        const section = sectionAccountName(cells, layout);
+        if (section !== null) {
+          currentAccount = section;
+          continue;
+        }
 
-      // Use Split field as fallback for name if Name is empty
-      const name = rowObj['Name']?.trim() || rowObj['Split']?.trim() || '';
+        const value = (idx: number) => (idx === -1 ? '' : cells[idx]);
 
-      transactions.push({
-        date,
-        transNumber: rowObj['Trans #'] || '',
-        type: rowObj['Type'] || '',
-        account: rowObj['Account'] || '',
-        name,
-        memo: rowObj['Memo'] || '',
-        split: rowObj['Split'] || '',
-        debit,
-        credit,
-        amount,
-        matched: false
-      });
-    } catch (error) {
-      console.error(`Error parsing QB row:`, row, error);
+        // Online exports may only have a signed Amount: positive = debit to the account
+        let debit: number;
+        let credit: number;
+        let amount: number;
+        if (col.debit !== -1 && col.credit !== -1) {
+          debit = Math.abs(parseAmount(row[col.debit]));
+          credit = Math.abs(parseAmount(row[col.credit]));
+          amount = col.amount !== -1 ? parseAmount(row[col.amount]) : Math.round((debit - credit) * 100) / 100;
+        } else {
+          amount = parseAmount(row[col.amount]);
+          debit = amount > 0 ? amount : 0;
+          credit = amount < 0 ? -amount : 0;
+        }
+
+        const exclude = (reason: ExclusionReason, detail: string, date?: Date) => {
+          excluded.push({
+            side: 'qb',
+            source: sheetName,
+            row: r + 1,
+            reason,
+            detail,
+            date: date ? formatDay(date) : value(col.date),
+            amount: amount.toFixed(2),
+            content: cells.join(' | ')
+          });
+        };
+
+        // Desktop exports with a Trans # column: skip if no transaction number
+        const transNumber = value(col.transNumber) || value(col.num);
+        if (col.transNumber !== -1 && !value(col.transNumber)) {
+          exclude('noTransNumber', 'Row has no Trans #');
+          continue;
+        }
+
+        let date: Date;
+        try {
+          date = parseDate(row[col.date]);
+        } catch (error: any) {
+          exclude('invalidDate', error.message);
+          continue;
+        }
+        
+        // Filter by date window if specified
+        if (window && !isInWindow(date, window)) {
+          exclude('outsidePeriod', outsideWindowDetail(date, window), date);
+          continue;
+        }
+
+        const account = value(col.account) || currentAccount;
+
+        if (account) {
+          const summary = accountSummaries.get(account) || {
+            name: account,
+            transactionCount: 0,
+            debitTotal: 0,
+            creditTotal: 0,
+            suggested: isLikelyCashAccount(account)
+          };
+          summary.transactionCount++;
+          summary.debitTotal = Math.round((summary.debitTotal + debit) * 100) / 100;
+          summary.creditTotal = Math.round((summary.creditTotal + credit) * 100) / 100;
+          accountSummaries.set(account, summary);
+        }
+
+        // Filter to the selected cash account(s)
+        if (accounts && account && !accounts.includes(account)) {
+          excludedByAccount[account] = (excludedByAccount[account] || 0) + 1;
+          excludedCount++;
+          exclude('otherAccount', account, date);
+          continue;
+        }
+
+        // Use Split field as fallback for name if Name is empty
+        const name = value(col.name) || value(col.split);
+
+        transactions.push({
+          id: `Q:${sheetName}:${r + 1}`,
+          date,
+          transNumber,
+          type: value(col.type),
+          account,
+          name,
+          memo: value(col.memo),
+          split: value(col.split),
+          debit,
+          credit,
+          amount,
+          matched: false
+        });
+      } catch (error: any) {
+        console.error(`Error parsing QB row:`, row, error);
+        excluded.push({
+          side: 'qb',
+          source: sheetName,
+          row: r + 1,
+          reason: 'invalidRow',
+          detail: error.message,
+          date: '',
+          amount: '',
+          content: (row || []).map(cell => (cell ?? '').toString().trim()).join(' | ')
+        });
+      }
     }
   }
 
-  console.log(`Loaded ${transactions.length} QB transactions`);
-  return transactions;
+  if (recognizedSheets === 0) {
+    throw new Error('Unable to find a QuickBooks GL header row (Date, Type and Debit/Credit or Amount columns)');
+  }
+
+  // A single-account export is the cash account by definition
+  const accountList = [...accountSummaries.values()];
+  if (accountList.length === 1) {
+    accountList[0].suggested = true;
+  }
+
+  console.log(`Loaded ${transactions.length} QB transactions (${excludedCount} excluded by account filter)`);
+  return {
+    transactions,
+    accounts: accountList,
+    excludedByAccount,
+    excludedCount,
+    excluded
+  };
 }
 
 /**
@@ -149,6 +394,78 @@ export function extractYearFromFilename(filename: string): number | undefined {
   return match ? parseInt(match[1]) : undefined;
 }
 
+/**
+ * Read a CSV file as raw rows (no header interpretation)
+ */
+function readCSVRows(filePath: string): string[][] {
+  const csvContent = fs.readFileSync(filePath, 'utf-8');
+
+  const result = Papa.parse(csvContent, {
+    header: false,
+    skipEmptyLines: true,
+    dynamicTyping: false
+  });
+
+  return result.data as string[][];
+}
+
+/**
+ * Read every sheet of a QB export as raw rows (a CSV is a single sheet)
+ */
+function readQBSheets(filePath: string): { name: string; rows: any[][] }[] {
+  if (path.extname(filePath).toLowerCase() === '.csv') {
+    return [{ name: path.basename(filePath), rows: readCSVRows(filePath) }];
+  }
+
+  const workbook = XLSX.readFile(filePath);
+  return workbook.SheetNames.map(name => ({
+    name,
+    rows: XLSX.utils.sheet_to_json(workbook.Sheets[name], {
+      header: 1,
+      defval: ''
+    }) as any[][]
+  }));
+}
+
+/** Type column values that name the direction of a bank row, lower case */
+const BANK_TYPE_VALUES = new Map<string, BankTransaction['type']>([
+  ['deposit', 'Deposit'],
+  ['credit', 'Deposit'],
+  ['cr', 'Deposit'],
+  ['withdrawal', 'Withdrawal'],
+  ['debit', 'Withdrawal'],
+  ['dr', 'Withdrawal'],
+  ['fee', 'Withdrawal']
+]);
+
+/**
+ * Helper: Deposit/Withdrawal when the Type column names the direction
+ * (Deposit/Credit/CR, Withdrawal/Debit/DR/Fee), otherwise null
+ */
+function bankTypeOf(rawType: string): BankTransaction['type'] | null {
+  return BANK_TYPE_VALUES.get(rawType.toLowerCase()) || null;
+}
+
+/**
+ * Parse a currency amount - handles "$", thousands separators and (negative) parentheses.
+ * Rounds to 2 decimal places to match Python behavior
+ */
+function parseAmount(value: any): number {
+  if (typeof value === 'number') {
+    return Math.round(value * 100) / 100;
+  }
+
+  let str = (value ?? '').toString().trim().replace(/[$,\s]/g, '');
+  let sign = 1;
+  if (/^\(.*\)$/.test(str)) {
+    sign = -1;
+    str = str.slice(1, -1);
+  }
+
+  const parsed = parseFloat(str || '0');
+  return isNaN(parsed) ? 0 : Math.round(sign * parsed * 100) / 100;
+}
+
 /**
  * Parse date from various formats
  */
@@ -0,0 +1,360 @@
+/**
+ * PDF RECONCILIATION PACKAGE
+ *
+ * The document partners sign off on: cover page, summary, match breakdown,
+ * reconciling items and appendices of unmatched items. Built as HTML and
+ * printed to PDF by a hidden window, so nothing leaves the machine. Every page
+ * carries a preparer/reviewer sign-off block and its page number.
+ */
+
+import { BrowserWindow } from 'electron';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReconciliationResult } from './matcher';
+import { UnmatchedExplanation, EXPLANATION_LABELS } from './unmatched-explainer';
+import { summarizeExcludedRows } from './excluded-rows';
+import { describePeriod, formatDay } from './period';
+import { BalanceFigure, ReconcilingItemKind, RECONCILING_ITEM_LABELS } from './reconciliation-statement';
+import { ReportContext } from './exporter';
+import { transferGaps } from './bank-accounts';
+
+/**
+ * Write `${label}_Reconciliation_Package.pdf`
+ */
+export async function exportPdfPackage(
+  result: ReconciliationResult,
+  outputDir: string,
+  label: string,
+  context: ReportContext = {},
+  explanations: UnmatchedExplanation[] = []
+): Promise<string> {
+  const filename = `${label}_Reconciliation_Package.pdf`;
+  const filePath = path.join(outputDir, filename);
+
+  // Large packages are too long for a data: URL - load the HTML from a temp file
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gl-matching-'));
+  const htmlPath = path.join(tempDir, 'package.html');
+  fs.writeFileSync(htmlPath, buildPackageHtml(result, label, context, explanations), 'utf-8');
+
+  const window = new BrowserWindow({ show: false, webPreferences: { javascript: false } });
+  try {
+    await window.loadFile(htmlPath);
+    const pdf = await window.webContents.printToPDF({
+      pageSize: 'Letter',
+      printBackground: true,
+      margins: { top: 0.6, bottom: 1.2, left: 0.5, right: 0.5 },
+      displayHeaderFooter: true,
+      headerTemplate: pageHeader(label, context),
+      footerTemplate: SIGN_OFF_FOOTER
+    });
+    fs.writeFileSync(filePath, pdf);
+  } finally {
+    window.destroy();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+
+  return filePath;
+}
+
+/**
+ * The package as a printable HTML document
+ */
+export function buildPackageHtml(
+  result: ReconciliationResult,
+  label: string,
+  context: ReportContext = {},
+  explanations: UnmatchedExplanation[] = []
+): string {
+  const { statement, byAccount, transfers } = context;
+  const byBankId = new Map(explanations.map(e => [e.bankId, e]));
+  const sections: string[] = [];
+
+  // Cover page
+  const contents = [
+    'Summary',
+    ...(byAccount && byAccount.length > 0 ? ['Accounts and Transfers'] : []),
+    'Match Breakdown',
+    ...(statement ? ['Reconciling Items'] : []),
+    `Appendix A - Unmatched Bank Transactions (${result.unmatchedBank.length})`,
+    `Appendix B - Unmatched GL Transactions (${result.unmatchedQB.length})`
+  ];
+  sections.push(`
+    <section class="cover">
+      <h1>Bank Reconciliation Package</h1>
+      <p class="subtitle">${escapeHtml(label)}</p>
+      <table class="facts">
+        ${context.period ? row('Period', describePeriod(context.period)) : ''}
+        ${context.accounts && context.accounts.length > 0 ? row('Cash account(s)', context.accounts.join(', ')) : ''}
+        ${row('Generated', new Date().toLocaleString())}
+        ${statement ? row('Difference', differenceText(statement.difference)) : ''}
+      </table>
+      <h3>Contents</h3>
+      <ol>${contents.map(c => `<li>${escapeHtml(c)}</li>`).join('')}</ol>
+    </section>`);
+
+  // Summary
+  const crossPeriod = result.matched.filter(m => m.crossPeriod).length;
+  const summaryRows = [
+    row('Bank transactions in the period', result.totalBank),
+    row('GL transactions in the period', result.totalQB),
+    row('Matched', result.matched.length),
+    row('Match rate', `${result.matchRate.toFixed(1)}%`),
+    row('Cross-period matches', crossPeriod),
+    row('Needs review', result.needsReview.length),
+    row('Unmatched bank', `${result.unmatchedBank.length} (${formatMoney(sum(result.unmatchedBank.map(t => t.amount)))})`),
+    row('Unmatched GL', `${result.unmatchedQB.length} (${formatMoney(sum(result.unmatchedQB.map(t => t.amount)))})`)
+  ];
+  if (context.review) {
+    summaryRows.push(
+      row('Review - accepted', `${context.review.accepted} (${context.review.manual} linked manually)`),
+      row('Review - rejected', context.review.rejected),
+      row('Review - not reviewed', context.review.pending)
+    );
+  }
+  if (context.excludedRows && context.excludedRows.length > 0) {
+    const excluded = summarizeExcludedRows(context.excludedRows);
+    summaryRows.push(row('Rows excluded from matching', `${excluded.bank} bank, ${excluded.qb} GL`));
+  }
+  sections.push(`
+    <section class="page">
+      <h2>Summary</h2>
+      <table class="facts">${summaryRows.join('')}</table>
+      ${statement ? `
+      <h3>Reconciliation Statement</h3>
+      <table class="facts">
+        ${balanceRow('Bank ending balance', statement.bankEnding)}
+        ${row(`Add: ${RECONCILING_ITEM_LABELS.depositInTransit}`, formatMoney(statement.totals.depositInTransit), 'num')}
+        ${row(`Less: ${RECONCILING_ITEM_LABELS.outstandingCheck}`, formatMoney(-statement.totals.outstandingCheck), 'num')}
+        ${row('Adjusted bank balance', formatAmount(statement.adjustedBank), 'num total')}
+        ${balanceRow('GL ending balance', statement.glEnding)}
+        ${row(`Add: ${RECONCILING_ITEM_LABELS.bankCredit}`, formatMoney(statement.totals.bankCredit), 'num')}
+        ${row(`Less: ${RECONCILING_ITEM_LABELS.bankDebit}`, formatMoney(-statement.totals.bankDebit), 'num')}
+        ${row('Adjusted book balance', formatAmount(statement.adjustedBook), 'num total')}
+        ${row('Difference', differenceText(statement.difference), statement.difference ? 'num total unexplained' : 'num total')}
+      </table>` : ''}
+    </section>`);
+
+  // Multi-account runs: each account's figures, and the transfers between them
+  if (byAccount && byAccount.length > 0) {
+    sections.push(`
+    <section class="page">
+      <h2>Accounts and Transfers</h2>
+      ${table(
+        ['Account', 'Bank files', 'Matched', 'Match rate', 'Unmatched bank', 'Unmatched GL', 'Bank ending', 'GL ending', 'Difference'],
+        byAccount.map(a => [
+          escapeHtml(a.account),
+          escapeHtml(a.files.join(', ')),
+          num(a.result.matched.length),
+          num(`${a.result.matchRate.toFixed(1)}%`),
+          num(a.result.unmatchedBank.length),
+          num(a.result.unmatchedQB.length),
+          num(formatAmount(a.statement?.bankEnding.amount ?? null)),
+          num(formatAmount(a.statement?.glEnding.amount ?? null)),
+          num(a.statement ? differenceText(a.statement.difference) : 'n/a')
+        ])
+      )}
+      <h3>Transfers Between Accounts (${(transfers || []).length})</h3>
+      ${!transfers || transfers.length === 0 ? '<p class="none">None</p>' : table(
+        ['Date', 'From', 'To', 'Match', 'Missing', 'Amount'],
+        transfers.map(t => [
+          formatDay(t.date),
+          escapeHtml(t.fromAccount),
+          escapeHtml(t.toAccount),
+          escapeHtml(t.matchId),
+          escapeHtml(transferGaps(t).join(', ') || 'none'),
+          num(formatMoney(t.amount))
+        ]),
+        ['Total', '', '', '', '', num(formatMoney(sum(transfers.map(t => t.amount))))]
+      )}
+    </section>`);
+  }
+
+  // Match breakdown by type
+  const byType = new Map<string, { count: number; amount: number; confidence: number }>();
+  for (const m of result.matched) {
+    const entry = byType.get(m.matchType) || { count: 0, amount: 0, confidence: 0 };
+    entry.count++;
+    entry.amount += Math.abs(m.amount);
+    entry.confidence += m.confidence;
+    byType.set(m.matchType, entry);
+  }
+  sections.push(`
+    <section class="page">
+      <h2>Match Breakdown</h2>
+      ${table(
+        ['Match type', 'Matches', 'Amount', 'Average confidence'],
+        [...byType.entries()].sort((a, b) => b[1].count - a[1].count).map(([type, e]) => [
+          escapeHtml(type), num(e.count), num(formatMoney(e.amount)), num(`${(e.confidence / e.count * 100).toFixed(1)}%`)
+        ]),
+        ['Total', num(result.matched.length), num(formatMoney(sum(result.matched.map(m => Math.abs(m.amount))))), '']
+      )}
+      <h3>Matching Passes (${result.config.strategy === 'optimal' ? 'optimal assignment' : 'greedy assignment'})</h3>
+      ${table(['Pass', 'Matches'], result.passResults.map(p => [escapeHtml(p.pass), num(p.matches)]))}
+    </section>`);
+
+  // Reconciling items
+  if (statement) {
+    const kinds: ReconcilingItemKind[] = ['depositInTransit', 'outstandingCheck', 'bankCredit', 'bankDebit'];
+    sections.push(`
+    <section class="page">
+      <h2>Reconciling Items</h2>
+      ${kinds.map(kind => {
+        const items = statement.items.filter(i => i.kind === kind);
+        return `
+        <h3>${escapeHtml(RECONCILING_ITEM_LABELS[kind])} (${items.length})</h3>
+        ${items.length === 0 ? '<p class="none">None</p>' : table(
+          ['Date', 'Reference', 'Description', 'Note', 'Amount'],
+          items.map(i => [formatDay(i.date), escapeHtml(i.reference), escapeHtml(i.description), escapeHtml(i.note), num(formatMoney(i.amount))]),
+          ['Total', '', '', '', num(formatMoney(statement.totals[kind]))]
+        )}`;
+      }).join('')}
+    </section>`);
+  }
+
+  // Appendices
+  sections.push(`
+    <section class="page">
+      <h2>Appendix A - Unmatched Bank Transactions</h2>
+      ${result.unmatchedBank.length === 0 ? '<p class="none">None</p>' : table(
+        ['Date', 'Type', 'Vendor', 'Description', 'Explanation', 'Amount'],
+        result.unmatchedBank.map(t => [
+          formatDay(t.date), escapeHtml(t.type), escapeHtml(t.vendor), escapeHtml(t.description),
+          byBankId.has(t.id) ? escapeHtml(EXPLANATION_LABELS[byBankId.get(t.id)!.kind]) : '',
+          num(formatMoney(t.amount))
+        ]),
+        ['Total', '', '', '', '', num(formatMoney(sum(result.unmatchedBank.map(t => t.amount))))]
+      )}
+    </section>`);
+  sections.push(`
+    <section class="page">
+      <h2>Appendix B - Unmatched GL Transactions</h2>
+      ${result.unmatchedQB.length === 0 ? '<p class="none">None</p>' : table(
+        ['Date', 'Trans #', 'Type', 'Name', 'Memo', 'Debit', 'Credit'],
+        result.unmatchedQB.map(t => [
+          formatDay(t.date), escapeHtml(t.transNumber), escapeHtml(t.type), escapeHtml(t.name), escapeHtml(t.memo),
+          num(t.debit ? formatMoney(t.debit) : ''), num(t.credit ? formatMoney(t.credit) : '')
+        ]),
+        ['Total', '', '', '', '', num(formatMoney(sum(result.unmatchedQB.map(t => t.debit)))), num(formatMoney(sum(result.unmatchedQB.map(t => t.credit))))]
+      )}
+    </section>`);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>Bank Reconciliation Package - ${escapeHtml(label)}</title>
+<style>${PACKAGE_STYLES}</style>
+</head>
+<body>${sections.join('\n')}</body>
+</html>`;
+}
+
+const PACKAGE_STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Arial, sans-serif; font-size: 10pt; color: #222; }
+  h1 { font-size: 26pt; margin: 2.5in 0 0.1in; }
+  h2 { font-size: 15pt; border-bottom: 2px solid #333; padding-bottom: 4px; }
+  h3 { font-size: 11pt; margin: 18px 0 6px; }
+  .subtitle { font-size: 16pt; color: #555; margin-bottom: 0.5in; }
+  .page { page-break-before: always; }
+  table { width: 100%; border-collapse: collapse; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; }
+  th { text-align: left; background: #eee; border-bottom: 1px solid #999; padding: 4px; }
+  td { border-bottom: 1px solid #ddd; padding: 3px 4px; vertical-align: top; }
+  tfoot td { font-weight: bold; border-top: 1px solid #333; }
+  table.facts { width: 70%; }
+  table.facts td:first-child { width: 60%; }
+  .num { text-align: right; white-space: nowrap; }
+  .total td { font-weight: bold; border-top: 1px solid #333; }
+  .unexplained td { color: #c00; }
+  .none { color: #777; font-style: italic; }
+`;
+
+/**
+ * Preparer/reviewer sign-off and page number, printed at the foot of every page
+ * (header/footer templates need inline styles and an explicit font size)
+ */
+const SIGN_OFF_FOOTER = `
+  <div style="width: 100%; margin: 0 0.5in; font-size: 8pt; font-family: Arial, sans-serif; color: #333;">
+    <table style="width: 100%; border-collapse: collapse;">
+      <tr>
+        <td style="padding: 6px 0;">Prepared by: ______________________</td>
+        <td style="padding: 6px 0;">Date: ____________</td>
+        <td style="padding: 6px 0;">Reviewed by: ______________________</td>
+        <td style="padding: 6px 0;">Date: ____________</td>
+      </tr>
+    </table>
+    <div style="text-align: right;">Page <span class="pageNumber"></span> of <span class="totalPages"></span></div>
+  </div>`;
+
+function pageHeader(label: string, context: ReportContext): string {
+  const period = context.period ? ` - ${describePeriod(context.period)}` : '';
+  return `<div style="width: 100%; margin: 0 0.5in; font-size: 8pt; font-family: Arial, sans-serif; color: #777;">` +
+    `Bank Reconciliation ${escapeHtml(label)}${escapeHtml(period)}</div>`;
+}
+
+/**
+ * Helper: A table with a repeated header row and an optional total row
+ */
+function table(headers: string[], rows: string[][], total?: string[]): string {
+  const cells = (values: string[]) => values.map(v => v.startsWith('<td') ? v : `<td>${v}</td>`).join('');
+  return `<table>
+    <thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+    <tbody>${rows.map(r => `<tr>${cells(r)}</tr>`).join('')}</tbody>
+    ${total ? `<tfoot><tr>${cells(total)}</tr></tfoot>` : ''}
+  </table>`;
+}
+
+/**
+ * Helper: A right-aligned table cell
+ */
+function num(value: string | number): string {
+  return `<td class="num">${escapeHtml(String(value))}</td>`;
+}
+
+function row(text: string, value: string | number, className?: string): string {
+  const valueClass = className && className.includes('num') ? ' class="num"' : '';
+  const rowClass = className ? className.split(' ').filter(c => c !== 'num').join(' ') : '';
+  return `<tr${rowClass ? ` class="${rowClass}"` : ''}><td>${escapeHtml(text)}</td><td${valueClass}>${escapeHtml(String(value))}</td></tr>`;
+}
+
+const BALANCE_SOURCE_NOTES: { [S in BalanceFigure['source']]: string } = {
+  entered: '',
+  bankFile: ' (from bank file)',
+  computed: ' (computed from activity)',
+  missing: ''
+};
+
+function balanceRow(text: string, figure: BalanceFigure): string {
+  return row(`${text}${BALANCE_SOURCE_NOTES[figure.source]}`, formatAmount(figure.amount), 'num');
+}
+
+function differenceText(difference: number | null): string {
+  if (difference === null) return 'Not available - a bank or GL balance is missing';
+  return difference === 0 ? `${formatMoney(0)} - reconciled` : `${formatMoney(difference)} - UNEXPLAINED`;
+}
+
+function sum(values: number[]): number {
+  return Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+}
+
+/**
+ * Helper: $1,234.56 / -$1,234.56
+ */
+function formatMoney(value: number): string {
+  const text = Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return value < 0 ? `-$${text}` : `$${text}`;
+}
+
+function formatAmount(value: number | null): string {
+  return value === null ? 'n/a' : formatMoney(value);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,139 @@
+/**
+ * RECONCILIATION PERIOD
+ *
+ * The statement period being reconciled. Rows are read from a window a few
+ * days wider than the period (the lookaround), so entries near the edges can
+ * still find a counterpart booked or cleared just outside it; matches that use
+ * such a row are flagged as cross-period.
+ */
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+export interface ReconciliationPeriod {
+  /** First day of the period, YYYY-MM-DD */
+  start: string;
+  /** Last day of the period (inclusive), YYYY-MM-DD */
+  end: string;
+  /** Days past each end of the period searched for counterparts */
+  lookaroundDays: number;
+}
+
+/**
+ * Inclusive date range (dates at local midnight)
+ */
+export interface DateWindow {
+  start: Date;
+  end: Date;
+}
+
+export const DEFAULT_LOOKAROUND_DAYS = 7;
+
+const MAX_LOOKAROUND_DAYS = 90;
+
+/**
+ * A calendar year as a period
+ */
+export function calendarYearPeriod(year: number, lookaroundDays: number = DEFAULT_LOOKAROUND_DAYS): ReconciliationPeriod {
+  return { start: `${year}-01-01`, end: `${year}-12-31`, lookaroundDays };
+}
+
+/**
+ * Validate a period from the UI or a session file. Throws when the dates are
+ * missing or reversed.
+ */
+export function normalizePeriod(period: Partial<ReconciliationPeriod>): ReconciliationPeriod {
+  const start = parseDay(period.start);
+  const end = parseDay(period.end);
+  if (!start || !end) {
+    throw new Error('The reconciliation period needs a start and an end date');
+  }
+  if (start.getTime() > end.getTime()) {
+    throw new Error('The reconciliation period ends before it starts');
+  }
+
+  const days = Math.round(Number(period.lookaroundDays));
+  return {
+    start: isoDay(start),
+    end: isoDay(end),
+    lookaroundDays: Number.isFinite(days) ? Math.min(Math.max(days, 0), MAX_LOOKAROUND_DAYS) : DEFAULT_LOOKAROUND_DAYS
+  };
+}
+
+/**
+ * The period itself
+ */
+export function periodWindow(period: ReconciliationPeriod): DateWindow {
+  return { start: parseDay(period.start)!, end: parseDay(period.end)! };
+}
+
+/**
+ * The period widened by the lookaround days - the rows read from the source files
+ */
+export function lookaroundWindow(period: ReconciliationPeriod): DateWindow {
+  const { start, end } = periodWindow(period);
+  return {
+    start: new Date(start.getFullYear(), start.getMonth(), start.getDate() - period.lookaroundDays),
+    end: new Date(end.getFullYear(), end.getMonth(), end.getDate() + period.lookaroundDays)
+  };
+}
+
+export function isInWindow(date: Date, window: DateWindow): boolean {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  return day >= window.start.getTime() && day <= window.end.getTime();
+}
+
+/**
+ * Why a date falls outside a window, e.g. "Before 01/01/2025"
+ */
+export function outsideWindowDetail(date: Date, window: DateWindow): string {
+  return date.getTime() < window.start.getTime() ? `Before ${formatDay(window.start)}` : `After ${formatDay(window.end)}`;
+}
+
+/**
+ * "01/01/2025 - 12/31/2025"
+ */
+export function describePeriod(period: ReconciliationPeriod): string {
+  const { start, end } = periodWindow(period);
+  return `${formatDay(start)} - ${formatDay(end)}`;
+}
+
+/**
+ * Short name for output files: "2025" for a calendar year, "2025-Q1" for a
+ * calendar quarter, "2025-03" for a month, otherwise "2024-07-01_2025-06-30"
+ */
+export function periodLabel(period: ReconciliationPeriod): string {
+  const { start, end } = periodWindow(period);
+  const dayAfterEnd = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+  const months = (dayAfterEnd.getFullYear() - start.getFullYear()) * 12 + dayAfterEnd.getMonth() - start.getMonth();
+
+  if (start.getDate() === 1 && dayAfterEnd.getDate() === 1) {
+    if (months === 12 && start.getMonth() === 0) return `${start.getFullYear()}`;
+    if (months === 3 && start.getMonth() % 3 === 0) return `${start.getFullYear()}-Q${start.getMonth() / 3 + 1}`;
+    if (months === 1) return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`;
+  }
+  return `${period.start}_${period.end}`;
+}
+
+/**
+ * MM/DD/YYYY, as in the output files
+ */
+export function formatDay(date: Date): string {
+  return `${String(date.getMonth() + 1).padStart(2, '0')}/${String(date.getDate()).padStart(2, '0')}/${date.getFullYear()}`;
+}
+
+/**
+ * Helper: YYYY-MM-DD as local midnight (null when malformed)
+ */
+function parseDay(value: string | undefined): Date | null {
+  const match = (value || '').match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const date = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  return date.getDate() === parseInt(match[3]) ? date : null;
+}
+
+function isoDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
@@ -0,0 +1,582 @@
+/**
+ * RECONCILIATION PIPELINE
+ *
+ * Parse -> match -> export, without Electron: shared by the desktop app's IPC
+ * handlers and the gl-match command line. Progress goes to a log callback;
+ * the PDF package needs a browser window, so it is written only when the
+ * caller supplies an exporter for it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseBankFile, parseQBFile, extractYearFromFilename } from './parsers';
+import { BankImportProfile, loadBankProfiles } from './bank-profiles';
+import { GLMatcher, BankTransaction, QBTransaction, ReconciliationResult } from './matcher';
+import {
+  exportMatchedCSV,
+  exportUnmatchedBankCSV,
+  exportUnmatchedQBCSV,
+  exportNeedsReviewCSV,
+  exportExcludedRowsCSV,
+  exportReconciliationStatement,
+  generateReport,
+  ReportContext
+} from './exporter';
+import { exportWorkbook } from './workbook-exporter';
+import { ReviewSession } from './review';
+import { SessionSource, SessionFile, BankStatementSource, SourceFingerprints, fingerprintFile, carryOverMatches } from './session';
+import { UnmatchedExplanation } from './unmatched-explainer';
+import { ExcludedRow, ExclusionSummary, summarizeExcludedRows, outsidePeriodRows, heldOutDuplicateRows } from './excluded-rows';
+import {
+  BankBalancePoint,
+  StatementBalances,
+  StatementSummary,
+  ReconciliationStatement,
+  balancesFromBankFile,
+  buildReconciliationStatement,
+  combineBalances,
+  summarizeStatement
+} from './reconciliation-statement';
+import { BankAccountContext, AccountReconciliation, TransferPair, reconcileByAccount, transfersOf } from './bank-accounts';
+import { DuplicateReport, findDuplicates } from './duplicates';
+import { ReconciliationPeriod, DEFAULT_LOOKAROUND_DAYS, calendarYearPeriod, normalizePeriod, periodWindow, lookaroundWindow, periodLabel } from './period';
+import { MatchingConfig, normalizeMatchingConfig } from './matching-config';
+import { loadVendorAliases, resolveVendorMappings } from './vendor-aliases';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+export type PipelineLog = (message: string, level: 'info' | 'success' | 'warning' | 'error') => void;
+
+/**
+ * Run settings chosen in the app, or read from a CLI config file
+ */
+export interface ReconciliationOptions {
+  /** Import profile for bank statements that do not name their own - defaults to auto-detect */
+  bankProfileId?: string;
+  /** GL cash account(s) to reconcile - defaults to the accounts that look like bank accounts */
+  accounts?: string[];
+  /** Matching passes and tolerances - defaults to DEFAULT_MATCHING_CONFIG */
+  matchingConfig?: MatchingConfig;
+  /** Client whose vendor aliases apply (global aliases always apply) */
+  client?: string;
+  /** Statement period - without start/end dates, the calendar year in the file names */
+  period?: Partial<ReconciliationPeriod>;
+  /** Opening/ending balances entered by the user - bank balances default to the bank file's */
+  balances?: StatementBalances;
+  /** Also write the per-table CSV files (the workbook is always written) */
+  csvExports?: boolean;
+  /** Leave likely duplicate rows (see duplicates.ts) out of matching - they are reported either way */
+  holdOutDuplicates?: boolean;
+}
+
+/**
+ * Writes the PDF package (see pdf-package.ts) - it needs Electron, so the CLI runs without it
+ */
+export type PdfExporter = (
+  result: ReconciliationResult,
+  outputDir: string,
+  label: string,
+  context: ReportContext,
+  explanations: UnmatchedExplanation[]
+) => Promise<string>;
+
+export interface PipelineSettings {
+  /** Directory holding user-saved settings (import profiles, vendor aliases) */
+  storeDir: string;
+  log: PipelineLog;
+  exportPdf?: PdfExporter;
+}
+
+/**
+ * A finished run - kept by the app for review, re-export and saving
+ */
+export interface PipelineRun {
+  bankTransactions: BankTransaction[];
+  qbTransactions: QBTransaction[];
+  outputDir: string;
+  /** Period label used to name the output files, e.g. "2025" or "2025-Q1" */
+  label: string;
+  matcher: GLMatcher;
+  /** Reviewer decisions on the run - exports regenerate from this */
+  review: ReviewSession;
+  reportContext: ReportContext;
+  /** Files written for this run, replaced when reviewed results are exported */
+  outputFiles: string[];
+  /** Inputs and file fingerprints, saved with the session */
+  source: SessionSource;
+  files: SourceFingerprints;
+  /** Result as exported (with restored review decisions applied) */
+  result: ReconciliationResult;
+  statement?: ReconciliationStatement;
+  /** Per-account results and statements of a multi-account run */
+  byAccount?: AccountReconciliation[];
+}
+
+/**
+ * Machine-readable outcome of a run (CLI JSON output)
+ */
+export interface RunSummary {
+  client?: string;
+  bank: string[];
+  gl: string;
+  period: ReconciliationPeriod;
+  label: string;
+  outputDir: string;
+  files: string[];
+  stats: RunStats;
+  excluded: ExclusionSummary;
+  statement: StatementSummary | null;
+  /** One entry per GL cash account when the run has more than one bank account */
+  accounts: { account: string; bankFiles: string[]; stats: RunStats; statement: StatementSummary | null }[];
+  /** Transfers found between the client's accounts */
+  transfers: number;
+  /** Likely duplicate rows found on each side */
+  duplicates: { bank: number; qb: number; heldOut: boolean };
+}
+
+export interface RunStats {
+  bankTransactions: number;
+  qbTransactions: number;
+  matched: number;
+  matchRate: number;
+  needsReview: number;
+  crossPeriod: number;
+  unmatchedBank: number;
+  unmatchedQB: number;
+}
+
+/**
+ * Everything a run needs from the chosen files and options. Without period
+ * dates, the period is the calendar year in the file names. With several bank
+ * statements, each names the GL cash account it is reconciled against, and
+ * those accounts are reconciled.
+ */
+export function resolveSource(
+  bankFiles: BankStatementSource[],
+  qbPath: string,
+  options: ReconciliationOptions,
+  storeDir: string
+): SessionSource {
+  if (bankFiles.length === 0) {
+    throw new Error('Select a bank statement file');
+  }
+  if (bankFiles.length > 1 && bankFiles.some(f => !f.account)) {
+    throw new Error('Choose the GL cash account for each bank statement');
+  }
+
+  const statementAccounts = bankFiles.map(f => f.account).filter((a): a is string => !!a);
+  const accounts = statementAccounts.length > 0
+    ? [...new Set([...(options.accounts || []), ...statementAccounts])]
+    : options.accounts;
+
+  return {
+    bankFiles: bankFiles.map(f => ({ ...f, bankProfileId: f.bankProfileId || options.bankProfileId || undefined })),
+    qbPath,
+    period: resolvePeriod(bankFiles[0].path, qbPath, options.period),
+    accounts,
+    matchingConfig: normalizeMatchingConfig(options.matchingConfig),
+    client: options.client || undefined,
+    balances: options.balances,
+    vendorAliases: loadVendorAliases(storeDir).filter(a => !a.client || a.client === options.client),
+    csvExports: options.csvExports,
+    holdOutDuplicates: options.holdOutDuplicates
+  };
+}
+
+/**
+ * Parse, match and export into `outputDir`. With a saved session, its matches
+ * are restored first and the passes only run when a source file changed.
+ */
+export async function runPipeline(
+  source: SessionSource,
+  outputDir: string,
+  settings: PipelineSettings,
+  restore?: { session: SessionFile; rerun: boolean }
+): Promise<PipelineRun> {
+  const { log } = settings;
+  const { qbPath, period, matchingConfig } = source;
+  const label = periodLabel(period);
+  const window = lookaroundWindow(period);
+  const files = { bank: source.bankFiles.map(f => fingerprintFile(f.path)), qb: fingerprintFile(qbPath) };
+
+  // Parse files - rows of a statement mapped to an account carry that account
+  log('Step 1: Loading bank transactions...', 'info');
+  const profiles = loadBankProfiles(settings.storeDir);
+  const parsedBank: BankTransaction[] = [];
+  const bankExcluded: ExcludedRow[] = [];
+  const statements: (BankStatementSource & { name: string; points: BankBalancePoint[] })[] = [];
+  for (const file of source.bankFiles) {
+    const bankProfile = resolveBankProfile(profiles, file.bankProfileId);
+    const name = path.basename(file.path);
+    log(`  ${name}${file.account ? ` (${file.account})` : ''} - import profile: ${bankProfile ? bankProfile.name : 'Auto-detect'}`, 'info');
+    const bankParse = parseBankFile(file.path, window, bankProfile, profiles);
+    parsedBank.push(...bankParse.transactions.map(t => (file.account ? { ...t, account: file.account } : t)));
+    bankExcluded.push(...bankParse.excluded);
+    statements.push({ ...file, name, points: bankParse.balances });
+  }
+  log(`✓ Loaded ${parsedBank.length} bank transactions${statements.length > 1 ? ` from ${statements.length} statements` : ''}`, 'success');
+
+  // Balances per account: entered for the statement, or read from its file(s)
+  const accountBalances = groupStatements(statements).map(group => ({
+    ...group,
+    balances: {
+      entered: Object.assign({}, ...group.statements.map(f => f.balances)) as StatementBalances,
+      bankFile: balancesFromBankFile(group.statements.flatMap(f => f.points).sort((a, b) => a.date.getTime() - b.date.getTime()), period)
+    }
+  }));
+  for (const { account, balances } of accountBalances) {
+    if (balances.bankFile.bankEnding !== undefined) {
+      log(`  Statement balances from bank file${account ? ` (${account})` : ''}: opening ${balances.bankFile.bankOpening?.toFixed(2) ?? 'n/a'}, ending ${balances.bankFile.bankEnding.toFixed(2)}`, 'info');
+    }
+  }
+  const bankAccounts: BankAccountContext[] = accountBalances
+    .filter(group => group.account)
+    .map(group => ({ account: group.account!, files: group.statements.map(f => f.name), balances: group.balances }));
+
+  log('Step 2: Loading QuickBooks transactions...', 'info');
+  const accounts = resolveCashAccounts(qbPath, source.accounts);
+  log(`  Cash account(s): ${accounts.length > 0 ? accounts.join(', ') : '(no account column - all rows)'}`, 'info');
+  if (bankAccounts.length > 1 && accounts.length === 0) {
+    throw new Error('The GL export has no account column - it can only be reconciled against one bank account');
+  }
+  const qbParse = parseQBFile(qbPath, window, accounts);
+  log(`✓ Loaded ${qbParse.transactions.length} QB transactions`, 'success');
+  if (qbParse.excludedCount > 0) {
+    log(`  Excluded ${qbParse.excludedCount} rows from ${Object.keys(qbParse.excludedByAccount).length} other account(s)`, 'warning');
+  }
+  for (const { account } of bankAccounts) {
+    if (!qbParse.accounts.some(a => a.name === account)) {
+      log(`  No GL rows found for ${account} - check the account chosen for its bank statement`, 'warning');
+    }
+  }
+
+  // Likely duplicates on either side are reported, and held out of matching when asked
+  const duplicates: DuplicateReport = { ...findDuplicates(parsedBank, qbParse.transactions), heldOut: !!source.holdOutDuplicates };
+  if (duplicates.bank.length + duplicates.qb.length > 0) {
+    log(`  Possible duplicates: ${duplicates.bank.length} bank, ${duplicates.qb.length} QB${duplicates.heldOut ? ' - held out of matching' : ''}`, 'warning');
+  }
+  const heldOut = new Set<BankTransaction | QBTransaction>(duplicates.heldOut ? [...duplicates.bank, ...duplicates.qb].map(d => d.row) : []);
+  const bankTransactions = parsedBank.filter(t => !heldOut.has(t));
+  const qbTransactions = qbParse.transactions.filter(t => !heldOut.has(t));
+
+  const excludedRows = [...bankExcluded, ...qbParse.excluded, ...(duplicates.heldOut ? heldOutDuplicateRows(duplicates) : [])];
+  for (const e of summarizeExcludedRows(excludedRows).byReason) {
+    log(`  Excluded ${e.side === 'bank' ? 'bank' : 'QB'} rows - ${e.label}: ${e.count}`, 'warning');
+  }
+
+  // Run matching
+  log('Step 3: Running intelligent matching algorithm...', 'info');
+  const vendorMappings = resolveVendorMappings(source.vendorAliases, source.client);
+  const countAliases = (from: string) => source.vendorAliases.filter(a => a.source === from).length;
+  log(`  Vendor aliases${source.client ? ` for ${source.client}` : ''}: ${countAliases('builtIn')} built-in, ${countAliases('ai')} AI, ${countAliases('user')} user`, 'info');
+  const enabledPasses = matchingConfig.passes.filter(p => p.enabled).length;
+  const matcher = new GLMatcher(bankTransactions, qbTransactions, vendorMappings, matchingConfig, periodWindow(period));
+
+  let result: ReconciliationResult;
+  let explanations: UnmatchedExplanation[] = [];
+  if (restore) {
+    const carried = carryOverMatches(restore.session, matcher.getBankTransactions(), matcher.getQBTransactions());
+    matcher.restoreMatches(carried.matches);
+    explanations = carried.explanations;
+    log(`  Restored ${carried.changes.matchesKept} saved matches`, 'info');
+
+    if (restore.rerun) {
+      const { bankAdded, bankRemoved, qbAdded, qbRemoved, matchesDropped } = carried.changes;
+      log(`  Bank rows: ${bankAdded} new/changed, ${bankRemoved} removed; QB rows: ${qbAdded} new/changed, ${qbRemoved} removed`, 'info');
+      if (matchesDropped > 0) {
+        log(`  ${matchesDropped} saved match(es) lost a row and were dropped`, 'warning');
+      }
+      log(`  Re-running ${enabledPasses} of ${matchingConfig.passes.length} configured passes on the remaining rows`, 'info');
+      result = matcher.match();
+      result.passResults.forEach((p, idx) => {
+        log(`  Pass ${idx + 1} (${p.pass}): ${p.matches} matches`, 'info');
+      });
+    } else {
+      result = matcher.result();
+    }
+  } else {
+    log(`  Running ${enabledPasses} of ${matchingConfig.passes.length} configured passes`, 'info');
+    result = matcher.match();
+
+    result.passResults.forEach((p, idx) => {
+      log(`  Pass ${idx + 1} (${p.pass}): ${p.matches} matches`, 'info');
+    });
+  }
+
+  // Restored rejections leave their rows unmatched - export from the reviewed state
+  const review = new ReviewSession(matcher, result);
+  if (restore) {
+    review.restoreExplanations(explanations);
+    result = review.toResult();
+  }
+
+  log(`✓ Matching complete!`, 'success');
+  log(`  Total Matched: ${result.matched.length}`, 'info');
+  log(`  Match Rate: ${result.matchRate.toFixed(1)}%`, 'info');
+  log(`  Needs Review: ${result.needsReview.length} (confidence below ${Math.round(matchingConfig.reviewThreshold * 100)}%)`, result.needsReview.length > 0 ? 'warning' : 'info');
+  log(`  Unmatched Bank: ${result.unmatchedBank.length}`, 'warning');
+  log(`  Unmatched QB: ${result.unmatchedQB.length}`, 'warning');
+  const crossPeriod = result.matched.filter(m => m.crossPeriod).length;
+  if (crossPeriod > 0) {
+    log(`  Cross-period matches: ${crossPeriod} (counterpart in the lookaround days)`, 'warning');
+  }
+  const { bank: outsideBank, qb: outsideQB } = result.outsidePeriod;
+  if (outsideBank.length + outsideQB.length > 0) {
+    log(`  Lookaround rows with no match in the period: ${outsideBank.length} bank, ${outsideQB.length} QB (excluded)`, 'info');
+  }
+
+  // Generate outputs
+  log('Step 4: Generating output files...', 'info');
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  // The consolidated statement adds up the accounts; balances entered for the whole run win
+  const reportContext: ReportContext = {
+    period,
+    balances: {
+      entered: { ...combineBalances(accountBalances.map(g => g.balances.entered)), ...source.balances },
+      bankFile: combineBalances(accountBalances.map(g => g.balances.bankFile))
+    },
+    accounts,
+    excludedByAccount: qbParse.excludedByAccount,
+    excludedRows,
+    duplicates
+  };
+  if (bankAccounts.length > 1) {
+    reportContext.bankAccounts = bankAccounts;
+  }
+  const outputs = await writeOutputs(result, bankTransactions, qbTransactions, outputDir, label, {
+    ...reportContext,
+    review: restore ? review.summary() : undefined
+  }, settings, review.acceptedExplanations(), source.csvExports);
+
+  return {
+    bankTransactions,
+    qbTransactions,
+    outputDir,
+    label,
+    matcher,
+    review,
+    reportContext,
+    outputFiles: outputs.files,
+    source: { ...source, accounts },
+    files,
+    result,
+    statement: outputs.statement,
+    byAccount: outputs.byAccount
+  };
+}
+
+/**
+ * Write the workbook (plus the CSV exports when asked for), the
+ * reconciliation statement, report and PDF package for a (possibly reviewed)
+ * result. Returns the paths written and the statement.
+ */
+export async function writeOutputs(
+  result: ReconciliationResult,
+  bankTransactions: BankTransaction[],
+  qbTransactions: QBTransaction[],
+  outputDir: string,
+  label: string,
+  context: ReportContext,
+  settings: Pick<PipelineSettings, 'log' | 'exportPdf'>,
+  explanations: UnmatchedExplanation[] = [],
+  csvExports: boolean = false
+): Promise<{ files: string[]; statement?: ReconciliationStatement; byAccount?: AccountReconciliation[] }> {
+  const { log } = settings;
+  const files: string[] = [];
+  const created = (filePath: string) => {
+    files.push(filePath);
+    log(`✓ Created: ${path.basename(filePath)}`, 'success');
+  };
+
+  const excludedRows = allExcludedRows(result, context);
+  // Rows held out of matching are still reconciling items on the statement
+  const heldOut = context.duplicates && context.duplicates.heldOut
+    ? { bank: context.duplicates.bank.map(d => d.row), qb: context.duplicates.qb.map(d => d.row) }
+    : undefined;
+
+  if (csvExports) {
+    created(exportMatchedCSV(result.matched, outputDir, label));
+
+    if (result.needsReview.length > 0) {
+      created(exportNeedsReviewCSV(result.needsReview, outputDir, label));
+    }
+
+    if (result.unmatchedBank.length > 0) {
+      created(exportUnmatchedBankCSV(result.unmatchedBank, outputDir, label, explanations));
+    }
+
+    if (result.unmatchedQB.length > 0) {
+      created(exportUnmatchedQBCSV(result.unmatchedQB, outputDir, label));
+    }
+
+    if (excludedRows.length > 0) {
+      created(exportExcludedRowsCSV(excludedRows, outputDir, label));
+    }
+  }
+
+  const logDifference = (statement: ReconciliationStatement, account?: string) => {
+    const of = account ? ` (${account})` : '';
+    if (statement.difference === null) {
+      log(`  Reconciliation difference not available${of} - enter the missing bank or GL balance`, 'warning');
+    } else if (statement.difference !== 0) {
+      log(`  ⚠️ Unexplained reconciliation difference${of}: ${statement.difference.toFixed(2)}`, 'warning');
+    } else {
+      log(`  Reconciliation statement balances${of} - no unexplained difference`, 'success');
+    }
+  };
+
+  // Multi-account runs: a statement per account, then the consolidated one
+  let byAccount: AccountReconciliation[] | undefined;
+  let transfers: TransferPair[] | undefined;
+  if (context.bankAccounts) {
+    transfers = transfersOf(result.matched);
+    log(`  Transfers between accounts: ${transfers.length}`, 'info');
+    byAccount = reconcileByAccount(result, bankTransactions, qbTransactions, context.bankAccounts, context.period, excludedRows, heldOut);
+    for (const { account, result: accountResult, statement } of byAccount) {
+      log(`  ${account}: ${accountResult.matched.length} matched (${accountResult.matchRate.toFixed(1)}%), ${accountResult.unmatchedBank.length} unmatched bank, ${accountResult.unmatchedQB.length} unmatched QB`, 'info');
+      if (statement) {
+        created(exportReconciliationStatement(statement, outputDir, label, account));
+        logDifference(statement, account);
+      }
+    }
+  }
+
+  let statement: ReconciliationStatement | undefined;
+  if (context.period && context.balances) {
+    statement = buildReconciliationStatement(result, bankTransactions, qbTransactions, context.period, context.balances, excludedRows, heldOut);
+    created(exportReconciliationStatement(statement, outputDir, label));
+    logDifference(statement, byAccount ? 'all accounts' : undefined);
+  }
+
+  const fullContext: ReportContext = { ...context, excludedRows, statement, byAccount, transfers };
+  created(exportWorkbook(result, outputDir, label, fullContext, explanations));
+  created(generateReport(result, bankTransactions, qbTransactions, outputDir, label, fullContext));
+
+  // The other outputs stand on their own - a failed PDF should not fail the run
+  if (settings.exportPdf) {
+    try {
+      created(await settings.exportPdf(result, outputDir, label, fullContext, explanations));
+    } catch (error: any) {
+      log(`⚠️ PDF package not written: ${error.message}`, 'warning');
+    }
+  }
+
+  return { files, statement, byAccount };
+}
+
+/**
+ * Rows the parsers left out, plus lookaround rows that stayed unmatched
+ * (these change as matches are reviewed)
+ */
+export function allExcludedRows(result: ReconciliationResult, context: ReportContext): ExcludedRow[] {
+  const lookaround = context.period ? outsidePeriodRows(result.outsidePeriod, periodWindow(context.period)) : [];
+  return [...(context.excludedRows || []), ...lookaround];
+}
+
+export function summarizeRun(run: PipelineRun): RunSummary {
+  const { result, source } = run;
+  return {
+    client: source.client,
+    bank: source.bankFiles.map(f => f.path),
+    gl: source.qbPath,
+    period: source.period,
+    label: run.label,
+    outputDir: run.outputDir,
+    files: run.outputFiles,
+    stats: runStats(result),
+    excluded: summarizeExcludedRows(allExcludedRows(result, run.reportContext)),
+    statement: run.statement ? summarizeStatement(run.statement) : null,
+    accounts: (run.byAccount || []).map(a => ({
+      account: a.account,
+      bankFiles: a.files,
+      stats: runStats(a.result),
+      statement: a.statement ? summarizeStatement(a.statement) : null
+    })),
+    transfers: run.reportContext.bankAccounts ? transfersOf(result.matched).length : 0,
+    duplicates: {
+      bank: run.reportContext.duplicates?.bank.length ?? 0,
+      qb: run.reportContext.duplicates?.qb.length ?? 0,
+      heldOut: run.reportContext.duplicates?.heldOut ?? false
+    }
+  };
+}
+
+export function runStats(result: ReconciliationResult): RunStats {
+  return {
+    bankTransactions: result.totalBank,
+    qbTransactions: result.totalQB,
+    matched: result.matched.length,
+    matchRate: Math.round(result.matchRate * 10) / 10,
+    needsReview: result.needsReview.length,
+    crossPeriod: result.matched.filter(m => m.crossPeriod).length,
+    unmatchedBank: result.unmatchedBank.length,
+    unmatchedQB: result.unmatchedQB.length
+  };
+}
+
+/**
+ * Look up the chosen import profile (undefined = auto-detect)
+ */
+export function resolveBankProfile(profiles: BankImportProfile[], id?: string): BankImportProfile | undefined {
+  if (!id) return undefined;
+  const profile = profiles.find(p => p.id === id);
+  if (!profile) {
+    throw new Error(`Unknown bank import profile: ${id}`);
+  }
+  return profile;
+}
+
+/**
+ * Use the selected cash accounts, or the suggested ones when none were picked
+ */
+export function resolveCashAccounts(qbPath: string, selected?: string[]): string[] {
+  if (selected && selected.length > 0) {
+    return selected;
+  }
+
+  // Exports without any account information are reconciled as a whole
+  const found = parseQBFile(qbPath).accounts;
+  if (found.length === 0) {
+    return [];
+  }
+
+  const suggested = found.filter(a => a.suggested).map(a => a.name);
+  if (suggested.length === 0) {
+    throw new Error('Select the GL cash account(s) to reconcile');
+  }
+  return suggested;
+}
+
+/**
+ * Helper: Statements grouped by their GL cash account, in file order
+ * (statements without one form a single group)
+ */
+function groupStatements<T extends BankStatementSource>(statements: T[]): { account?: string; statements: T[] }[] {
+  const groups: { account?: string; statements: T[] }[] = [];
+  for (const statement of statements) {
+    const group = groups.find(g => g.account === statement.account);
+    if (group) group.statements.push(statement);
+    else groups.push({ account: statement.account, statements: [statement] });
+  }
+  return groups;
+}
+
+/**
+ * Helper: The period chosen, or the calendar year in the file names
+ * (bank file first, then GL file, else the current year)
+ */
+function resolvePeriod(bankPath: string, qbPath: string, chosen: Partial<ReconciliationPeriod> = {}): ReconciliationPeriod {
+  const lookaroundDays = chosen.lookaroundDays ?? DEFAULT_LOOKAROUND_DAYS;
+  if (chosen.start || chosen.end) {
+    return normalizePeriod({ ...chosen, lookaroundDays });
+  }
+
+  const bankYear = extractYearFromFilename(path.basename(bankPath));
+  const qbYear = extractYearFromFilename(path.basename(qbPath));
+  return normalizePeriod(calendarYearPeriod(bankYear || qbYear || new Date().getFullYear(), lookaroundDays));
+}
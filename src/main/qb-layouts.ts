@@ -0,0 +1,144 @@
+/**
+ * QuickBooks GL export layouts
+ *
+ * Desktop "General Ledger" / custom transaction reports and QuickBooks Online
+ * "General Ledger" / "Transaction Detail by Account" reports share the same shape:
+ * a few title rows, one header row, then transactions grouped under account
+ * section rows and closed by "Total ..." subtotal rows. They differ in header
+ * names and in whether amounts come as Debit/Credit or a single signed Amount.
+ */
+
+export type QBLayoutKind = 'desktop' | 'online';
+
+export type QBField = 'date' | 'transNumber' | 'num' | 'type' | 'account' | 'name' | 'memo' | 'split' | 'debit' | 'credit' | 'amount';
+
+export interface QBLayout {
+  kind: QBLayoutKind;
+  /** Human-readable description, e.g. "QuickBooks Online - General Ledger" */
+  label: string;
+  headerRowIndex: number;
+  /** Column index per field, -1 when the export has no such column */
+  columns: { [F in QBField]: number };
+}
+
+/**
+ * Header names per field, Desktop names first
+ */
+const QB_COLUMN_NAMES: { [F in QBField]: string[] } = {
+  date: ['Date', 'Transaction Date', 'Txn Date'],
+  transNumber: ['Trans #', 'Trans. #', 'Transaction ID'],
+  num: ['Num', 'No.', 'Ref #', 'Ref No.'],
+  type: ['Type', 'Transaction Type', 'Txn Type'],
+  account: ['Account', 'Account Name', 'Account Full Name'],
+  name: ['Name', 'Payee', 'Customer/Vendor'],
+  memo: ['Memo', 'Memo/Description', 'Description'],
+  split: ['Split', 'Split Account'],
+  debit: ['Debit'],
+  credit: ['Credit'],
+  amount: ['Amount']
+};
+
+/** Headers that only QuickBooks Online uses */
+const ONLINE_ONLY_HEADERS = ['Transaction Type', 'Memo/Description', 'Split Account', 'Txn Type'];
+
+/** Report titles that appear in the rows above the header */
+const REPORT_TITLES = ['General Ledger', 'Transaction Detail by Account', 'Transaction Detail', 'Transaction List by Date'];
+
+/** Account names that usually denote a bank/cash account */
+const CASH_ACCOUNT_PATTERN = /\b(checking|operating|savings|money market|bank|cash|chase|wells|citi|bofa|bank of america)\b/i;
+
+/** Account names that look like cash accounts but are not reconciled against a bank statement */
+const NON_BANK_ACCOUNT_PATTERN = /\b(undeposited|petty|clearing|payable|receivable|credit card|loan)\b/i;
+
+/**
+ * Guess whether a GL account is a bank/cash account worth reconciling
+ */
+export function isLikelyCashAccount(account: string): boolean {
+  return CASH_ACCOUNT_PATTERN.test(account) && !NON_BANK_ACCOUNT_PATTERN.test(account);
+}
+
+/**
+ * Find the header row of a QB export and map its columns
+ * Returns null when the rows don't look like a GL export
+ */
+export function detectQBLayout(rows: any[][]): QBLayout | null {
+  for (let i = 0; i < Math.min(30, rows.length); i++) {
+    const headers = (rows[i] || []).map(cell => (cell ?? '').toString().trim());
+    const columns = mapColumns(headers);
+
+    const hasAmounts = (columns.debit !== -1 && columns.credit !== -1) || columns.amount !== -1;
+    if (columns.date === -1 || columns.type === -1 || !hasAmounts) {
+      continue;
+    }
+
+    const isOnline = headers.some(h => ONLINE_ONLY_HEADERS.some(name => sameHeader(h, name)));
+    const kind: QBLayoutKind = isOnline ? 'online' : 'desktop';
+
+    return {
+      kind,
+      label: `QuickBooks ${kind === 'online' ? 'Online' : 'Desktop'} - ${findReportTitle(rows.slice(0, i)) || 'Transaction Report'}`,
+      headerRowIndex: i,
+      columns
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a row is a subtotal/total line ("Total for Checking", "TOTAL")
+ */
+export function isTotalRow(cells: string[]): boolean {
+  const first = cells.find(c => c !== '');
+  return !!first && /^total\b/i.test(first);
+}
+
+/**
+ * Check whether a row is an opening balance line
+ */
+export function isBalanceRow(cells: string[]): boolean {
+  return cells.some(c => /^(beginning|opening) balance$/i.test(c));
+}
+
+/**
+ * Account section header: no date and no amounts, just the account name
+ * Returns the account name, or null when the row isn't a section header
+ */
+export function sectionAccountName(cells: string[], layout: QBLayout): string | null {
+  const { date, debit, credit, amount } = layout.columns;
+  if (date !== -1 && cells[date]) return null;
+  if ([debit, credit, amount].some(idx => idx !== -1 && cells[idx])) return null;
+
+  const text = cells.filter(c => c !== '');
+  return text.length === 1 ? text[0] : null;
+}
+
+function mapColumns(headers: string[]): { [F in QBField]: number } {
+  const columns = {} as { [F in QBField]: number };
+  for (const field of Object.keys(QB_COLUMN_NAMES) as QBField[]) {
+    columns[field] = -1;
+    for (const name of QB_COLUMN_NAMES[field]) {
+      const idx = headers.findIndex(h => sameHeader(h, name));
+      if (idx !== -1) {
+        columns[field] = idx;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+function findReportTitle(titleRows: any[][]): string | null {
+  for (const row of titleRows) {
+    for (const cell of row || []) {
+      const text = (cell ?? '').toString().trim();
+      const title = REPORT_TITLES.find(t => sameHeader(text, t));
+      if (title) return title;
+    }
+  }
+  return null;
+}
+
+function sameHeader(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
@@ -0,0 +1,345 @@
+/**
+ * BANK RECONCILIATION STATEMENT
+ *
+ * The statement accountants sign off on: the bank statement ending balance,
+ * plus deposits in transit and less outstanding checks (book entries the bank
+ * had not cleared by the period end), proved against the GL ending balance
+ * adjusted for bank-only items (bank entries not yet in the books). Whatever
+ * is left is an unexplained difference.
+ */
+
+import { BankTransaction, QBTransaction, MatchedPair, ReconciliationResult, TRANSFER_MATCH_TYPE } from './matcher';
+import { ExcludedRow } from './excluded-rows';
+import { ReconciliationPeriod, periodWindow, isInWindow, formatDay } from './period';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+/**
+ * A balance read from a bank file: the balance after a transaction of `amount`
+ * on `date` (CSV running balance column, or derived from the OFX ledger balance)
+ */
+export interface BankBalancePoint {
+  date: Date;
+  amount: number;
+  balance: number;
+}
+
+/**
+ * Opening and ending balances of the period - entered by the user, or read
+ * from the bank file. GL balances are debit-positive (a cash balance is positive).
+ */
+export interface StatementBalances {
+  bankOpening?: number;
+  bankEnding?: number;
+  glOpening?: number;
+  glEnding?: number;
+}
+
+export interface BalanceFigure {
+  amount: number | null;
+  /** 'computed': derived from the other balance of the same side and the period's activity */
+  source: 'entered' | 'bankFile' | 'computed' | 'missing';
+}
+
+/**
+ * 'depositInTransit': GL deposit not in the bank by the period end
+ * 'outstandingCheck': GL payment not in the bank by the period end
+ * 'bankCredit' / 'bankDebit': bank money in / out not in the GL (interest, fees, unbooked items)
+ */
+export type ReconcilingItemKind = 'depositInTransit' | 'outstandingCheck' | 'bankCredit' | 'bankDebit';
+
+export const RECONCILING_ITEM_LABELS: { [K in ReconcilingItemKind]: string } = {
+  depositInTransit: 'Deposits in transit',
+  outstandingCheck: 'Outstanding checks and payments',
+  bankCredit: 'Bank credits not in GL',
+  bankDebit: 'Bank charges and debits not in GL'
+};
+
+export interface ReconcilingItem {
+  kind: ReconcilingItemKind;
+  date: Date;
+  /** Trans # / check number, when there is one */
+  reference: string;
+  description: string;
+  /** Always positive - the kind gives the direction */
+  amount: number;
+  /** Why it is a reconciling item, e.g. "Unmatched" or "Cleared 04/02/2025" */
+  note: string;
+}
+
+export interface ReconciliationStatement {
+  period: ReconciliationPeriod;
+  bankOpening: BalanceFigure;
+  bankEnding: BalanceFigure;
+  glOpening: BalanceFigure;
+  glEnding: BalanceFigure;
+  /** Net of the period's bank rows (money in positive), including rows excluded as skipped types */
+  bankActivity: number;
+  /** Debits less credits of the period's GL rows */
+  glActivity: number;
+  items: ReconcilingItem[];
+  totals: { [K in ReconcilingItemKind]: number };
+  /** Bank ending balance + deposits in transit - outstanding checks */
+  adjustedBank: number | null;
+  /** GL ending balance + bank credits - bank debits */
+  adjustedBook: number | null;
+  /** Adjusted bank less adjusted book; null when a balance is missing */
+  difference: number | null;
+  /** Bank ending less (opening + activity) - non-zero when the bank file misses rows of the period */
+  bankRollForwardDifference: number | null;
+}
+
+/**
+ * Short form for the renderer and run log
+ */
+export interface StatementSummary {
+  bankEnding: number | null;
+  glEnding: number | null;
+  adjustedBank: number | null;
+  adjustedBook: number | null;
+  difference: number | null;
+  itemCount: number;
+}
+
+/**
+ * Opening and ending balances of the period from a bank file's balance points.
+ * Opening is the balance before the period's first transaction (or after the
+ * last one before the period); ending is the balance after its last one.
+ */
+export function balancesFromBankFile(points: BankBalancePoint[], period: ReconciliationPeriod): StatementBalances {
+  const window = periodWindow(period);
+  const before = points.filter(p => p.date.getTime() < window.start.getTime());
+  const during = points.filter(p => isInWindow(p.date, window));
+  const upToEnd = points.filter(p => p.date.getTime() < window.start.getTime() || isInWindow(p.date, window));
+
+  const balances: StatementBalances = {};
+  if (during.length > 0) {
+    balances.bankOpening = round(during[0].balance - during[0].amount);
+  } else if (before.length > 0) {
+    balances.bankOpening = before[before.length - 1].balance;
+  }
+  // With no rows in the period, the last earlier balance only holds if the file goes on past the period
+  if (upToEnd.length > 0 && (during.length > 0 || points.length > upToEnd.length)) {
+    balances.bankEnding = upToEnd[upToEnd.length - 1].balance;
+  }
+  return balances;
+}
+
+/**
+ * Balances of several accounts added together - a figure is only known when
+ * every account has it
+ */
+export function combineBalances(list: StatementBalances[]): StatementBalances {
+  const combined: StatementBalances = {};
+  if (list.length === 0) return combined;
+
+  const keys: (keyof StatementBalances)[] = ['bankOpening', 'bankEnding', 'glOpening', 'glEnding'];
+  for (const key of keys) {
+    const values = list.map(b => b[key]);
+    if (values.every(v => typeof v === 'number' && isFinite(v))) {
+      combined[key] = round((values as number[]).reduce((sum, v) => sum + v, 0));
+    }
+  }
+  return combined;
+}
+
+/**
+ * Helper: A bank row's effect on the balance. Its type gives the direction -
+ * formats with a Type column may list withdrawals as positive amounts.
+ */
+function signedAmount(bank: BankTransaction): number {
+  return bank.type === 'Withdrawal' ? -Math.abs(bank.amount) : Math.abs(bank.amount);
+}
+
+/**
+ * Helper: A Transfer match split into one match per account it touches, each
+ * with that account's bank and GL rows (either may be empty); other matches
+ * as they are
+ */
+function accountLegs(match: MatchedPair): MatchedPair[] {
+  if (match.matchType !== TRANSFER_MATCH_TYPE) return [match];
+
+  const accounts = [...new Set([...match.bankRows.map(b => b.account), ...match.qbRows.map(qb => qb.account)])];
+  return accounts.map(account => {
+    const bankRows = match.bankRows.filter(b => b.account === account);
+    const qbRows = match.qbRows.filter(qb => qb.account === account);
+    return { ...match, bankRows, qbRows, bankDate: bankRows[0]?.date || match.bankDate, qbDate: qbRows[0]?.date || match.qbDate };
+  });
+}
+
+/**
+ * Build the statement from a (possibly reviewed) result. `bankTransactions`
+ * and `qbTransactions` are the rows the matcher saw, lookaround days included;
+ * bank rows excluded as skipped types (e.g. fees) in the period are bank-only
+ * items. Rows held out of matching as likely duplicates (`heldOut`) are still
+ * on the statement and in the books, so they are reconciling items like
+ * unmatched rows - holding a row out never changes the adjusted balances.
+ */
+export function buildReconciliationStatement(
+  result: ReconciliationResult,
+  bankTransactions: BankTransaction[],
+  qbTransactions: QBTransaction[],
+  period: ReconciliationPeriod,
+  balances: { entered: StatementBalances; bankFile: StatementBalances },
+  excludedRows: ExcludedRow[] = [],
+  heldOut: { bank: BankTransaction[]; qb: QBTransaction[] } = { bank: [], qb: [] }
+): ReconciliationStatement {
+  const window = periodWindow(period);
+  const inPeriod = (date: Date) => isInWindow(date, window);
+  const afterPeriod = (date: Date) => !inPeriod(date) && date.getTime() > window.end.getTime();
+
+  const items: ReconcilingItem[] = [];
+  const bookItem = (qb: QBTransaction, note: string) => items.push({
+    kind: qb.debit > 0 ? 'depositInTransit' : 'outstandingCheck',
+    date: qb.date,
+    reference: qb.transNumber,
+    description: [qb.type, qb.name, qb.memo].filter(t => t).join(' - '),
+    amount: qb.debit > 0 ? qb.debit : qb.credit,
+    note
+  });
+  const bankItem = (date: Date, amount: number, reference: string, description: string, note: string) => items.push({
+    kind: amount >= 0 ? 'bankCredit' : 'bankDebit',
+    date,
+    reference,
+    description,
+    amount: Math.abs(amount),
+    note
+  });
+  const bankRowItem = (bank: BankTransaction, note: string) =>
+    bankItem(bank.date, signedAmount(bank), bank.checkNumber || '', [bank.vendor, bank.description].filter(t => t).join(' - '), note);
+
+  // Unmatched rows of the period
+  for (const qb of result.unmatchedQB) {
+    bookItem(qb, 'Unmatched');
+  }
+  for (const bank of result.unmatchedBank) {
+    bankRowItem(bank, 'Unmatched');
+  }
+
+  // Held out of matching as likely duplicates
+  for (const qb of heldOut.qb.filter(qb => inPeriod(qb.date))) {
+    bookItem(qb, 'Likely duplicate');
+  }
+  for (const bank of heldOut.bank.filter(b => inPeriod(b.date))) {
+    bankRowItem(bank, 'Likely duplicate');
+  }
+
+  // Matched across the period end: one side only caught up after it. A
+  // transfer is reconciled per account, and an end only one side recorded
+  // is a reconciling item.
+  for (const match of result.matched.flatMap(accountLegs)) {
+    if (match.qbRows.length === 0) {
+      match.bankRows.filter(b => inPeriod(b.date)).forEach(b => bankRowItem(b, 'Transfer not in GL'));
+    } else if (match.bankRows.length === 0) {
+      match.qbRows.filter(qb => inPeriod(qb.date)).forEach(qb => bookItem(qb, 'Transfer not banked'));
+    } else if (match.bankRows.every(b => afterPeriod(b.date))) {
+      match.qbRows.filter(qb => inPeriod(qb.date)).forEach(qb => bookItem(qb, `Cleared ${formatDay(match.bankDate)}`));
+    } else if (match.qbRows.every(qb => afterPeriod(qb.date))) {
+      match.bankRows.filter(b => inPeriod(b.date)).forEach(b => bankRowItem(b, `Booked ${formatDay(match.qbDate)}`));
+    }
+  }
+
+  // Bank rows the import profile skipped (e.g. fees) are still on the statement
+  const skipped = excludedRows
+    .filter(e => e.side === 'bank' && e.reason === 'skippedType')
+    .map(e => ({ row: e, date: parseDay(e.date), amount: parseFloat(e.amount) }))
+    .filter(e => e.date && !isNaN(e.amount) && inPeriod(e.date)) as { row: ExcludedRow; date: Date; amount: number }[];
+  for (const { row, date, amount } of skipped) {
+    bankItem(date, amount, '', row.content, 'Excluded from match');
+  }
+
+  items.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const totals = { depositInTransit: 0, outstandingCheck: 0, bankCredit: 0, bankDebit: 0 };
+  for (const item of items) {
+    totals[item.kind] = round(totals[item.kind] + item.amount);
+  }
+
+  const bankActivity = round(
+    [...bankTransactions, ...heldOut.bank].filter(b => inPeriod(b.date)).reduce((sum, b) => sum + signedAmount(b), 0) +
+    skipped.reduce((sum, e) => sum + e.amount, 0)
+  );
+  const glActivity = round([...qbTransactions, ...heldOut.qb].filter(qb => inPeriod(qb.date)).reduce((sum, qb) => sum + qb.debit - qb.credit, 0));
+
+  const [bankOpening, bankEnding] = resolvePair(
+    pick(balances.entered.bankOpening, balances.bankFile.bankOpening),
+    pick(balances.entered.bankEnding, balances.bankFile.bankEnding),
+    bankActivity
+  );
+  const [glOpening, glEnding] = resolvePair(
+    pick(balances.entered.glOpening),
+    pick(balances.entered.glEnding),
+    glActivity
+  );
+
+  const adjustedBank = bankEnding.amount === null
+    ? null
+    : round(bankEnding.amount + totals.depositInTransit - totals.outstandingCheck);
+  const adjustedBook = glEnding.amount === null
+    ? null
+    : round(glEnding.amount + totals.bankCredit - totals.bankDebit);
+  const bothKnown = bankOpening.source !== 'computed' && bankEnding.source !== 'computed' &&
+    bankOpening.amount !== null && bankEnding.amount !== null;
+
+  return {
+    period,
+    bankOpening,
+    bankEnding,
+    glOpening,
+    glEnding,
+    bankActivity,
+    glActivity,
+    items,
+    totals,
+    adjustedBank,
+    adjustedBook,
+    difference: adjustedBank !== null && adjustedBook !== null ? round(adjustedBank - adjustedBook) : null,
+    bankRollForwardDifference: bothKnown ? round(bankEnding.amount! - (bankOpening.amount! + bankActivity)) : null
+  };
+}
+
+export function summarizeStatement(statement: ReconciliationStatement): StatementSummary {
+  return {
+    bankEnding: statement.bankEnding.amount,
+    glEnding: statement.glEnding.amount,
+    adjustedBank: statement.adjustedBank,
+    adjustedBook: statement.adjustedBook,
+    difference: statement.difference,
+    itemCount: statement.items.length
+  };
+}
+
+/**
+ * Helper: An entered balance wins over one read from the bank file
+ */
+function pick(entered: number | undefined, fromFile?: number): BalanceFigure {
+  if (typeof entered === 'number' && isFinite(entered)) return { amount: entered, source: 'entered' };
+  if (typeof fromFile === 'number' && isFinite(fromFile)) return { amount: fromFile, source: 'bankFile' };
+  return { amount: null, source: 'missing' };
+}
+
+/**
+ * Helper: Fill in a missing opening or ending balance from the other one and the period's activity
+ */
+function resolvePair(opening: BalanceFigure, ending: BalanceFigure, activity: number): [BalanceFigure, BalanceFigure] {
+  if (opening.amount !== null && ending.amount === null) {
+    return [opening, { amount: round(opening.amount + activity), source: 'computed' }];
+  }
+  if (opening.amount === null && ending.amount !== null) {
+    return [{ amount: round(ending.amount - activity), source: 'computed' }, ending];
+  }
+  return [opening, ending];
+}
+
+/**
+ * Helper: MM/DD/YYYY (as written in excluded rows) to a date
+ */
+function parseDay(value: string): Date | null {
+  const match = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  return match ? new Date(parseInt(match[3]), parseInt(match[1]) - 1, parseInt(match[2])) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,325 @@
+/**
+ * MATCH REVIEW
+ *
+ * Reviewer decisions on top of a matching run: accept or reject suggested
+ * matches, dissolve them, or link rows by hand, and accept or dismiss suggested
+ * explanations for unmatched bank rows. Exports are generated from the
+ * reviewed state rather than the raw matcher output.
+ */
+
+import { GLMatcher, MatchedPair, MatchRecord, BankTransaction, QBTransaction, ReconciliationResult, ReviewStatus } from './matcher';
+import { UnmatchedExplanation, EXPLANATION_LABELS } from './unmatched-explainer';
+
+export interface ReviewSummary {
+  pending: number;
+  accepted: number;
+  rejected: number;
+  /** Matches created by hand (included in accepted) */
+  manual: number;
+}
+
+/**
+ * Table rows for the review screen
+ */
+export interface ReviewSnapshot {
+  matches: {
+    id: string;
+    status: ReviewStatus;
+    matchType: string;
+    confidence: number;
+    needsReview: boolean;
+    /** Uses a row from the lookaround days */
+    crossPeriod: boolean;
+    note: string;
+    bankDate: Date;
+    qbDate: Date;
+    amount: number;
+    bankType: string;
+    bankVendor: string;
+    qbName: string;
+    qbTransNumber: string;
+    qbType: string;
+    bankIds: string[];
+    qbIds: string[];
+  }[];
+  unmatchedBank: {
+    id: string;
+    date: Date;
+    type: string;
+    vendor: string;
+    description: string;
+    amount: number;
+    /** Suggested or accepted explanation, with the display label of its kind */
+    explanation: (UnmatchedExplanation & { label: string }) | null;
+  }[];
+  unmatchedQB: { id: string; date: Date; transNumber: string; type: string; name: string; memo: string; debit: number; credit: number }[];
+  summary: ReviewSummary;
+}
+
+export class ReviewSession {
+  private matcher: GLMatcher;
+  private result: ReconciliationResult;
+  private matches: MatchedPair[];
+  /** Explanations by bank row ID */
+  private explanations = new Map<string, UnmatchedExplanation>();
+
+  constructor(matcher: GLMatcher, result: ReconciliationResult) {
+    this.matcher = matcher;
+    this.result = result;
+    this.matches = [...result.matched];
+    this.syncMatchedFlags();
+  }
+
+  /**
+   * Confirm a match. Re-accepting a rejected match needs its rows to still be free.
+   */
+  public accept(matchId: string): void {
+    const match = this.findMatch(matchId);
+    if (match.reviewStatus === 'rejected') {
+      this.assertUnmatched(match.bankRows, match.qbRows);
+    }
+    match.reviewStatus = 'accepted';
+    this.syncMatchedFlags();
+  }
+
+  /**
+   * Mark a match as wrong - it stays listed, its rows return to the unmatched lists
+   */
+  public reject(matchId: string): void {
+    this.findMatch(matchId).reviewStatus = 'rejected';
+    this.syncMatchedFlags();
+  }
+
+  /**
+   * Dissolve a match entirely
+   */
+  public unmatch(matchId: string): void {
+    const match = this.findMatch(matchId);
+    this.matches = this.matches.filter(m => m !== match);
+    this.syncMatchedFlags();
+  }
+
+  /**
+   * Attach a reviewer's note to a match (empty text clears it)
+   */
+  public note(matchId: string, note: string): void {
+    const match = this.findMatch(matchId);
+    match.reviewNote = note.trim() || undefined;
+  }
+
+  /**
+   * Link unmatched bank row(s) to one or more unmatched QB rows
+   */
+  public link(bankIds: string[], qbIds: string[]): MatchedPair {
+    const match = this.matcher.manualMatch(bankIds, qbIds);
+    this.assertUnmatched(match.bankRows, match.qbRows);
+
+    // Rejected suggestions for these rows are superseded by the manual link
+    this.matches = this.matches.filter(m =>
+      m.reviewStatus !== 'rejected' ||
+      !(m.bankRows.some(b => match.bankRows.includes(b)) || m.qbRows.some(q => match.qbRows.includes(q)))
+    );
+    this.matches.push(match);
+    this.syncMatchedFlags();
+    return match;
+  }
+
+  /**
+   * Offer explanations for unmatched bank rows. Replaces earlier suggestions;
+   * accepted explanations are kept.
+   */
+  public suggestExplanations(explanations: UnmatchedExplanation[]): void {
+    for (const [bankId, existing] of this.explanations) {
+      if (existing.status === 'suggested') this.explanations.delete(bankId);
+    }
+    for (const explanation of explanations) {
+      if (!this.explanations.has(explanation.bankId)) {
+        this.explanations.set(explanation.bankId, { ...explanation, status: 'suggested' });
+      }
+    }
+  }
+
+  /**
+   * Accept a suggested explanation. A counterpart suggestion becomes a manual
+   * link with the rationale as its note; any other kind is recorded against
+   * the bank row, which stays unmatched.
+   */
+  public acceptExplanation(bankId: string): MatchedPair | null {
+    const explanation = this.explanations.get(bankId);
+    if (!explanation) {
+      throw new Error(`No explanation for bank row: ${bankId}`);
+    }
+
+    if (explanation.kind === 'counterpart') {
+      const match = this.link([bankId], explanation.qbIds);
+      match.reviewNote = explanation.rationale;
+      this.explanations.delete(bankId);
+      return match;
+    }
+
+    explanation.status = 'accepted';
+    return null;
+  }
+
+  /**
+   * Drop an explanation, suggested or accepted
+   */
+  public dismissExplanation(bankId: string): void {
+    this.explanations.delete(bankId);
+  }
+
+  /**
+   * Accepted explanations of rows that are still unmatched (for exports and session files)
+   */
+  public acceptedExplanations(): UnmatchedExplanation[] {
+    this.syncMatchedFlags();
+    const unmatched = new Set(this.matcher.getBankTransactions().filter(t => !t.matched).map(t => t.id));
+    return [...this.explanations.values()].filter(e => e.status === 'accepted' && unmatched.has(e.bankId));
+  }
+
+  /**
+   * Put back accepted explanations from a saved session
+   */
+  public restoreExplanations(explanations: UnmatchedExplanation[]): void {
+    for (const explanation of explanations) {
+      this.explanations.set(explanation.bankId, { ...explanation, status: 'accepted' });
+    }
+  }
+
+  /**
+   * The reviewed state as a reconciliation result, ready for export.
+   * Accepted matches no longer need review; rejected ones are left out.
+   */
+  public toResult(): ReconciliationResult {
+    this.syncMatchedFlags();
+
+    const matched = this.matches
+      .filter(m => m.reviewStatus !== 'rejected')
+      .map(m => ({ ...m, needsReview: m.needsReview && m.reviewStatus === 'pending' }));
+
+    return {
+      ...this.result,
+      ...this.matcher.tally(),
+      matched,
+      needsReview: matched.filter(m => m.needsReview)
+    };
+  }
+
+  /**
+   * Matches the reviewer confirmed - accepted suggestions and manual links
+   */
+  public confirmedMatches(): MatchedPair[] {
+    return this.matches.filter(m => m.reviewStatus === 'accepted');
+  }
+
+  public summary(): ReviewSummary {
+    const count = (status: ReviewStatus) => this.matches.filter(m => m.reviewStatus === status).length;
+    return {
+      pending: count('pending'),
+      accepted: count('accepted'),
+      rejected: count('rejected'),
+      manual: this.matches.filter(m => m.matchType === 'Manual').length
+    };
+  }
+
+  /**
+   * Every match with its review status and note, by row ID (for session files)
+   */
+  public records(): MatchRecord[] {
+    return this.matches.map(m => ({
+      id: m.id,
+      matchType: m.matchType,
+      bankIds: m.bankRows.map(b => b.id),
+      qbIds: m.qbRows.map(q => q.id),
+      confidence: m.confidence,
+      reasons: m.reasons,
+      needsReview: m.needsReview,
+      reviewStatus: m.reviewStatus,
+      reviewNote: m.reviewNote
+    }));
+  }
+
+  /**
+   * Rows for the review tables
+   */
+  public snapshot(): ReviewSnapshot {
+    const result = this.toResult();
+
+    return {
+      matches: this.matches.map(m => ({
+        id: m.id,
+        status: m.reviewStatus,
+        matchType: m.matchType,
+        confidence: m.confidence,
+        needsReview: m.needsReview && m.reviewStatus === 'pending',
+        crossPeriod: m.crossPeriod,
+        note: m.reviewNote || '',
+        bankDate: m.bankDate,
+        qbDate: m.qbDate,
+        amount: m.amount,
+        bankType: m.bankType,
+        bankVendor: m.bankVendor,
+        qbName: m.qbName,
+        qbTransNumber: m.qbTransNumber,
+        qbType: m.qbType,
+        bankIds: m.bankRows.map(b => b.id),
+        qbIds: m.qbRows.map(q => q.id)
+      })),
+      unmatchedBank: result.unmatchedBank.map(t => ({
+        id: t.id,
+        date: t.date,
+        type: t.type,
+        vendor: t.vendor,
+        description: t.description,
+        amount: t.amount,
+        explanation: this.explanations.has(t.id)
+          ? { ...this.explanations.get(t.id)!, label: EXPLANATION_LABELS[this.explanations.get(t.id)!.kind] }
+          : null
+      })),
+      unmatchedQB: result.unmatchedQB.map(t => ({
+        id: t.id,
+        date: t.date,
+        transNumber: t.transNumber,
+        type: t.type,
+        name: t.name,
+        memo: t.memo,
+        debit: t.debit,
+        credit: t.credit
+      })),
+      summary: this.summary()
+    };
+  }
+
+  private findMatch(matchId: string): MatchedPair {
+    const match = this.matches.find(m => m.id === matchId);
+    if (!match) {
+      throw new Error(`Match not found: ${matchId}`);
+    }
+    return match;
+  }
+
+  /**
+   * Helper: Rows may only belong to one active (non-rejected) match
+   */
+  private assertUnmatched(banks: BankTransaction[], qbs: QBTransaction[]): void {
+    this.syncMatchedFlags();
+    const taken = [...banks, ...qbs].filter(row => row.matched);
+    if (taken.length > 0) {
+      throw new Error(`${taken.length} row(s) already belong to another match - unmatch it first`);
+    }
+  }
+
+  /**
+   * Helper: Recompute row matched flags from the active matches
+   */
+  private syncMatchedFlags(): void {
+    for (const row of [...this.matcher.getBankTransactions(), ...this.matcher.getQBTransactions()]) {
+      row.matched = false;
+    }
+    for (const match of this.matches) {
+      if (match.reviewStatus === 'rejected') continue;
+      match.bankRows.forEach(b => { b.matched = true; });
+      match.qbRows.forEach(q => { q.matched = true; });
+    }
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * RECONCILIATION SESSIONS
+ *
+ * Save a run and its review to a file and reopen it later. Source files and
+ * their rows are fingerprinted, so a reopened session can tell when the bank
+ * statement or GL export changed and carry matches over to the rows that are
+ * still there.
+ */
+
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { BankTransaction, QBTransaction, MatchRecord } from './matcher';
+import { MatchingConfig, normalizeMatchingConfig } from './matching-config';
+import { VendorAlias } from './vendor-aliases';
+import { UnmatchedExplanation } from './unmatched-explainer';
+import { ReconciliationPeriod, calendarYearPeriod, normalizePeriod } from './period';
+import { StatementBalances } from './reconciliation-statement';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+export const SESSION_FILE_EXTENSION = 'glmsession';
+
+const SESSION_FILE_VERSION = 3;
+
+/**
+ * A bank statement file and the GL cash account it is reconciled against
+ */
+export interface BankStatementSource {
+  path: string;
+  /** Import profile - auto-detected when absent */
+  bankProfileId?: string;
+  /** GL cash account - required when a run has more than one statement */
+  account?: string;
+  /** Opening/ending balances entered for this account's statement */
+  balances?: StatementBalances;
+}
+
+/**
+ * What a run was made from - enough to repeat it
+ */
+export interface SessionSource {
+  /** One statement per bank account (several files may share an account) */
+  bankFiles: BankStatementSource[];
+  qbPath: string;
+  /** Statement period and lookaround days */
+  period: ReconciliationPeriod;
+  /** Opening/ending balances entered for the reconciliation statement (all accounts together) */
+  balances?: StatementBalances;
+  /** GL cash account(s) reconciled - empty when the export has no account column */
+  accounts?: string[];
+  matchingConfig: MatchingConfig;
+  /** Client whose vendor aliases apply */
+  client?: string;
+  /** Vendor aliases (built-in, AI and user) that applied to the run */
+  vendorAliases: VendorAlias[];
+  /** Write the per-table CSV files alongside the workbook */
+  csvExports?: boolean;
+  /** Likely duplicate rows were left out of matching */
+  holdOutDuplicates?: boolean;
+}
+
+export interface FileFingerprint {
+  sha256: string;
+  size: number;
+}
+
+export interface SourceFingerprints {
+  bank: FileFingerprint[];
+  qb: FileFingerprint;
+}
+
+export interface SessionFile {
+  version: number;
+  savedAt: string;
+  source: SessionSource;
+  /** Bank fingerprints are in `source.bankFiles` order */
+  files: SourceFingerprints;
+  /** Every match with its review status and note */
+  matches: MatchRecord[];
+  /** Accepted explanations of unmatched bank rows (absent in older files) */
+  explanations?: UnmatchedExplanation[];
+  /** Content hash of every row by row ID - used to carry matches over when a source file changes */
+  rowHashes: { bank: { [id: string]: string }; qb: { [id: string]: string } };
+}
+
+/**
+ * Effect of source file changes on a reopened session
+ */
+export interface SessionChanges {
+  bankAdded: number;
+  bankRemoved: number;
+  qbAdded: number;
+  qbRemoved: number;
+  /** Saved matches whose rows are all still present */
+  matchesKept: number;
+  /** Saved matches that lost a row - their remaining rows are matched again */
+  matchesDropped: number;
+}
+
+type SourceSide = 'bank' | 'qb';
+
+const SIDE_LABELS: { [S in SourceSide]: string } = { bank: 'Bank statement', qb: 'GL export' };
+
+/**
+ * SAVE / LOAD
+ */
+
+/**
+ * Hash a source file's contents
+ */
+export function fingerprintFile(filePath: string): FileFingerprint {
+  const contents = fs.readFileSync(filePath);
+  return {
+    sha256: crypto.createHash('sha256').update(contents).digest('hex'),
+    size: contents.length
+  };
+}
+
+/**
+ * Build a session file from a run's source, file fingerprints and reviewed matches
+ */
+export function createSessionFile(
+  source: SessionSource,
+  files: SourceFingerprints,
+  matches: MatchRecord[],
+  explanations: UnmatchedExplanation[],
+  bankTransactions: BankTransaction[],
+  qbTransactions: QBTransaction[]
+): SessionFile {
+  return {
+    version: SESSION_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    source,
+    files,
+    matches,
+    explanations,
+    rowHashes: {
+      bank: Object.fromEntries(bankTransactions.map(t => [t.id, bankRowHash(t)])),
+      qb: Object.fromEntries(qbTransactions.map(t => [t.id, qbRowHash(t)]))
+    }
+  };
+}
+
+export function writeSessionFile(filePath: string, session: SessionFile): void {
+  fs.writeFileSync(filePath, JSON.stringify(session, null, 2), 'utf-8');
+}
+
+/**
+ * Read and validate a session file
+ */
+export function readSessionFile(filePath: string): SessionFile {
+  let session: SessionFile;
+  try {
+    session = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Not a valid session file: ${error.message}`);
+  }
+
+  if (!session || typeof session.version !== 'number' || !session.source || !session.files || !Array.isArray(session.matches) || !session.rowHashes) {
+    throw new Error('Not a valid session file');
+  }
+  if (session.version > SESSION_FILE_VERSION) {
+    throw new Error('This session was saved by a newer version of the app');
+  }
+
+  // Older sessions reconciled a calendar year, without lookaround days
+  const { year } = session.source as SessionSource & { year?: number };
+  session.source.period = session.source.period ? normalizePeriod(session.source.period) : calendarYearPeriod(year || new Date().getFullYear(), 0);
+  session.source.matchingConfig = normalizeMatchingConfig(session.source.matchingConfig);
+
+  // Before version 3, a session had a single bank file
+  const single = session.source as SessionSource & { bankPath?: string; bankProfileId?: string };
+  if (!Array.isArray(single.bankFiles) && single.bankPath) {
+    session.source.bankFiles = [{ path: single.bankPath, bankProfileId: single.bankProfileId }];
+    delete single.bankPath;
+    delete single.bankProfileId;
+  }
+  if (!Array.isArray(session.files.bank)) {
+    session.files.bank = [session.files.bank];
+  }
+  if (!Array.isArray(session.source.bankFiles) || session.source.bankFiles.length !== session.files.bank.length) {
+    throw new Error('Not a valid session file');
+  }
+
+  session.source.vendorAliases = session.source.vendorAliases || [];
+  session.explanations = session.explanations || [];
+  return session;
+}
+
+/**
+ * Source files whose contents differ from when the session was saved.
+ * Throws when a source file no longer exists.
+ */
+export function changedSourceFiles(session: SessionFile): SourceSide[] {
+  const changed = (side: SourceSide, filePath: string, saved: FileFingerprint) => {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`${SIDE_LABELS[side]} not found: ${filePath}`);
+    }
+    return fingerprintFile(filePath).sha256 !== saved.sha256;
+  };
+
+  // Check every bank file, so a missing one is reported even when another changed
+  const bankChanged = session.source.bankFiles.map((file, idx) => changed('bank', file.path, session.files.bank[idx]));
+  const sides: SourceSide[] = bankChanged.some(c => c) ? ['bank'] : [];
+  if (changed('qb', session.source.qbPath, session.files.qb)) {
+    sides.push('qb');
+  }
+  return sides;
+}
+
+export function describeSourceSide(side: SourceSide): string {
+  return SIDE_LABELS[side];
+}
+
+/**
+ * CARRYING MATCHES OVER
+ */
+
+/**
+ * Map saved matches and explanations onto freshly parsed rows by row content.
+ * A row keeps its ID when its content is unchanged; otherwise any unclaimed row
+ * with identical content takes its place (rows shift when lines are inserted).
+ * Matches and explanations with a row that no longer exists are dropped.
+ */
+export function carryOverMatches(
+  session: SessionFile,
+  bankTransactions: BankTransaction[],
+  qbTransactions: QBTransaction[]
+): { matches: MatchRecord[]; explanations: UnmatchedExplanation[]; changes: SessionChanges } {
+  const bank = remapRows(session.rowHashes.bank, bankTransactions.map(t => [t.id, bankRowHash(t)]));
+  const qb = remapRows(session.rowHashes.qb, qbTransactions.map(t => [t.id, qbRowHash(t)]));
+
+  const matches: MatchRecord[] = [];
+  for (const record of session.matches) {
+    const bankIds = record.bankIds.map(id => bank.ids.get(id));
+    const qbIds = record.qbIds.map(id => qb.ids.get(id));
+    if ([...bankIds, ...qbIds].every(id => id !== undefined)) {
+      matches.push({ ...record, bankIds: bankIds as string[], qbIds: qbIds as string[] });
+    }
+  }
+
+  const explanations: UnmatchedExplanation[] = [];
+  for (const explanation of session.explanations || []) {
+    const bankId = bank.ids.get(explanation.bankId);
+    const qbIds = explanation.qbIds.map(id => qb.ids.get(id));
+    if (bankId !== undefined && qbIds.every(id => id !== undefined)) {
+      explanations.push({ ...explanation, bankId, qbIds: qbIds as string[] });
+    }
+  }
+
+  return {
+    matches,
+    explanations,
+    changes: {
+      bankAdded: bank.added,
+      bankRemoved: bank.removed,
+      qbAdded: qb.added,
+      qbRemoved: qb.removed,
+      matchesKept: matches.length,
+      matchesDropped: session.matches.length - matches.length
+    }
+  };
+}
+
+/**
+ * Helper: Old row ID -> new row ID for rows whose content survived
+ */
+function remapRows(saved: { [id: string]: string }, current: [string, string][]): { ids: Map<string, string>; added: number; removed: number } {
+  const ids = new Map<string, string>();
+  const claimed = new Set<string>();
+
+  // Rows still at the same ID with the same content
+  for (const [id, hash] of current) {
+    if (saved[id] === hash) {
+      ids.set(id, id);
+      claimed.add(id);
+    }
+  }
+
+  // Moved rows: pair the remaining saved and current rows by content, in order
+  const unclaimed = new Map<string, string[]>();
+  for (const [id, hash] of current) {
+    if (claimed.has(id)) continue;
+    const queue = unclaimed.get(hash);
+    if (queue) queue.push(id);
+    else unclaimed.set(hash, [id]);
+  }
+  for (const [id, hash] of Object.entries(saved)) {
+    if (ids.has(id)) continue;
+    const next = unclaimed.get(hash)?.shift();
+    if (next !== undefined) {
+      ids.set(id, next);
+      claimed.add(next);
+    }
+  }
+
+  return {
+    ids,
+    added: current.length - claimed.size,
+    removed: Object.keys(saved).length - ids.size
+  };
+}
+
+/**
+ * Helper: Hash of the fields that identify a bank row
+ */
+function bankRowHash(t: BankTransaction): string {
+  return rowHash([formatDay(t.date), t.type, t.amount.toFixed(2), t.vendor, t.description, t.fitId || '', t.checkNumber || '']);
+}
+
+/**
+ * Helper: Hash of the fields that identify a QB row
+ */
+function qbRowHash(t: QBTransaction): string {
+  return rowHash([formatDay(t.date), t.transNumber, t.type, t.account || '', t.name, t.memo, t.debit.toFixed(2), t.credit.toFixed(2)]);
+}
+
+function rowHash(fields: string[]): string {
+  return crypto.createHash('sha1').update(fields.join('\u0001')).digest('hex').slice(0, 16);
+}
+
+function formatDay(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
@@ -0,0 +1,242 @@
+/**
+ * UNMATCHED ITEM EXPLANATIONS
+ *
+ * Looks at each unmatched bank row together with the unmatched QB rows near it
+ * and suggests why it did not match - a likely counterpart, a bank fee that
+ * was never booked, a duplicate, a timing difference - with a short rationale.
+ * Suggestions only: the reviewer accepts or dismisses each one, and nothing is
+ * matched without that.
+ */
+
+import { BankTransaction, QBTransaction } from './matcher';
+import { LLMProgress, LLMProviderSettings, createLLMClient, completeJSON } from './llm-providers';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+export type ExplanationKind = 'counterpart' | 'timing' | 'bankFee' | 'notBooked' | 'duplicate' | 'other';
+
+export const EXPLANATION_LABELS: { [K in ExplanationKind]: string } = {
+  counterpart: 'Likely counterpart',
+  timing: 'Timing difference',
+  bankFee: 'Bank fee / interest not booked',
+  notBooked: 'Not recorded in books',
+  duplicate: 'Possible duplicate entry',
+  other: 'Other'
+};
+
+export interface UnmatchedExplanation {
+  bankId: string;
+  kind: ExplanationKind;
+  /** Suggested QB counterpart row(s) - set for 'counterpart', optional otherwise */
+  qbIds: string[];
+  rationale: string;
+  /** 'suggested' until the reviewer accepts it */
+  status: 'suggested' | 'accepted';
+}
+
+/** QB rows this many days either side of a bank row are shown as its neighbours */
+const NEIGHBOUR_DAYS = 15;
+/** Neighbouring QB rows per bank row, closest amounts first */
+const MAX_NEIGHBOURS = 5;
+/** Bank rows per request */
+const BATCH_SIZE = 20;
+
+/** Bank text that marks fees, charges and interest */
+const BANK_FEE_PATTERN = /\b(FEE|FEES|SERVICE CHARGE|SVC CHG|INTEREST|OVERDRAFT|NSF|MAINTENANCE|WIRE CHARGE)\b/;
+
+interface BankContext {
+  bank: BankTransaction;
+  neighbours: QBTransaction[];
+  /** Other bank rows (matched or not) with the same amount a few days away */
+  lookalikes: BankTransaction[];
+}
+
+/**
+ * Suggest explanations for unmatched bank rows with the chosen provider.
+ * `allBank` is every bank row in the run, used to spot duplicates.
+ */
+export async function explainUnmatched(
+  settings: LLMProviderSettings,
+  unmatchedBank: BankTransaction[],
+  unmatchedQB: QBTransaction[],
+  allBank: BankTransaction[],
+  onProgress: LLMProgress = () => {}
+): Promise<UnmatchedExplanation[]> {
+  const contexts = unmatchedBank.map(bank => ({
+    bank,
+    neighbours: findNeighbours(bank, unmatchedQB),
+    lookalikes: allBank.filter(other =>
+      other !== bank && other.amount === bank.amount && daysBetween(other.date, bank.date) <= 3
+    )
+  }));
+
+  if (settings.type === 'heuristic') {
+    return contexts.map(heuristicExplanation).filter((e): e is UnmatchedExplanation => e !== null);
+  }
+
+  const client = createLLMClient(settings);
+  const batches: BankContext[][] = [];
+  for (let i = 0; i < contexts.length; i += BATCH_SIZE) {
+    batches.push(contexts.slice(i, i + BATCH_SIZE));
+  }
+  onProgress(`${client.name}: explaining ${contexts.length} unmatched bank row(s) in ${batches.length} batch(es)`, 'info');
+
+  const explanations: UnmatchedExplanation[] = [];
+  let failed = 0;
+
+  for (const [index, batch] of batches.entries()) {
+    const label = `Batch ${index + 1}/${batches.length}`;
+    const result = await completeJSON(client, buildPrompt(batch), raw => validateExplanations(raw, batch), label, onProgress);
+    if (!result) {
+      failed++;
+      continue;
+    }
+    explanations.push(...result);
+    onProgress(`${label}: ${result.length} suggestion(s) for ${batch.length} row(s)`, 'success');
+  }
+
+  if (batches.length > 0 && failed === batches.length) {
+    throw new Error(`${client.name} returned no usable explanations`);
+  }
+  return explanations;
+}
+
+/**
+ * Helper: Unmatched QB rows near a bank row in date, closest amount first
+ */
+function findNeighbours(bank: BankTransaction, unmatchedQB: QBTransaction[]): QBTransaction[] {
+  const amount = Math.abs(bank.amount);
+  return unmatchedQB
+    .filter(qb => daysBetween(qb.date, bank.date) <= NEIGHBOUR_DAYS)
+    .sort((a, b) =>
+      Math.abs(Math.abs(a.amount) - amount) - Math.abs(Math.abs(b.amount) - amount) ||
+      daysBetween(a.date, bank.date) - daysBetween(b.date, bank.date)
+    )
+    .slice(0, MAX_NEIGHBOURS);
+}
+
+function buildPrompt(batch: BankContext[]): string {
+  const rows = batch.map(({ bank, neighbours, lookalikes }) => {
+    const lines = [`BANK ${bank.id} | ${formatDay(bank.date)} | ${bank.type} | ${bank.amount.toFixed(2)} | ${bank.vendor} | ${bank.description}`];
+    for (const qb of neighbours) {
+      lines.push(`  QB ${qb.id} | ${formatDay(qb.date)} | ${qb.type} | debit ${qb.debit.toFixed(2)} credit ${qb.credit.toFixed(2)} | ${qb.name} | ${qb.memo}`);
+    }
+    for (const other of lookalikes) {
+      lines.push(`  SAME AMOUNT IN BANK ${formatDay(other.date)} | ${other.vendor}${other.matched ? ' (matched)' : ''}`);
+    }
+    return lines.join('\n');
+  });
+
+  return `You are an accountant reviewing a bank reconciliation. Each BANK row below did not match any
+QuickBooks (QB) entry. Under each BANK row are the unmatched QB entries closest to it in date and amount,
+and any other bank rows with the same amount a few days away.
+
+${rows.join('\n\n')}
+
+For each BANK row, suggest why it is unmatched, choosing one classification:
+- "counterpart": one or more of the listed QB entries is probably the same transaction (give their ids)
+- "timing": recorded in a different period on one side (e.g. outstanding check, deposit in transit)
+- "bankFee": bank fee, service charge or interest that was never booked
+- "notBooked": a real transaction missing from the books
+- "duplicate": possibly entered twice
+- "other": anything else
+
+Return ONLY a JSON object (no markdown) in this exact format:
+{
+  "explanations": [
+    { "bankId": "<BANK id>", "classification": "counterpart", "qbIds": ["<QB id>"], "rationale": "one short sentence" }
+  ]
+}
+
+Rules:
+1. Use ids exactly as listed; qbIds may only contain QB ids listed under that BANK row
+2. Leave out rows you have no useful suggestion for
+3. Keep each rationale to one short sentence`;
+}
+
+/**
+ * Check a response against the explanations schema. Rows, QB ids and
+ * classifications that were not offered are dropped; a wrong shape throws.
+ */
+function validateExplanations(raw: unknown, batch: BankContext[]): UnmatchedExplanation[] {
+  const list = raw && typeof raw === 'object' ? (raw as { explanations?: unknown }).explanations : undefined;
+  if (!Array.isArray(list)) {
+    throw new Error('Response has no "explanations" list');
+  }
+
+  const explanations: UnmatchedExplanation[] = [];
+  for (const item of list) {
+    if (!item || typeof item !== 'object') {
+      throw new Error('Explanation is not an object');
+    }
+    const { bankId, classification, qbIds, rationale } = item as { [key: string]: unknown };
+    if (typeof bankId !== 'string' || typeof classification !== 'string' || typeof rationale !== 'string') {
+      throw new Error('Explanation needs bankId, classification and rationale text');
+    }
+    if (qbIds !== undefined && (!Array.isArray(qbIds) || qbIds.some(id => typeof id !== 'string'))) {
+      throw new Error(`qbIds of ${bankId} is not a list of ids`);
+    }
+
+    const context = batch.find(c => c.bank.id === bankId);
+    if (!context || !(classification in EXPLANATION_LABELS) || !rationale.trim()) continue;
+    if (explanations.some(e => e.bankId === bankId)) continue;
+
+    const offered = new Set(context.neighbours.map(qb => qb.id));
+    const kept = [...new Set((qbIds as string[] | undefined) || [])].filter(id => offered.has(id));
+    if (classification === 'counterpart' && kept.length === 0) continue;
+
+    explanations.push({
+      bankId,
+      kind: classification as ExplanationKind,
+      qbIds: kept,
+      rationale: rationale.trim(),
+      status: 'suggested'
+    });
+  }
+  return explanations;
+}
+
+/**
+ * OFFLINE HEURISTIC
+ */
+
+/**
+ * Helper: Rule-based explanation - same-amount QB entry, bank fee wording,
+ * or a same-amount bank row the same day
+ */
+function heuristicExplanation({ bank, neighbours, lookalikes }: BankContext): UnmatchedExplanation | null {
+  const text = `${bank.vendor} ${bank.description}`.toUpperCase();
+  const amount = Math.abs(bank.amount);
+
+  const sameAmount = neighbours.find(qb => Math.abs(Math.abs(qb.amount) - amount) < 0.005);
+  if (sameAmount) {
+    const days = daysBetween(sameAmount.date, bank.date);
+    const entry = `${sameAmount.type}${sameAmount.transNumber ? ` #${sameAmount.transNumber}` : ''}${sameAmount.name ? ` (${sameAmount.name})` : ''}`;
+    return explanation(bank, 'counterpart', [sameAmount.id], `QB ${entry} has the same amount ${days} day(s) away`);
+  }
+
+  if (bank.type === 'Withdrawal' && BANK_FEE_PATTERN.test(text)) {
+    return explanation(bank, 'bankFee', [], 'Bank charge or interest with no QB entry nearby - probably not booked');
+  }
+
+  const twin = lookalikes.find(other => daysBetween(other.date, bank.date) === 0 && other.vendor === bank.vendor);
+  if (twin) {
+    return explanation(bank, 'duplicate', [], `Same amount, date and vendor as another bank row${twin.matched ? ' that is matched' : ''}`);
+  }
+
+  return null;
+}
+
+function explanation(bank: BankTransaction, kind: ExplanationKind, qbIds: string[], rationale: string): UnmatchedExplanation {
+  return { bankId: bank.id, kind, qbIds, rationale, status: 'suggested' };
+}
+
+function daysBetween(a: Date, b: Date): number {
+  return Math.round(Math.abs(a.getTime() - b.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function formatDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
@@ -0,0 +1,277 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as Papa from 'papaparse';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+/** Where an alias came from ('learned': approved suggestion mined from confirmed matches) */
+export type VendorAliasSource = 'builtIn' | 'ai' | 'learned' | 'user';
+
+/**
+ * One vendor alias: a vendor name containing `variant` is treated as `canonical`
+ * by the matcher's vendor comparison.
+ */
+export interface VendorAlias {
+  id: string;
+  /** Upper-case text looked for in vendor names (e.g. "BK OF AMER VISA") */
+  variant: string;
+  /** Upper-case name the variant maps to (e.g. "BANK OF AMERICA") */
+  canonical: string;
+  source: VendorAliasSource;
+  /** Client the alias applies to - all clients when absent */
+  client?: string;
+}
+
+/** Vendor mappings in the form GLMatcher uses: canonical name -> variants, in lookup order */
+export type VendorMappings = { [canonical: string]: string[] };
+
+/**
+ * BUILT-IN ALIASES
+ */
+
+const BUILTIN_MAPPINGS: VendorMappings = {
+  'CITI CARD': ['CITIBANK', 'CITI CARD ONLINE', 'CITICTP'],
+  'BANK OF AMERICA': ['BK OF', 'BK OF AMER VISA', 'BANK OF AMERICA'],
+  'CHASE': ['CHASE CREDIT CARD', 'CHASE CARD', 'CHASE BANK'],
+  'SBA': ['SBA LOAN', 'SBA EIDL', 'SBA EIDL LOAN']
+};
+
+export const BUILTIN_VENDOR_ALIASES: VendorAlias[] = Object.entries(BUILTIN_MAPPINGS).flatMap(([canonical, variants]) =>
+  variants.map(variant => ({
+    id: `builtin-${slugify(canonical)}-${slugify(variant)}`,
+    variant,
+    canonical,
+    source: 'builtIn' as const
+  }))
+);
+
+const ALIAS_STORE_FILE = 'vendor-aliases.json';
+const REJECTED_STORE_FILE = 'vendor-alias-rejections.json';
+
+/** Export/import file columns */
+const ALIAS_COLUMNS = ['Variant', 'Canonical', 'Client', 'Source'];
+
+/**
+ * STORE
+ */
+
+/**
+ * Load built-in aliases plus the saved AI and user aliases
+ */
+export function loadVendorAliases(storeDir: string): VendorAlias[] {
+  return [...BUILTIN_VENDOR_ALIASES, ...readStoredAliases(storeDir)];
+}
+
+/**
+ * Client names that have their own aliases
+ */
+export function listAliasClients(aliases: VendorAlias[]): string[] {
+  return [...new Set(aliases.filter(a => a.client).map(a => a.client!))].sort();
+}
+
+/**
+ * Save (create or replace) an alias. Saving by hand makes it a user alias.
+ */
+export function saveVendorAlias(
+  storeDir: string,
+  alias: Omit<VendorAlias, 'id' | 'source'> & { id?: string },
+  source: 'user' | 'learned' = 'user'
+): VendorAlias {
+  if (alias.id && isBuiltInId(alias.id)) {
+    throw new Error('Built-in aliases cannot be edited - add a user alias for the same variant instead');
+  }
+
+  const saved = normalizeAlias({ ...alias, id: alias.id || newAliasId(), source });
+  const stored = readStoredAliases(storeDir).filter(a => a.id !== saved.id && !sameKey(a, saved));
+  stored.push(saved);
+  writeStoredAliases(storeDir, stored);
+
+  return saved;
+}
+
+/**
+ * Delete a saved alias (built-ins cannot be deleted)
+ */
+export function deleteVendorAlias(storeDir: string, id: string): void {
+  if (isBuiltInId(id)) {
+    throw new Error('Built-in aliases cannot be deleted');
+  }
+  writeStoredAliases(storeDir, readStoredAliases(storeDir).filter(a => a.id !== id));
+}
+
+/**
+ * Record AI-suggested mappings. Variants that already have an alias applying to
+ * the client (or a global one) are left alone, so user decisions are never overwritten.
+ * Returns the number of aliases added.
+ */
+export function addAIVendorAliases(storeDir: string, mappings: VendorMappings, client?: string): number {
+  const existing = loadVendorAliases(storeDir);
+  const stored = readStoredAliases(storeDir);
+  let added = 0;
+
+  for (const [canonical, variants] of Object.entries(mappings)) {
+    for (const variant of variants) {
+      if (!variant || !canonical) continue;
+      const alias = normalizeAlias({ id: newAliasId(), variant, canonical, source: 'ai', client });
+      if (existing.some(a => a.variant === alias.variant && (!a.client || a.client === alias.client))) continue;
+
+      stored.push(alias);
+      existing.push(alias);
+      added++;
+    }
+  }
+
+  writeStoredAliases(storeDir, stored);
+  return added;
+}
+
+/**
+ * Merge the aliases that apply to a client into matcher mappings.
+ * Lookup order: the client's own aliases, then global ones; user before AI
+ * before built-in within each.
+ */
+export function resolveVendorMappings(aliases: VendorAlias[], client?: string): VendorMappings {
+  const rank: { [S in VendorAliasSource]: number } = { user: 0, learned: 1, ai: 2, builtIn: 3 };
+  const applicable = aliases
+    .filter(a => !a.client || a.client === client)
+    .sort((a, b) => (a.client ? 0 : 1) - (b.client ? 0 : 1) || rank[a.source] - rank[b.source]);
+
+  const mappings: VendorMappings = {};
+  const seen = new Set<string>();
+  for (const alias of applicable) {
+    if (seen.has(alias.variant)) continue;
+    seen.add(alias.variant);
+    (mappings[alias.canonical] = mappings[alias.canonical] || []).push(alias.variant);
+  }
+  return mappings;
+}
+
+/**
+ * Alias suggestions the user turned down - not suggested again
+ */
+export function loadRejectedAliases(storeDir: string): Omit<VendorAlias, 'id' | 'source'>[] {
+  const filePath = path.join(storeDir, REJECTED_STORE_FILE);
+  if (!fs.existsSync(filePath)) return [];
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error(`Error reading rejected aliases from ${filePath}:`, error);
+    return [];
+  }
+}
+
+export function rejectAliasSuggestion(storeDir: string, suggestion: Omit<VendorAlias, 'id' | 'source'>): void {
+  const { id, source, ...entry } = normalizeAlias({ ...suggestion, id: '', source: 'learned' });
+
+  const existing = loadRejectedAliases(storeDir).filter(r =>
+    !(r.variant === entry.variant && r.canonical === entry.canonical && (r.client || '') === (entry.client || ''))
+  );
+  existing.push(entry);
+  fs.mkdirSync(storeDir, { recursive: true });
+  fs.writeFileSync(path.join(storeDir, REJECTED_STORE_FILE), JSON.stringify(existing, null, 2), 'utf-8');
+}
+
+/**
+ * IMPORT / EXPORT
+ */
+
+/**
+ * Write aliases to a CSV file (Variant, Canonical, Client, Source)
+ */
+export function exportVendorAliases(aliases: VendorAlias[], filePath: string): void {
+  const csv = Papa.unparse({
+    fields: ALIAS_COLUMNS,
+    data: aliases.map(a => [a.variant, a.canonical, a.client || '', a.source])
+  });
+  fs.writeFileSync(filePath, csv, 'utf-8');
+}
+
+/**
+ * Read aliases from a CSV file written by exportVendorAliases (Client and Source
+ * are optional). Imported rows replace saved aliases with the same variant and
+ * scope; built-in rows are skipped.
+ * Returns the number of aliases imported.
+ */
+export function importVendorAliases(storeDir: string, filePath: string): number {
+  const parsed = Papa.parse<{ [column: string]: string }>(fs.readFileSync(filePath, 'utf-8'), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: h => h.trim()
+  });
+  if (!parsed.meta.fields || !['Variant', 'Canonical'].every(c => parsed.meta.fields!.includes(c))) {
+    throw new Error('Alias file needs Variant and Canonical columns');
+  }
+
+  let stored = readStoredAliases(storeDir);
+  let imported = 0;
+
+  for (const row of parsed.data) {
+    if (!(row.Variant || '').trim() || !(row.Canonical || '').trim() || row.Source === 'builtIn') continue;
+    const source = row.Source === 'ai' || row.Source === 'learned' ? row.Source : 'user';
+    const alias = normalizeAlias({ id: newAliasId(), variant: row.Variant, canonical: row.Canonical, client: row.Client, source });
+
+    stored = stored.filter(a => !sameKey(a, alias));
+    stored.push(alias);
+    imported++;
+  }
+
+  writeStoredAliases(storeDir, stored);
+  return imported;
+}
+
+/**
+ * HELPERS
+ */
+
+function normalizeAlias(alias: VendorAlias): VendorAlias {
+  const variant = (alias.variant || '').toUpperCase().trim();
+  const canonical = (alias.canonical || '').toUpperCase().trim();
+  if (!variant || !canonical) {
+    throw new Error('An alias needs both a variant and a canonical name');
+  }
+
+  const client = (alias.client || '').trim();
+  return { id: alias.id, variant, canonical, source: alias.source, ...(client ? { client } : {}) };
+}
+
+/**
+ * Helper: Same variant in the same scope
+ */
+function sameKey(a: VendorAlias, b: VendorAlias): boolean {
+  return a.variant === b.variant && (a.client || '') === (b.client || '');
+}
+
+function readStoredAliases(storeDir: string): VendorAlias[] {
+  const filePath = path.join(storeDir, ALIAS_STORE_FILE);
+  if (!fs.existsSync(filePath)) return [];
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return Array.isArray(parsed) ? parsed.filter((a: VendorAlias) => a.source !== 'builtIn') : [];
+  } catch (error) {
+    console.error(`Error reading vendor aliases from ${filePath}:`, error);
+    return [];
+  }
+}
+
+function writeStoredAliases(storeDir: string, aliases: VendorAlias[]): void {
+  fs.mkdirSync(storeDir, { recursive: true });
+  fs.writeFileSync(path.join(storeDir, ALIAS_STORE_FILE), JSON.stringify(aliases, null, 2), 'utf-8');
+}
+
+function isBuiltInId(id: string): boolean {
+  return BUILTIN_VENDOR_ALIASES.some(a => a.id === id);
+}
+
+function newAliasId(): string {
+  return crypto.randomBytes(6).toString('hex');
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
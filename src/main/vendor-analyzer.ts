@@ -0,0 +1,264 @@
+import { BankTransaction, QBTransaction } from './matcher';
+import { LLMProgress, LLMProviderSettings, createLLMClient, completeJSON } from './llm-providers';
+import { VendorMappings } from './vendor-aliases';
+
+/** Bank vendors per request */
+const BANK_BATCH_SIZE = 100;
+/** QB vendors per request - longer QB lists are split and every bank batch is compared with every QB batch */
+const QB_BATCH_SIZE = 250;
+
+/** Tokens that carry no vendor identity in bank descriptions and GL names */
+const NOISE_TOKENS = new Set([
+  'POS', 'DEBIT', 'CREDIT', 'ACH', 'PURCHASE', 'PAYMENT', 'PMT', 'ONLINE', 'WEB', 'CHECKCARD', 'CARD', 'SQ', 'TST', 'PP',
+  'INC', 'LLC', 'LTD', 'CO', 'CORP', 'CORPORATION', 'COMPANY', 'THE'
+]);
+
+/** Minimum bigram similarity for two vendor keys to be the same entity */
+const HEURISTIC_SIMILARITY = 0.85;
+
+/**
+ * Extract unique vendor names from bank and QB transactions
+ */
+function extractUniqueVendors(
+  bankTransactions: BankTransaction[],
+  qbTransactions: QBTransaction[]
+): { bankVendors: string[]; qbVendors: string[] } {
+  const bankVendors = [...new Set(bankTransactions.map(t => t.vendor.toUpperCase().trim()))].filter(v => v).sort();
+  const qbVendors = [...new Set(qbTransactions.map(t => t.name.toUpperCase().trim()))].filter(v => v).sort();
+  
+  return { bankVendors, qbVendors };
+}
+
+/**
+ * Analyze vendors with the chosen provider and suggest mappings
+ * (canonical name -> variants).
+ *
+ * Model providers get the vendor lists in batches. Each response is checked
+ * against the expected shape and retried with backoff when it does not fit;
+ * variants the model made up (not in the batch's lists) are dropped. A batch
+ * that still fails is skipped - the analysis only fails when every batch does.
+ */
+export async function analyzeVendors(
+  settings: LLMProviderSettings,
+  bankTransactions: BankTransaction[],
+  qbTransactions: QBTransaction[],
+  onProgress: LLMProgress = () => {}
+): Promise<VendorMappings> {
+  const { bankVendors, qbVendors } = extractUniqueVendors(bankTransactions, qbTransactions);
+
+  if (settings.type === 'heuristic') {
+    return heuristicVendorMappings(bankVendors, qbVendors);
+  }
+
+  const client = createLLMClient(settings);
+  const batches: { bank: string[]; qb: string[] }[] = [];
+  for (const bank of chunk(bankVendors, BANK_BATCH_SIZE)) {
+    for (const qb of chunk(qbVendors, QB_BATCH_SIZE)) {
+      batches.push({ bank, qb });
+    }
+  }
+  onProgress(`${client.name}: ${bankVendors.length} bank and ${qbVendors.length} QB vendors in ${batches.length} batch(es)`, 'info');
+
+  const merged: VendorMappings = {};
+  const assigned = new Set<string>();
+  let failed = 0;
+
+  for (const [index, batch] of batches.entries()) {
+    const label = `Batch ${index + 1}/${batches.length}`;
+    onProgress(`${label}: ${batch.bank.length} bank × ${batch.qb.length} QB vendors...`, 'info');
+
+    const known = new Set([...batch.bank, ...batch.qb]);
+    const result = await completeJSON(client, buildPrompt(batch.bank, batch.qb), raw => validateMappings(raw, known), label, onProgress);
+    if (!result) {
+      failed++;
+      continue;
+    }
+
+    // A variant stays with the first canonical name it was given
+    for (const [canonical, variants] of Object.entries(result.mappings)) {
+      for (const variant of variants) {
+        if (assigned.has(variant)) continue;
+        assigned.add(variant);
+        (merged[canonical] = merged[canonical] || []).push(variant);
+      }
+    }
+
+    const dropped = result.dropped > 0 ? `, ${result.dropped} unknown variant(s) dropped` : '';
+    onProgress(`${label}: ${Object.keys(result.mappings).length} vendor group(s)${dropped}`, 'success');
+  }
+
+  if (batches.length > 0 && failed === batches.length) {
+    throw new Error(`${client.name} returned no usable mappings`);
+  }
+  if (failed > 0) {
+    onProgress(`${failed} of ${batches.length} batch(es) skipped`, 'warning');
+  }
+
+  return merged;
+}
+
+/**
+ * Check a response against the mappings schema - an object of non-empty
+ * canonical names to arrays of strings - and keep only variants from the
+ * input lists. Throws when the shape is wrong.
+ */
+function validateMappings(raw: unknown, knownVendors: Set<string>): { mappings: VendorMappings; dropped: number } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Response is not a JSON object of vendor groups');
+  }
+
+  const mappings: VendorMappings = {};
+  let dropped = 0;
+
+  for (const [key, variants] of Object.entries(raw as { [key: string]: unknown })) {
+    const canonical = key.toUpperCase().trim();
+    if (!canonical) {
+      throw new Error('Response has an empty canonical name');
+    }
+    if (!Array.isArray(variants) || variants.some(v => typeof v !== 'string')) {
+      throw new Error(`Variants of "${key}" are not a list of names`);
+    }
+
+    const kept = [...new Set((variants as string[]).map(v => v.toUpperCase().trim()))].filter(variant => {
+      if (knownVendors.has(variant)) return true;
+      if (variant) dropped++;
+      return false;
+    });
+    if (kept.length > 0) {
+      // Canonical names differing only in case come back as separate keys
+      mappings[canonical] = [...new Set([...(mappings[canonical] || []), ...kept])];
+    }
+  }
+
+  return { mappings, dropped };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function buildPrompt(bankVendors: string[], qbVendors: string[]): string {
+  return `You are a financial data analyst helping match vendor names from bank statements and QuickBooks entries.
+
+BANK VENDORS:
+${bankVendors.join('\n')}
+
+QUICKBOOKS VENDORS:
+${qbVendors.join('\n')}
+
+Analyze these vendor lists and identify which names represent the same entity but are spelled/formatted differently.
+
+Return ONLY a valid JSON object (no markdown, no code blocks) in this exact format:
+{
+  "CANONICAL_NAME": ["variant1", "variant2", "variant3"],
+  "ANOTHER_CANONICAL": ["variant_a", "variant_b"]
+}
+
+Rules:
+1. Group similar vendors under one canonical name (e.g., "CHASE", "CHASE BANK", "CHASE CARD" → all map to "CHASE")
+2. Include common abbreviations (e.g., "BK OF AMER" → "BANK OF AMERICA")
+3. Include typos and variations (e.g., "CHSE" → "CHASE")
+4. Only include mappings where you're confident they're the same entity
+5. Every variant must be copied exactly from one of the lists above - do not invent names
+6. Return ONLY the JSON object, nothing else; return {} if nothing matches
+
+Example output:
+{
+  "CHASE": ["CHASE BANK", "CHASE CARD", "CHASE CREDIT CARD", "CHSE"],
+  "BANK OF AMERICA": ["BK OF AMER", "BK OF", "BOA", "BANK OF AMERICA"]
+}`;
+}
+
+/**
+ * OFFLINE HEURISTIC
+ */
+
+/**
+ * Pair bank vendors with QB vendors without a model: names are reduced to
+ * their identifying words, then paired when the words are equal, one name's
+ * words start the other's, or the spellings are nearly the same. The QB name
+ * is the canonical one. Same input always gives the same mappings.
+ */
+export function heuristicVendorMappings(bankVendors: string[], qbVendors: string[]): VendorMappings {
+  const qbKeys = qbVendors
+    .map(name => ({ name, key: vendorWords(name) }))
+    .filter(q => q.key.length > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const mappings: VendorMappings = {};
+
+  for (const bankVendor of [...bankVendors].sort()) {
+    const bankKey = vendorWords(bankVendor);
+    if (bankKey.length === 0 || qbVendors.includes(bankVendor)) continue;
+
+    let best: { name: string; score: number } | null = null;
+    for (const qb of qbKeys) {
+      const score = wordsScore(bankKey, qb.key);
+      if (score > 0 && (!best || score > best.score)) {
+        best = { name: qb.name, score };
+      }
+    }
+    if (!best) continue;
+
+    const variants = mappings[best.name] || (mappings[best.name] = [best.name]);
+    variants.push(bankVendor);
+  }
+
+  return mappings;
+}
+
+/**
+ * Helper: Identifying words of a vendor name (no punctuation, digits or noise words)
+ */
+function vendorWords(name: string): string[] {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 1 && !NOISE_TOKENS.has(w));
+}
+
+/**
+ * Helper: How strongly two word lists name the same vendor (0 = not at all).
+ * Equal words beat a word-prefix match, which beats near-identical spelling.
+ */
+function wordsScore(a: string[], b: string[]): number {
+  const joinedA = a.join(' ');
+  const joinedB = b.join(' ');
+  if (joinedA === joinedB) return 3;
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter[0].length >= 3 && shorter.every((w, i) => longer[i] === w)) return 2;
+
+  const similarity = bigramSimilarity(joinedA, joinedB);
+  return similarity >= HEURISTIC_SIMILARITY ? similarity : 0;
+}
+
+/**
+ * Dice coefficient over character pairs
+ */
+export function bigramSimilarity(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const pair = a.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const pair = b.slice(i, i + 2);
+    const count = pairs.get(pair) || 0;
+    if (count > 0) {
+      pairs.set(pair, count - 1);
+      shared++;
+    }
+  }
+
+  return (2 * shared) / (a.length + b.length - 2);
+}
@@ -0,0 +1,421 @@
+/**
+ * RECONCILIATION WORKBOOK
+ *
+ * One formatted .xlsx with a Summary sheet and a sheet per result table
+ * (Matched, Unmatched Bank, Unmatched QB, Excluded; Accounts and Transfers
+ * for multi-account runs; Duplicates when rows repeat). Table sheets have a
+ * frozen header row, an autofilter and a SUBTOTAL row, so totals follow
+ * whatever the reader filters to.
+ */
+
+import * as XLSX from 'xlsx';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MatchedPair, BankTransaction, QBTransaction, ReconciliationResult } from './matcher';
+import { UnmatchedExplanation, EXPLANATION_LABELS } from './unmatched-explainer';
+import { ExcludedRow, EXCLUSION_REASON_LABELS, summarizeExcludedRows } from './excluded-rows';
+import { describePeriod } from './period';
+import { RECONCILING_ITEM_LABELS } from './reconciliation-statement';
+import { AccountReconciliation, TransferPair, transferGaps } from './bank-accounts';
+import { DuplicateFlag } from './duplicates';
+import { ReportContext } from './exporter';
+
+/**
+ * TYPES AND INTERFACES
+ */
+
+type CellValue = string | number | Date | null | undefined;
+
+type CellFormat = 'money' | 'date' | 'percent' | 'decimal' | 'count';
+
+/**
+ * A flagged duplicate from either side, as one Duplicates sheet row
+ */
+interface DuplicateLine {
+  side: 'Bank' | 'QB';
+  flag: DuplicateFlag<BankTransaction | QBTransaction>;
+  description: string;
+  reference: string;
+}
+
+interface Column<T> {
+  header: string;
+  /** Width in characters */
+  width: number;
+  format?: CellFormat;
+  /** Add a SUBTOTAL of this column below the table */
+  total?: boolean;
+  value: (row: T) => CellValue;
+}
+
+const FORMATS: { [F in CellFormat]: string } = {
+  money: '"$"#,##0.00_);[Red]("$"#,##0.00)',
+  date: 'mm/dd/yyyy',
+  percent: '0.0%',
+  decimal: '0.00',
+  count: '#,##0'
+};
+
+/**
+ * Write `${label}_Reconciliation.xlsx` for a (possibly reviewed) result
+ */
+export function exportWorkbook(
+  result: ReconciliationResult,
+  outputDir: string,
+  label: string,
+  context: ReportContext = {},
+  explanations: UnmatchedExplanation[] = []
+): string {
+  const filename = `${label}_Reconciliation.xlsx`;
+  const filePath = path.join(outputDir, filename);
+  const byBankId = new Map(explanations.map(e => [e.bankId, e]));
+
+  // Multi-account runs lead each table with the row's account
+  const multiAccount = !!context.byAccount && context.byAccount.length > 0;
+  const withAccount = <T>(columns: Column<T>[], account: (row: T) => string | undefined): Column<T>[] =>
+    multiAccount ? [{ header: 'Account', width: 24, value: row => account(row) || '' }, ...columns] : columns;
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, summarySheet(result, label, context), 'Summary');
+  // Every sheet after the Summary is a table with a header row to freeze
+  const tables: [XLSX.WorkSheet, string][] = [];
+  if (multiAccount) {
+    tables.push([tableSheet(context.byAccount!, ACCOUNT_COLUMNS), 'Accounts']);
+  }
+  tables.push([tableSheet(result.matched, withAccount(MATCHED_COLUMNS, m => m.bankRows[0]?.account)), 'Matched']);
+  tables.push([tableSheet(result.unmatchedBank, withAccount([
+    ...UNMATCHED_BANK_COLUMNS,
+    { header: 'Explanation', width: 24, value: t => byBankId.has(t.id) ? EXPLANATION_LABELS[byBankId.get(t.id)!.kind] : '' },
+    { header: 'Explanation Note', width: 40, value: t => byBankId.get(t.id)?.rationale || '' }
+  ], t => t.account)), 'Unmatched Bank']);
+  tables.push([tableSheet(result.unmatchedQB, withAccount(UNMATCHED_QB_COLUMNS, t => t.account)), 'Unmatched QB']);
+  tables.push([tableSheet(context.excludedRows || [], EXCLUDED_COLUMNS), 'Excluded']);
+  if (context.transfers && context.transfers.length > 0) {
+    tables.push([tableSheet(context.transfers, TRANSFER_COLUMNS), 'Transfers']);
+  }
+  if (context.duplicates && context.duplicates.bank.length + context.duplicates.qb.length > 0) {
+    const { bank, qb, heldOut } = context.duplicates;
+    const lines: DuplicateLine[] = [
+      ...bank.map(flag => ({
+        side: 'Bank' as const,
+        flag,
+        description: [flag.row.vendor, flag.row.description].filter(t => t).join(' - '),
+        reference: flag.row.fitId || flag.row.checkNumber || ''
+      })),
+      ...qb.map(flag => ({
+        side: 'QB' as const,
+        flag,
+        description: [flag.row.type, flag.row.name, flag.row.memo].filter(t => t).join(' - '),
+        reference: flag.row.transNumber
+      }))
+    ];
+    tables.push([tableSheet(lines, withAccount([
+      ...DUPLICATE_COLUMNS,
+      { header: 'Held Out', width: 10, value: () => heldOut ? 'Yes' : 'No' }
+    ], d => d.flag.row.account)), 'Duplicates']);
+  }
+  tables.forEach(([sheet, name]) => XLSX.utils.book_append_sheet(workbook, sheet, name));
+
+  const buffer = freezeHeaderRows(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }), tables.map((_table, idx) => idx + 2));
+  fs.writeFileSync(filePath, buffer);
+
+  return filePath;
+}
+
+const ACCOUNT_COLUMNS: Column<AccountReconciliation>[] = [
+  { header: 'Account', width: 24, value: a => a.account },
+  { header: 'Bank Files', width: 30, value: a => a.files.join(', ') },
+  { header: 'Bank Transactions', width: 17, total: true, format: 'count', value: a => a.result.totalBank },
+  { header: 'QB Transactions', width: 15, total: true, format: 'count', value: a => a.result.totalQB },
+  { header: 'Matched', width: 10, total: true, format: 'count', value: a => a.result.matched.length },
+  { header: 'Match Rate', width: 11, format: 'percent', value: a => a.result.matchRate / 100 },
+  { header: 'Unmatched Bank', width: 15, total: true, format: 'count', value: a => a.result.unmatchedBank.length },
+  { header: 'Unmatched QB', width: 13, total: true, format: 'count', value: a => a.result.unmatchedQB.length },
+  { header: 'Bank Ending', width: 15, format: 'money', total: true, value: a => a.statement?.bankEnding.amount },
+  { header: 'Adjusted Bank', width: 15, format: 'money', total: true, value: a => a.statement?.adjustedBank },
+  { header: 'GL Ending', width: 15, format: 'money', total: true, value: a => a.statement?.glEnding.amount },
+  { header: 'Adjusted Book', width: 15, format: 'money', total: true, value: a => a.statement?.adjustedBook },
+  { header: 'Difference', width: 15, format: 'money', total: true, value: a => a.statement?.difference }
+];
+
+const TRANSFER_COLUMNS: Column<TransferPair>[] = [
+  { header: 'Match ID', width: 10, value: t => t.matchId },
+  { header: 'From Account', width: 24, value: t => t.fromAccount },
+  { header: 'From Date', width: 12, format: 'date', value: t => t.from?.date },
+  { header: 'From Description', width: 36, value: t => t.from?.description || '' },
+  { header: 'To Account', width: 24, value: t => t.toAccount },
+  { header: 'To Date', width: 12, format: 'date', value: t => t.to?.date },
+  { header: 'To Description', width: 36, value: t => t.to?.description || '' },
+  { header: 'GL Trans #', width: 11, value: t => [...new Set([t.glCredit?.transNumber, t.glDebit?.transNumber].filter(n => n))].join(', ') },
+  { header: 'Amount', width: 15, format: 'money', total: true, value: t => t.amount },
+  { header: 'Missing', width: 30, value: t => transferGaps(t).join(', ') }
+];
+
+const DUPLICATE_COLUMNS: Column<DuplicateLine>[] = [
+  { header: 'Side', width: 6, value: d => d.side },
+  { header: 'Row', width: 26, value: d => d.flag.row.id },
+  { header: 'Date', width: 12, format: 'date', value: d => d.flag.row.date },
+  { header: 'Description', width: 40, value: d => d.description },
+  { header: 'Reference', width: 14, value: d => d.reference },
+  { header: 'Amount', width: 15, format: 'money', total: true, value: d => d.flag.row.amount },
+  { header: 'Repeats', width: 26, value: d => d.flag.original.id },
+  { header: 'Original Date', width: 13, format: 'date', value: d => d.flag.original.date },
+  { header: 'Text Similarity', width: 15, format: 'percent', value: d => d.flag.reasons.textSimilarity },
+  { header: 'Same Reference', width: 15, value: d => d.flag.reasons.sameReference ? 'Yes' : 'No' },
+  { header: 'Confidence', width: 11, format: 'percent', value: d => d.flag.confidence }
+];
+
+const MATCHED_COLUMNS: Column<MatchedPair>[] = [
+  { header: 'Match Type', width: 22, value: m => m.matchType },
+  { header: 'Confidence', width: 11, format: 'percent', value: m => m.confidence },
+  { header: 'Needs Review', width: 13, value: m => m.needsReview ? 'Yes' : 'No' },
+  { header: 'Review Status', width: 14, value: m => m.reviewStatus },
+  { header: 'Review Note', width: 30, value: m => m.reviewNote || '' },
+  { header: 'Cross Period', width: 13, value: m => m.crossPeriod ? 'Yes' : 'No' },
+  { header: 'Bank Date', width: 12, format: 'date', value: m => m.bankDate },
+  { header: 'QB Date', width: 12, format: 'date', value: m => m.qbDate },
+  { header: 'Amount', width: 15, format: 'money', total: true, value: m => m.amount },
+  { header: 'Bank Type', width: 12, value: m => m.bankType },
+  { header: 'Bank Vendor', width: 28, value: m => m.bankVendor },
+  { header: 'QB Name', width: 28, value: m => m.qbName },
+  { header: 'QB Trans #', width: 11, value: m => m.qbTransNumber },
+  { header: 'QB Type', width: 16, value: m => m.qbType },
+  { header: 'QB Memo', width: 30, value: m => m.qbMemo },
+  { header: 'QB Split', width: 24, value: m => m.qbSplit },
+  { header: 'Bank Description', width: 40, value: m => m.bankDescription },
+  { header: 'Bank Rows', width: 10, value: m => m.bankRows.length },
+  { header: 'QB Rows', width: 9, value: m => m.qbRows.length },
+  { header: 'Date Delta Days', width: 15, value: m => m.reasons.dateDeltaDays },
+  { header: 'Amount Delta', width: 13, format: 'money', value: m => m.reasons.amountDelta },
+  { header: 'Vendor Similarity', width: 17, format: 'decimal', value: m => m.reasons.vendorSimilarity },
+  { header: 'Type Compatible', width: 15, value: m => m.reasons.typeCompatible ? 'Yes' : 'No' },
+  { header: 'Competing Candidates', width: 20, value: m => m.reasons.competingCandidates }
+];
+
+const UNMATCHED_BANK_COLUMNS: Column<BankTransaction>[] = [
+  { header: 'Date', width: 12, format: 'date', value: t => t.date },
+  { header: 'Type', width: 12, value: t => t.type },
+  { header: 'Vendor', width: 28, value: t => t.vendor },
+  { header: 'Description', width: 40, value: t => t.description },
+  { header: 'Amount', width: 15, format: 'money', total: true, value: t => t.amount },
+  { header: 'Source File', width: 24, value: t => t.sourceFile },
+  { header: 'Check #', width: 10, value: t => t.checkNumber || '' },
+  { header: 'FITID', width: 20, value: t => t.fitId || '' }
+];
+
+const UNMATCHED_QB_COLUMNS: Column<QBTransaction>[] = [
+  { header: 'Date', width: 12, format: 'date', value: t => t.date },
+  { header: 'Trans #', width: 10, value: t => t.transNumber },
+  { header: 'Type', width: 16, value: t => t.type },
+  { header: 'Name', width: 28, value: t => t.name },
+  { header: 'Memo', width: 30, value: t => t.memo },
+  { header: 'Split', width: 24, value: t => t.split },
+  { header: 'Debit', width: 15, format: 'money', total: true, value: t => t.debit },
+  { header: 'Credit', width: 15, format: 'money', total: true, value: t => t.credit },
+  { header: 'Amount', width: 15, format: 'money', total: true, value: t => t.amount }
+];
+
+const EXCLUDED_COLUMNS: Column<ExcludedRow>[] = [
+  { header: 'Side', width: 6, value: e => e.side === 'bank' ? 'Bank' : 'QB' },
+  { header: 'Source', width: 24, value: e => e.source },
+  { header: 'Row', width: 6, value: e => e.row },
+  { header: 'Reason', width: 24, value: e => EXCLUSION_REASON_LABELS[e.reason] },
+  { header: 'Detail', width: 36, value: e => e.detail },
+  { header: 'Date', width: 12, format: 'date', value: e => parseDay(e.date) || e.date },
+  { header: 'Amount', width: 15, format: 'money', total: true, value: e => parseAmount(e.amount) },
+  { header: 'Row Content', width: 60, value: e => e.content }
+];
+
+/**
+ * Helper: Label/value rows of the run's headline figures
+ */
+function summarySheet(result: ReconciliationResult, label: string, context: ReportContext): XLSX.WorkSheet {
+  const rows: [string, CellValue, CellFormat?, string?][] = [];
+  const section = (title: string) => rows.push(['', null], [title, null]);
+
+  rows.push([`Bank Reconciliation - ${label}`, null]);
+  rows.push(['Generated', new Date().toLocaleString()]);
+  if (context.period) {
+    rows.push(['Period', describePeriod(context.period)]);
+    rows.push(['Lookaround days', context.period.lookaroundDays]);
+  }
+  if (context.accounts && context.accounts.length > 0) {
+    rows.push(['Cash account(s)', context.accounts.join(', ')]);
+  }
+
+  const { statement } = context;
+  if (statement) {
+    section('Reconciliation Statement');
+    rows.push(['Bank ending balance', statement.bankEnding.amount, 'money']);
+    rows.push([`Add: ${RECONCILING_ITEM_LABELS.depositInTransit}`, statement.totals.depositInTransit, 'money']);
+    rows.push([`Less: ${RECONCILING_ITEM_LABELS.outstandingCheck}`, -statement.totals.outstandingCheck, 'money']);
+    rows.push(['Adjusted bank balance', statement.adjustedBank, 'money']);
+    rows.push(['GL ending balance', statement.glEnding.amount, 'money']);
+    rows.push([`Add: ${RECONCILING_ITEM_LABELS.bankCredit}`, statement.totals.bankCredit, 'money']);
+    rows.push([`Less: ${RECONCILING_ITEM_LABELS.bankDebit}`, -statement.totals.bankDebit, 'money']);
+    rows.push(['Adjusted book balance', statement.adjustedBook, 'money']);
+    rows.push(['Difference', statement.difference, 'money',
+      statement.difference === null ? 'Enter the missing bank or GL balance' : statement.difference !== 0 ? 'UNEXPLAINED' : 'Reconciled']);
+  }
+
+  section('Matching Results');
+  rows.push(['Bank transactions', result.totalBank]);
+  rows.push(['QB transactions', result.totalQB]);
+  rows.push(['Matched', result.matched.length]);
+  rows.push(['Match rate', result.matchRate / 100, 'percent']);
+  rows.push(['Cross-period matches', result.matched.filter(m => m.crossPeriod).length]);
+  rows.push(['Needs review', result.needsReview.length]);
+  rows.push(['Unmatched bank', result.unmatchedBank.length]);
+  rows.push(['Unmatched bank amount', result.unmatchedBank.reduce((sum, t) => sum + t.amount, 0), 'money']);
+  rows.push(['Unmatched QB', result.unmatchedQB.length]);
+  rows.push(['Unmatched QB amount', result.unmatchedQB.reduce((sum, t) => sum + t.amount, 0), 'money']);
+  if (context.transfers && context.transfers.length > 0) {
+    rows.push(['Transfers between accounts', context.transfers.length, undefined, 'See the Transfers sheet']);
+  }
+
+  if (result.matched.length > 0) {
+    section('Match Breakdown');
+    const matchTypes: { [type: string]: number } = {};
+    result.matched.forEach(m => {
+      matchTypes[m.matchType] = (matchTypes[m.matchType] || 0) + 1;
+    });
+    Object.entries(matchTypes).sort((a, b) => b[1] - a[1]).forEach(([type, count]) => rows.push([type, count]));
+  }
+
+  if (context.review) {
+    section('Review');
+    rows.push(['Accepted', context.review.accepted, undefined, `${context.review.manual} linked manually`]);
+    rows.push(['Rejected', context.review.rejected]);
+    rows.push(['Not reviewed', context.review.pending]);
+  }
+
+  if (context.excludedRows && context.excludedRows.length > 0) {
+    const summary = summarizeExcludedRows(context.excludedRows);
+    section('Excluded Rows');
+    rows.push(['Bank', summary.bank]);
+    rows.push(['QB', summary.qb]);
+    summary.byReason.forEach(e => rows.push([`${e.side === 'bank' ? 'Bank' : 'QB'} - ${e.label}`, e.count]));
+  }
+
+  if (context.duplicates && context.duplicates.bank.length + context.duplicates.qb.length > 0) {
+    section('Possible Duplicates');
+    rows.push(['Bank', context.duplicates.bank.length]);
+    rows.push(['QB', context.duplicates.qb.length]);
+    rows.push(['Held out of matching', context.duplicates.heldOut ? 'Yes' : 'No']);
+  }
+
+  const sheet: XLSX.WorkSheet = {};
+  rows.forEach(([text, value, format, note], idx) => {
+    sheet[XLSX.utils.encode_cell({ r: idx, c: 0 })] = { t: 's', v: text };
+    const cell = toCell(value, format);
+    if (cell) sheet[XLSX.utils.encode_cell({ r: idx, c: 1 })] = cell;
+    if (note) sheet[XLSX.utils.encode_cell({ r: idx, c: 2 })] = { t: 's', v: note };
+  });
+  sheet['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length - 1, c: 2 } });
+  sheet['!cols'] = [{ wch: 44 }, { wch: 26 }, { wch: 36 }];
+  return sheet;
+}
+
+/**
+ * Helper: Header row, one row per item, then a Total row of SUBTOTAL formulas
+ * (the total follows the autofilter)
+ */
+function tableSheet<T>(items: T[], columns: Column<T>[]): XLSX.WorkSheet {
+  const sheet: XLSX.WorkSheet = {};
+  columns.forEach((column, c) => {
+    sheet[XLSX.utils.encode_cell({ r: 0, c })] = { t: 's', v: column.header };
+  });
+  items.forEach((item, idx) => {
+    columns.forEach((column, c) => {
+      const cell = toCell(column.value(item), column.format);
+      if (cell) sheet[XLSX.utils.encode_cell({ r: idx + 1, c })] = cell;
+    });
+  });
+
+  const lastRow = items.length;
+  const lastCol = columns.length - 1;
+  if (items.length > 0) {
+    const totalRow = lastRow + 1;
+    sheet[XLSX.utils.encode_cell({ r: totalRow, c: 0 })] = { t: 's', v: 'Total' };
+    columns.forEach((column, c) => {
+      if (!column.total) return;
+      const range = XLSX.utils.encode_range({ s: { r: 1, c }, e: { r: lastRow, c } });
+      const sum = items.reduce((total, item) => {
+        const value = column.value(item);
+        return typeof value === 'number' ? total + value : total;
+      }, 0);
+      sheet[XLSX.utils.encode_cell({ r: totalRow, c })] = {
+        t: 'n', v: Math.round(sum * 100) / 100, f: `SUBTOTAL(9,${range})`, z: FORMATS[column.format || 'money']
+      };
+    });
+    sheet['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: totalRow, c: lastCol } });
+  } else {
+    sheet['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: 0, c: lastCol } });
+  }
+
+  sheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: lastRow, c: lastCol } }) };
+  sheet['!cols'] = columns.map(column => ({ wch: column.width }));
+  return sheet;
+}
+
+/**
+ * Helper: A typed cell - dates become Excel serial numbers so they sort and filter as dates
+ */
+function toCell(value: CellValue, format?: CellFormat): XLSX.CellObject | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) {
+    return { t: 'n', v: excelDate(value), z: FORMATS[format || 'date'] };
+  }
+  if (typeof value === 'number') {
+    return format ? { t: 'n', v: value, z: FORMATS[format] } : { t: 'n', v: value };
+  }
+  return { t: 's', v: value };
+}
+
+/**
+ * Helper: Days since 12/30/1899, as Excel stores dates
+ */
+function excelDate(date: Date): number {
+  const day = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((day - Date.UTC(1899, 11, 30)) / 86400000);
+}
+
+/**
+ * Helper: Freeze the first row of the given sheets (1-based). SheetJS does not
+ * write frozen panes, so the pane is added to each sheet's XML in the package.
+ */
+function freezeHeaderRows(buffer: Buffer, sheetNumbers: number[]): Buffer {
+  const pane = '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView></sheetViews>';
+
+  const zip = XLSX.CFB.read(buffer, { type: 'buffer' });
+  for (const number of sheetNumbers) {
+    const entry = XLSX.CFB.find(zip, `/xl/worksheets/sheet${number}.xml`);
+    if (!entry) continue;
+
+    const xml = Buffer.from(entry.content).toString('utf-8');
+    const frozen = /<sheetViews>[\s\S]*?<\/sheetViews>/.test(xml)
+      ? xml.replace(/<sheetViews>[\s\S]*?<\/sheetViews>/, pane)
+      : xml.replace(/<sheetFormatPr|<cols>|<sheetData/, match => pane + match);
+    entry.content = Buffer.from(frozen, 'utf-8');
+    entry.size = entry.content.length;
+  }
+  return Buffer.from(XLSX.CFB.write(zip, { type: 'buffer', fileType: 'zip' }));
+}
+
+/**
+ * Helper: MM/DD/YYYY (as written in excluded rows) to a date
+ */
+function parseDay(value: string): Date | null {
+  const match = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  return match ? new Date(parseInt(match[3]), parseInt(match[1]) - 1, parseInt(match[2])) : null;
+}
+
+/**
+ * Helper: An amount as it appears in the file, e.g. "-1,234.56" or "$12.00"
+ * (left as text when it is not a number)
+ */
+function parseAmount(value: string): number | string {
+  const amount = Number(value.replace(/[$,\s]/g, ''));
+  return value.trim() !== '' && isFinite(amount) ? amount : value;
+}
@@ -7,13 +7,52 @@ contextBridge.exposeInMainWorld('electronAPI', {
   selectBankFile: () => ipcRenderer.invoke('select-bank-file'),
   selectQBFile: () => ipcRenderer.invoke('select-qb-file'),
   
+  // Bank import profiles
+  getBankProfiles: () => ipcRenderer.invoke('get-bank-profiles'),
+  readBankHeaders: (bankPath: string) => ipcRenderer.invoke('read-bank-headers', bankPath),
+  saveBankProfile: (profile: any) => ipcRenderer.invoke('save-bank-profile', profile),
+  deleteBankProfile: (id: string) => ipcRenderer.invoke('delete-bank-profile', id),
+  
+  // GL accounts
+  listQBAccounts: (qbPath: string) => ipcRenderer.invoke('list-qb-accounts', qbPath),
+  
+  // Vendor aliases
+  getVendorAliases: () => ipcRenderer.invoke('get-vendor-aliases'),
+  saveVendorAlias: (alias: any) => ipcRenderer.invoke('save-vendor-alias', alias),
+  deleteVendorAlias: (id: string) => ipcRenderer.invoke('delete-vendor-alias', id),
+  importVendorAliases: () => ipcRenderer.invoke('import-vendor-aliases'),
+  exportVendorAliases: () => ipcRenderer.invoke('export-vendor-aliases'),
+  
+  // Matching settings
+  getDefaultMatchingConfig: () => ipcRenderer.invoke('get-default-matching-config'),
+  
   // Processing
-  processReconciliation: (bankPath: string, qbPath: string, aiMappings?: { [key: string]: string[] }) => 
-    ipcRenderer.invoke('process-reconciliation', bankPath, qbPath, aiMappings),
+  processReconciliation: (bankFiles: any[], qbPath: string, options?: any) => 
+    ipcRenderer.invoke('process-reconciliation', bankFiles, qbPath, options),
   
   // AI Vendor Analysis
-  analyzeVendorsGemini: (apiKey: string, bankPath: string, qbPath: string) =>
-    ipcRenderer.invoke('analyze-vendors-gemini', apiKey, bankPath, qbPath),
+  getLLMProviders: () =>
+    ipcRenderer.invoke('get-llm-providers'),
+  analyzeVendors: (provider: any, bankFiles: any[], qbPath: string, options?: any) =>
+    ipcRenderer.invoke('analyze-vendors', provider, bankFiles, qbPath, options),
+  
+  // Review
+  getReview: () => ipcRenderer.invoke('get-review'),
+  reviewAccept: (matchId: string) => ipcRenderer.invoke('review-accept', matchId),
+  reviewReject: (matchId: string) => ipcRenderer.invoke('review-reject', matchId),
+  reviewUnmatch: (matchId: string) => ipcRenderer.invoke('review-unmatch', matchId),
+  reviewNote: (matchId: string, note: string) => ipcRenderer.invoke('review-note', matchId, note),
+  reviewLink: (bankIds: string[], qbIds: string[]) => ipcRenderer.invoke('review-link', bankIds, qbIds),
+  exportReviewedResults: () => ipcRenderer.invoke('export-reviewed-results'),
+  approveAliasSuggestion: (suggestion: any) => ipcRenderer.invoke('approve-alias-suggestion', suggestion),
+  rejectAliasSuggestion: (suggestion: any) => ipcRenderer.invoke('reject-alias-suggestion', suggestion),
+  explainUnmatched: (provider: any) => ipcRenderer.invoke('explain-unmatched', provider),
+  acceptExplanation: (bankId: string) => ipcRenderer.invoke('accept-explanation', bankId),
+  dismissExplanation: (bankId: string) => ipcRenderer.invoke('dismiss-explanation', bankId),
+  
+  // Sessions
+  saveSession: () => ipcRenderer.invoke('save-session'),
+  openSession: () => ipcRenderer.invoke('open-session'),
   
   // Results
   openResultsFolder: (folderPath: string) => 
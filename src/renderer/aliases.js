@@ -0,0 +1,164 @@
+// Aritas GL Matching - Vendor Alias Editor
+// Loaded after app.js; uses its addLog() and clientInput
+
+// DOM Elements
+const toggleAliasesBtn = document.getElementById('toggleAliasesBtn');
+const aliasEditor = document.getElementById('aliasEditor');
+const clientList = document.getElementById('clientList');
+const aliasFilterInput = document.getElementById('aliasFilter');
+const aliasTableEl = document.getElementById('aliasTable');
+const aliasVariantInput = document.getElementById('aliasVariant');
+const aliasCanonicalInput = document.getElementById('aliasCanonical');
+const aliasScopeSelect = document.getElementById('aliasScope');
+const saveAliasBtn = document.getElementById('saveAliasBtn');
+const cancelAliasBtn = document.getElementById('cancelAliasBtn');
+const importAliasesBtn = document.getElementById('importAliasesBtn');
+const exportAliasesBtn = document.getElementById('exportAliasesBtn');
+
+const ALIAS_SOURCE_LABELS = { builtIn: 'Built-in', ai: 'AI', learned: 'Learned', user: 'User' };
+
+// State
+let vendorAliases = [];
+let editingAliasId = null;
+
+/**
+ * Load the alias store and the known client names
+ */
+async function loadVendorAliases() {
+  const result = await window.electronAPI.getVendorAliases();
+  vendorAliases = result.aliases;
+
+  clientList.innerHTML = '';
+  for (const client of result.clients) {
+    const option = document.createElement('option');
+    option.value = client;
+    clientList.appendChild(option);
+  }
+
+  renderAliasTable();
+}
+
+/**
+ * Draw the aliases that apply to the current client (all aliases when none is entered)
+ */
+function renderAliasTable() {
+  const client = clientInput.value.trim();
+  const query = aliasFilterInput.value.trim().toUpperCase();
+
+  const rows = vendorAliases
+    .filter(a => !client || !a.client || a.client === client)
+    .filter(a => !query || a.variant.includes(query) || a.canonical.includes(query) || (a.client || '').toUpperCase().includes(query))
+    .sort((a, b) => a.canonical.localeCompare(b.canonical) || a.variant.localeCompare(b.variant));
+
+  aliasTableEl.innerHTML = '';
+
+  const thead = document.createElement('thead');
+  const headerRow = document.createElement('tr');
+  for (const label of ['Variant', 'Maps To', 'Client', 'Source', '']) {
+    const th = document.createElement('th');
+    th.textContent = label;
+    headerRow.appendChild(th);
+  }
+  thead.appendChild(headerRow);
+  aliasTableEl.appendChild(thead);
+
+  const tbody = document.createElement('tbody');
+  for (const alias of rows) {
+    const tr = document.createElement('tr');
+    for (const text of [alias.variant, alias.canonical, alias.client || 'All clients', ALIAS_SOURCE_LABELS[alias.source]]) {
+      const td = document.createElement('td');
+      td.textContent = text;
+      tr.appendChild(td);
+    }
+
+    const actions = document.createElement('td');
+    actions.className = 'review-actions';
+    if (alias.source !== 'builtIn') {
+      actions.append(
+        createActionButton('Edit', () => editAlias(alias)),
+        createActionButton('Delete', () => removeAlias(alias))
+      );
+    }
+    tr.appendChild(actions);
+    tbody.appendChild(tr);
+  }
+  aliasTableEl.appendChild(tbody);
+}
+
+/**
+ * Fill the form with an alias to edit
+ */
+function editAlias(alias) {
+  editingAliasId = alias.id;
+  aliasVariantInput.value = alias.variant;
+  aliasCanonicalInput.value = alias.canonical;
+  aliasScopeSelect.value = alias.client ? 'client' : '';
+  if (alias.client) clientInput.value = alias.client;
+  saveAliasBtn.textContent = 'Save Alias';
+  cancelAliasBtn.style.display = '';
+}
+
+function resetAliasForm() {
+  editingAliasId = null;
+  aliasVariantInput.value = '';
+  aliasCanonicalInput.value = '';
+  saveAliasBtn.textContent = 'Add Alias';
+  cancelAliasBtn.style.display = 'none';
+}
+
+async function removeAlias(alias) {
+  const result = await window.electronAPI.deleteVendorAlias(alias.id);
+  if (result.success) {
+    addLog(`Deleted vendor alias: ${alias.variant} → ${alias.canonical}`, 'info');
+    if (editingAliasId === alias.id) resetAliasForm();
+    await loadVendorAliases();
+  } else {
+    addLog(`❌ Could not delete alias: ${result.error}`, 'error');
+  }
+}
+
+saveAliasBtn.addEventListener('click', async () => {
+  const client = aliasScopeSelect.value === 'client' ? clientInput.value.trim() : '';
+  if (aliasScopeSelect.value === 'client' && !client) {
+    addLog('❌ Enter a client name to save a client alias', 'error');
+    return;
+  }
+
+  const result = await window.electronAPI.saveVendorAlias({
+    id: editingAliasId || undefined,
+    variant: aliasVariantInput.value,
+    canonical: aliasCanonicalInput.value,
+    client: client || undefined
+  });
+
+  if (result.success) {
+    resetAliasForm();
+    await loadVendorAliases();
+  } else {
+    addLog(`❌ Could not save alias: ${result.error}`, 'error');
+  }
+});
+
+cancelAliasBtn.addEventListener('click', resetAliasForm);
+
+importAliasesBtn.addEventListener('click', async () => {
+  const result = await window.electronAPI.importVendorAliases();
+  if (result && result.success) {
+    await loadVendorAliases();
+  }
+});
+
+exportAliasesBtn.addEventListener('click', async () => {
+  await window.electronAPI.exportVendorAliases();
+});
+
+toggleAliasesBtn.addEventListener('click', () => {
+  const visible = aliasEditor.style.display !== 'none';
+  aliasEditor.style.display = visible ? 'none' : 'block';
+  toggleAliasesBtn.textContent = visible ? 'Edit Aliases' : 'Hide Aliases';
+});
+
+aliasFilterInput.addEventListener('input', renderAliasTable);
+clientInput.addEventListener('input', renderAliasTable);
+
+loadVendorAliases();
@@ -3,22 +3,84 @@
 // DOM Elements
 const bankFilePathInput = document.getElementById('bankFilePath');
 const qbFilePathInput = document.getElementById('qbFilePath');
+const qbAccountListDiv = document.getElementById('qbAccountList');
 const selectBankBtn = document.getElementById('selectBankBtn');
 const selectQBBtn = document.getElementById('selectQBBtn');
-const geminiApiKeyInput = document.getElementById('geminiApiKey');
+const aiProviderSelect = document.getElementById('aiProviderSelect');
+const aiModelInput = document.getElementById('aiModelInput');
+const aiEndpointInput = document.getElementById('aiEndpointInput');
+const aiApiKeyInput = document.getElementById('aiApiKey');
+const clientInput = document.getElementById('clientInput');
 const analyzeVendorsBtn = document.getElementById('analyzeVendorsBtn');
 const processBtn = document.getElementById('processBtn');
 const openResultsBtn = document.getElementById('openResultsBtn');
+const saveSessionBtn = document.getElementById('saveSessionBtn');
+const openSessionBtn = document.getElementById('openSessionBtn');
+const csvExportsCheckbox = document.getElementById('csvExportsCheckbox');
+const holdOutDuplicatesCheckbox = document.getElementById('holdOutDuplicatesCheckbox');
 const clearLogsBtn = document.getElementById('clearLogsBtn');
 const logsDiv = document.getElementById('logs');
 const resultsStatsDiv = document.getElementById('resultsStats');
 const appVersionSpan = document.getElementById('appVersion');
 
+// Bank import profile elements
+const bankProfileSelect = document.getElementById('bankProfileSelect');
+const newProfileBtn = document.getElementById('newProfileBtn');
+const profileEditor = document.getElementById('profileEditor');
+const profileNameInput = document.getElementById('profileName');
+const profileAmountMode = document.getElementById('profileAmountMode');
+const profileInvertSign = document.getElementById('profileInvertSign');
+const profileColumnSelects = document.querySelectorAll('.profile-column');
+const saveProfileBtn = document.getElementById('saveProfileBtn');
+const cancelProfileBtn = document.getElementById('cancelProfileBtn');
+
+// Multi-account elements
+const bankAccountGroup = document.getElementById('bankAccountGroup');
+const bankAccountSelect = document.getElementById('bankAccountSelect');
+const extraStatementListDiv = document.getElementById('extraStatementList');
+const addStatementBtn = document.getElementById('addStatementBtn');
+
 // Stats elements
 const statMatched = document.getElementById('statMatched');
 const statMatchRate = document.getElementById('statMatchRate');
+const statNeedsReview = document.getElementById('statNeedsReview');
 const statUnmatchedBank = document.getElementById('statUnmatchedBank');
 const statUnmatchedQB = document.getElementById('statUnmatchedQB');
+const excludedSummaryDiv = document.getElementById('excludedSummary');
+const statementSummaryDiv = document.getElementById('statementSummary');
+
+// Matching settings elements
+const toggleSettingsBtn = document.getElementById('toggleSettingsBtn');
+const matchingSettingsDiv = document.getElementById('matchingSettings');
+const passListDiv = document.getElementById('passList');
+const strategySelect = document.getElementById('strategySelect');
+const reviewThresholdInput = document.getElementById('reviewThresholdInput');
+const resetSettingsBtn = document.getElementById('resetSettingsBtn');
+
+// Matching pass display names and tunable parameters
+const PASS_NAMES = {
+  transfer: 'Transfers between accounts',
+  exact: 'Exact (same date + amount)',
+  nearDate: 'Near Date',
+  split: 'Splits (several QB → one bank)',
+  group: 'Groups (bank-side splits, N:M)',
+  fuzzyAmount: 'Fuzzy Amount',
+  vendorType: 'Vendor + Type'
+};
+const PASS_PARAMS = {
+  transfer: [{ key: 'days', label: '± days', step: 1 }],
+  exact: [],
+  nearDate: [{ key: 'days', label: '± days', step: 1 }],
+  split: [{ key: 'days', label: '± days', step: 1 }, { key: 'maxSplitSize', label: 'max entries', step: 1 }],
+  group: [
+    { key: 'days', label: '± days', step: 1 },
+    { key: 'maxBankRows', label: 'max bank', step: 1 },
+    { key: 'maxQBRows', label: 'max QB', step: 1 },
+    { key: 'maxCandidates', label: 'search', step: 1 }
+  ],
+  fuzzyAmount: [{ key: 'days', label: '± days', step: 1 }, { key: 'amountTolerance', label: '± $', step: 0.01 }],
+  vendorType: [{ key: 'days', label: '± days', step: 1 }, { key: 'similarityThreshold', label: 'min similarity', step: 0.05 }]
+};
 
 // State
 let bankFilePath = null;
@@ -26,7 +88,12 @@ let qbFilePath = null;
 let isProcessing = false;
 let isAnalyzing = false;
 let lastResultsFolder = null;
-let aiVendorMappings = null;
+let bankProfiles = [];
+let bankHeaders = [];
+let glAccounts = [];
+let extraStatements = [];
+let matchingConfig = null;
+let llmProviders = [];
 
 /**
  * Initialize application
@@ -45,6 +112,12 @@ async function init() {
     addLog(data.message, data.level);
   });
 
+  await loadBankProfiles();
+  await loadMatchingConfig();
+  await loadAIProviders();
+  csvExportsCheckbox.checked = localStorage.getItem('csvExports') === 'true';
+  holdOutDuplicatesCheckbox.checked = localStorage.getItem('holdOutDuplicates') === 'true';
+
   addLog('Welcome to Aritas GL Matching & Reconciliation Tool', 'info');
   addLog('Select your bank and QuickBooks files to begin', 'info');
 }
@@ -60,12 +133,109 @@ selectBankBtn.addEventListener('click', async () => {
     const fileName = filePath.split(/[/\\]/).pop();
     bankFilePathInput.value = fileName;
     addLog(`✓ Bank file selected: ${fileName}`, 'success');
+    await detectBankProfile();
     updateProcessButton();
   }
 });
 
 /**
- * Select QuickBooks Excel file
+ * Load bank import profiles into the profile dropdown
+ */
+async function loadBankProfiles(selectedId = bankProfileSelect.value) {
+  bankProfiles = await window.electronAPI.getBankProfiles();
+
+  bankProfileSelect.innerHTML = '<option value="">Auto-detect import profile</option>';
+  for (const profile of bankProfiles) {
+    const option = document.createElement('option');
+    option.value = profile.id;
+    option.textContent = profile.builtIn ? profile.name : `${profile.name} (saved)`;
+    bankProfileSelect.appendChild(option);
+  }
+  bankProfileSelect.value = selectedId || '';
+  renderExtraStatements();
+}
+
+/**
+ * Read the selected bank file's headers and report the detected profile
+ */
+async function detectBankProfile() {
+  const result = await window.electronAPI.readBankHeaders(bankFilePath);
+
+  if (!result.success) {
+    bankHeaders = [];
+    addLog(`❌ Could not read bank file headers: ${result.error}`, 'error');
+  } else if (result.format === 'ofx') {
+    bankHeaders = [];
+    addLog('  OFX statement - no column mapping needed', 'info');
+  } else {
+    bankHeaders = result.headers;
+    const detected = bankProfiles.find(p => p.id === result.detectedProfileId);
+    if (detected) {
+      addLog(`  Detected import profile: ${detected.name}`, 'info');
+    } else {
+      addLog('⚠️ Bank columns not recognized - create an import profile for this bank', 'warning');
+    }
+  }
+
+  newProfileBtn.disabled = bankHeaders.length === 0;
+  bankProfileSelect.disabled = result.success && result.format === 'ofx';
+}
+
+/**
+ * Open the profile editor pre-filled with the current file's headers
+ */
+newProfileBtn.addEventListener('click', () => {
+  for (const select of profileColumnSelects) {
+    select.innerHTML = '<option value="">(none)</option>';
+    for (const header of bankHeaders) {
+      const option = document.createElement('option');
+      option.value = header;
+      option.textContent = header;
+      select.appendChild(option);
+    }
+    // Pre-select a header with the same name as the field
+    const guess = bankHeaders.find(h => h.toLowerCase() === select.dataset.field.toLowerCase());
+    select.value = guess || '';
+  }
+
+  profileNameInput.value = '';
+  profileAmountMode.value = 'signed';
+  profileInvertSign.checked = false;
+  profileEditor.style.display = 'block';
+});
+
+cancelProfileBtn.addEventListener('click', () => {
+  profileEditor.style.display = 'none';
+});
+
+/**
+ * Save the profile being edited
+ */
+saveProfileBtn.addEventListener('click', async () => {
+  const columns = {};
+  for (const select of profileColumnSelects) {
+    if (select.value) {
+      columns[select.dataset.field] = [select.value];
+    }
+  }
+
+  const result = await window.electronAPI.saveBankProfile({
+    name: profileNameInput.value.trim(),
+    columns,
+    amountMode: profileAmountMode.value,
+    invertSign: profileInvertSign.checked
+  });
+
+  if (result.success) {
+    profileEditor.style.display = 'none';
+    await loadBankProfiles(result.profile.id);
+  } else {
+    addLog(`❌ Could not save profile: ${result.error}`, 'error');
+  }
+});
+
+/**
+ * Select QuickBooks GL export
  */
 selectQBBtn.addEventListener('click', async () => {
   const filePath = await window.electronAPI.selectQBFile();
@@ -75,29 +245,415 @@ selectQBBtn.addEventListener('click', async () => {
     const fileName = filePath.split(/[/\\]/).pop();
     qbFilePathInput.value = fileName;
     addLog(`✓ QuickBooks file selected: ${fileName}`, 'success');
+    await loadQBAccounts();
     updateProcessButton();
     updateAnalyzeButton();
   }
 });
 
+/**
+ * List the GL file's accounts as checkboxes, pre-ticking likely cash accounts
+ */
+async function loadQBAccounts() {
+  qbAccountListDiv.innerHTML = '';
+  qbAccountListDiv.style.display = 'none';
+  glAccounts = [];
+  renderExtraStatements();
+
+  const result = await window.electronAPI.listQBAccounts(qbFilePath);
+  if (!result.success) {
+    addLog(`❌ Could not read GL accounts: ${result.error}`, 'error');
+    return;
+  }
+
+  if (result.accounts.length === 0) {
+    addLog('  GL file has no account column - all rows will be reconciled', 'info');
+    return;
+  }
+
+  for (const account of result.accounts) {
+    const label = document.createElement('label');
+    label.className = 'checkbox-label';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.value = account.name;
+    checkbox.checked = account.suggested;
+    checkbox.addEventListener('change', updateProcessButton);
+
+    const count = document.createElement('span');
+    count.className = 'account-count';
+    count.textContent = `(${account.transactionCount} rows)`;
+
+    label.append(checkbox, ` ${account.name} `, count);
+    qbAccountListDiv.appendChild(label);
+  }
+
+  qbAccountListDiv.style.display = 'block';
+  glAccounts = result.accounts.map(a => a.name);
+  renderExtraStatements();
+  const selected = getSelectedAccounts();
+  addLog(`  Found ${result.accounts.length} GL accounts, ${selected.length} selected as cash accounts`, 'info');
+}
+
+/**
+ * Add another bank statement, reconciled against its own GL cash account
+ */
+addStatementBtn.addEventListener('click', async () => {
+  const filePath = await window.electronAPI.selectBankFile();
+  if (!filePath) return;
+
+  extraStatements.push({ path: filePath, bankProfileId: '', account: '' });
+  addLog(`✓ Bank statement added: ${filePath.split(/[/\\]/).pop()}`, 'success');
+  renderExtraStatements();
+  updateProcessButton();
+});
+
+bankAccountSelect.addEventListener('change', () => {
+  tickCashAccount(bankAccountSelect.value);
+  updateProcessButton();
+});
+
+/**
+ * Rows for the added statements (file, import profile, GL account, remove),
+ * and the GL account choice for the first statement once there are several
+ */
+function renderExtraStatements() {
+  fillAccountOptions(bankAccountSelect, bankAccountSelect.value);
+  bankAccountGroup.style.display = extraStatements.length > 0 ? 'flex' : 'none';
+
+  extraStatementListDiv.innerHTML = '';
+  extraStatements.forEach((statement, idx) => {
+    const row = document.createElement('div');
+    row.className = 'input-group';
+
+    const name = document.createElement('span');
+    name.className = 'statement-name';
+    name.textContent = statement.path.split(/[/\\]/).pop();
+    name.title = statement.path;
+
+    const profileSelect = document.createElement('select');
+    profileSelect.className = 'input-field';
+    profileSelect.innerHTML = bankProfileSelect.innerHTML;
+    profileSelect.value = statement.bankProfileId;
+    profileSelect.addEventListener('change', () => {
+      statement.bankProfileId = profileSelect.value;
+    });
+
+    const accountSelect = document.createElement('select');
+    accountSelect.className = 'input-field';
+    fillAccountOptions(accountSelect, statement.account);
+    accountSelect.addEventListener('change', () => {
+      statement.account = accountSelect.value;
+      tickCashAccount(statement.account);
+      updateProcessButton();
+    });
+
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'btn btn-small';
+    removeBtn.textContent = 'Remove';
+    removeBtn.addEventListener('click', () => {
+      extraStatements.splice(idx, 1);
+      renderExtraStatements();
+      updateProcessButton();
+    });
+
+    row.append(name, profileSelect, accountSelect, removeBtn);
+    extraStatementListDiv.appendChild(row);
+  });
+}
+
+/**
+ * Helper: GL accounts as options of a statement's account dropdown
+ */
+function fillAccountOptions(select, selected) {
+  select.innerHTML = `<option value="">${glAccounts.length > 0 ? 'GL cash account for this statement' : 'Select the GL export to choose an account'}</option>`;
+  for (const account of glAccounts) {
+    const option = document.createElement('option');
+    option.value = account;
+    option.textContent = account;
+    select.appendChild(option);
+  }
+  select.value = glAccounts.includes(selected) ? selected : '';
+}
+
+/**
+ * Helper: Tick a statement's GL account in the cash account list
+ */
+function tickCashAccount(account) {
+  for (const checkbox of qbAccountListDiv.querySelectorAll('input[type="checkbox"]')) {
+    if (checkbox.value === account) checkbox.checked = true;
+  }
+}
+
+/**
+ * The bank statements to reconcile - GL accounts only matter when there are several
+ */
+function getBankStatements() {
+  const multiple = extraStatements.length > 0;
+  return [
+    { path: bankFilePath, bankProfileId: bankProfileSelect.value || undefined, account: multiple ? bankAccountSelect.value || undefined : undefined },
+    ...extraStatements.map(s => ({ path: s.path, bankProfileId: s.bankProfileId || undefined, account: s.account || undefined }))
+  ];
+}
+
+/**
+ * Get the ticked GL cash accounts
+ */
+function getSelectedAccounts() {
+  return Array.from(qbAccountListDiv.querySelectorAll('input[type="checkbox"]:checked')).map(cb => cb.value);
+}
+
+/**
+ * Options shared by vendor analysis and processing
+ */
+function getReconciliationOptions() {
+  return {
+    accounts: getSelectedAccounts(),
+    matchingConfig,
+    client: clientInput.value.trim() || undefined,
+    period: getReconciliationPeriod(),
+    balances: getStatementBalances(),
+    csvExports: csvExportsCheckbox.checked,
+    holdOutDuplicates: holdOutDuplicatesCheckbox.checked
+  };
+}
+
+/**
+ * Load the saved matching config, or the defaults from the main process
+ */
+async function loadMatchingConfig() {
+  const saved = localStorage.getItem('matchingConfig');
+  if (saved) {
+    try {
+      matchingConfig = JSON.parse(saved);
+    } catch (error) {
+      console.error('Ignoring invalid saved matching config:', error);
+    }
+  }
+  const defaults = await window.electronAPI.getDefaultMatchingConfig();
+  if (!matchingConfig) {
+    matchingConfig = defaults;
+  } else {
+    // Pass types added in newer versions show up (disabled) in older saved configs
+    for (const pass of defaults.passes) {
+      if (!matchingConfig.passes.some(p => p.type === pass.type)) {
+        matchingConfig.passes.push({ ...pass, enabled: false });
+      }
+    }
+  }
+  renderPassList();
+}
+
+/**
+ * Persist the matching config and redraw the settings panel
+ */
+function saveMatchingConfig() {
+  localStorage.setItem('matchingConfig', JSON.stringify(matchingConfig));
+  renderPassList();
+}
+
+/**
+ * Render one row per configured pass: enable, tune and reorder
+ */
+function renderPassList() {
+  strategySelect.value = matchingConfig.strategy || 'greedy';
+  reviewThresholdInput.value = Math.round((matchingConfig.reviewThreshold ?? 0.6) * 100);
+  passListDiv.innerHTML = '';
+
+  matchingConfig.passes.forEach((pass, idx) => {
+    const row = document.createElement('div');
+    row.className = pass.enabled ? 'pass-row' : 'pass-row disabled';
+
+    const enabled = document.createElement('input');
+    enabled.type = 'checkbox';
+    enabled.checked = pass.enabled;
+    enabled.addEventListener('change', () => {
+      pass.enabled = enabled.checked;
+      saveMatchingConfig();
+    });
+
+    const name = document.createElement('span');
+    name.className = 'pass-name';
+    name.textContent = `${idx + 1}. ${PASS_NAMES[pass.type] || pass.type}`;
+
+    row.append(enabled, name);
+
+    for (const param of PASS_PARAMS[pass.type] || []) {
+      const label = document.createElement('label');
+      label.className = 'pass-param';
+
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.className = 'input-field';
+      input.step = param.step;
+      input.value = pass[param.key];
+      input.addEventListener('change', () => {
+        const value = parseFloat(input.value);
+        if (!isNaN(value)) {
+          pass[param.key] = value;
+          saveMatchingConfig();
+        }
+      });
+
+      label.append(param.label, input);
+      row.appendChild(label);
+    }
+
+    row.append(
+      createMoveButton('▲', idx, -1),
+      createMoveButton('▼', idx, 1)
+    );
+    passListDiv.appendChild(row);
+  });
+}
+
+/**
+ * Button that swaps a pass with its neighbour
+ */
+function createMoveButton(text, idx, direction) {
+  const btn = document.createElement('button');
+  btn.className = 'btn btn-small pass-move';
+  btn.textContent = text;
+  btn.disabled = idx + direction < 0 || idx + direction >= matchingConfig.passes.length;
+  btn.addEventListener('click', () => {
+    const passes = matchingConfig.passes;
+    [passes[idx], passes[idx + direction]] = [passes[idx + direction], passes[idx]];
+    saveMatchingConfig();
+  });
+  return btn;
+}
+
+strategySelect.addEventListener('change', () => {
+  matchingConfig.strategy = strategySelect.value;
+  saveMatchingConfig();
+});
+
+reviewThresholdInput.addEventListener('change', () => {
+  const value = parseFloat(reviewThresholdInput.value);
+  if (!isNaN(value)) {
+    matchingConfig.reviewThreshold = Math.min(100, Math.max(0, value)) / 100;
+    saveMatchingConfig();
+  }
+});
+
+toggleSettingsBtn.addEventListener('click', () => {
+  const visible = matchingSettingsDiv.style.display !== 'none';
+  matchingSettingsDiv.style.display = visible ? 'none' : 'block';
+  toggleSettingsBtn.textContent = visible ? 'Show' : 'Hide';
+});
+
+resetSettingsBtn.addEventListener('click', async () => {
+  localStorage.removeItem('matchingConfig');
+  matchingConfig = await window.electronAPI.getDefaultMatchingConfig();
+  renderPassList();
+  addLog('Matching settings reset to defaults', 'info');
+});
+
+/**
+ * Load the analysis providers and the last provider settings (the API key is not saved)
+ */
+async function loadAIProviders() {
+  llmProviders = await window.electronAPI.getLLMProviders();
+  aiProviderSelect.innerHTML = '';
+  for (const provider of llmProviders) {
+    const option = document.createElement('option');
+    option.value = provider.type;
+    option.textContent = provider.label;
+    aiProviderSelect.appendChild(option);
+  }
+
+  const saved = localStorage.getItem('aiProvider');
+  if (saved) {
+    try {
+      const settings = JSON.parse(saved);
+      if (llmProviders.some(p => p.type === settings.type)) {
+        aiProviderSelect.value = settings.type;
+      }
+      aiModelInput.value = settings.model || '';
+      aiEndpointInput.value = settings.endpoint || '';
+    } catch (error) {
+      console.error('Ignoring invalid saved AI provider:', error);
+    }
+  }
+  updateProviderFields();
+}
+
+function selectedProvider() {
+  return llmProviders.find(p => p.type === aiProviderSelect.value);
+}
+
+/**
+ * Show the fields the selected provider uses, with its defaults as placeholders
+ */
+function updateProviderFields() {
+  const provider = selectedProvider();
+  const usesModel = provider && provider.type !== 'heuristic';
+
+  aiModelInput.style.display = usesModel ? '' : 'none';
+  aiModelInput.placeholder = provider && provider.defaultModel ? `Model (${provider.defaultModel})` : 'Model';
+  aiEndpointInput.style.display = provider && provider.defaultEndpoint ? '' : 'none';
+  aiEndpointInput.placeholder = provider && provider.defaultEndpoint ? `Endpoint (${provider.defaultEndpoint})` : 'Endpoint URL';
+  aiApiKeyInput.style.display = usesModel && provider.type !== 'local' ? '' : 'none';
+  aiApiKeyInput.placeholder = provider && provider.needsApiKey ? 'API key (required)' : 'API key (if the endpoint needs one)';
+
+  updateAnalyzeButton();
+}
+
+/**
+ * Persist the provider settings, without the API key
+ */
+function saveProviderSettings() {
+  localStorage.setItem('aiProvider', JSON.stringify({
+    type: aiProviderSelect.value,
+    model: aiModelInput.value.trim(),
+    endpoint: aiEndpointInput.value.trim()
+  }));
+}
+
+aiProviderSelect.addEventListener('change', () => {
+  aiModelInput.value = '';
+  aiEndpointInput.value = '';
+  saveProviderSettings();
+  updateProviderFields();
+});
+aiModelInput.addEventListener('change', saveProviderSettings);
+aiEndpointInput.addEventListener('change', saveProviderSettings);
+
 /**
  * Enable/disable analyze vendors button
  */
-geminiApiKeyInput.addEventListener('input', () => {
+aiApiKeyInput.addEventListener('input', () => {
   updateAnalyzeButton();
 });
 
 /**
- * Analyze vendors with Gemini AI
+ * Settings of the selected provider, or null (with an error logged) when its API key is missing
  */
-analyzeVendorsBtn.addEventListener('click', async () => {
-  const apiKey = geminiApiKeyInput.value.trim();
-  
-  if (!apiKey) {
-    addLog('❌ Please enter Gemini API key', 'error');
-    return;
+function getProviderSettings() {
+  const provider = selectedProvider();
+  const apiKey = aiApiKeyInput.value.trim();
+
+  if (provider.needsApiKey && !apiKey) {
+    addLog(`❌ Please enter the ${provider.label} API key`, 'error');
+    return null;
   }
 
+  return {
+    type: provider.type,
+    model: aiModelInput.value.trim() || undefined,
+    endpoint: aiEndpointInput.value.trim() || undefined,
+    apiKey: apiKey || undefined
+  };
+}
+
+/**
+ * Analyze vendors with the selected provider
+ */
+analyzeVendorsBtn.addEventListener('click', async () => {
+  const settings = getProviderSettings();
+  if (!settings) return;
+
   if (!bankFilePath || !qbFilePath) {
     addLog('❌ Please select both files first', 'error');
     return;
@@ -107,13 +663,13 @@ analyzeVendorsBtn.addEventListener('click', async () => {
   updateAnalyzeButton();
 
   try {
-    const result = await window.electronAPI.analyzeVendorsGemini(apiKey, bankFilePath, qbFilePath);
+    const result = await window.electronAPI.analyzeVendors(settings, getBankStatements(), qbFilePath, getReconciliationOptions());
 
     if (result.success) {
-      aiVendorMappings = result.mappings;
-      addLog(`✅ AI mappings applied and ready for processing`, 'success');
+      await loadVendorAliases();
+      addLog(`✅ Vendor mappings saved as vendor aliases and ready for processing`, 'success');
     } else {
-      addLog(`❌ AI analysis failed: ${result.error}`, 'error');
+      addLog(`❌ Vendor analysis failed: ${result.error}`, 'error');
     }
   } catch (error) {
     addLog(`❌ Unexpected error: ${error.message}`, 'error');
@@ -135,6 +691,7 @@ processBtn.addEventListener('click', async () => {
   isProcessing = true;
   updateProcessButton();
   hideStats();
+  hideReview();
 
   addLog('', 'info');
   addLog('═══════════════════════════════════════════════════════════', 'info');
@@ -142,14 +699,18 @@ processBtn.addEventListener('click', async () => {
   addLog('═══════════════════════════════════════════════════════════', 'info');
 
   try {
-    const result = await window.electronAPI.processReconciliation(bankFilePath, qbFilePath, aiVendorMappings);
+    const result = await window.electronAPI.processReconciliation(getBankStatements(), qbFilePath, getReconciliationOptions());
 
     if (result.success) {
       lastResultsFolder = result.outputDir;
       openResultsBtn.disabled = false;
+      saveSessionBtn.disabled = false;
       
-      // Display stats
+      // Display stats and the review screen
       showStats(result.stats);
+      showStatement(result.statement);
+      showExcludedRows(result.excluded);
+      await loadReview();
       
       addLog('', 'info');
       addLog('═══════════════════════════════════════════════════════════', 'success');
@@ -168,6 +729,20 @@ processBtn.addEventListener('click', async () => {
   }
 });
 
+/**
+ * Remember whether to write CSV files alongside the workbook
+ */
+csvExportsCheckbox.addEventListener('change', () => {
+  localStorage.setItem('csvExports', String(csvExportsCheckbox.checked));
+});
+
+/**
+ * Remember whether to hold likely duplicates out of matching
+ */
+holdOutDuplicatesCheckbox.addEventListener('change', () => {
+  localStorage.setItem('holdOutDuplicates', String(holdOutDuplicatesCheckbox.checked));
+});
+
 /**
  * Open results folder
  */
@@ -182,6 +757,75 @@ openResultsBtn.addEventListener('click', async () => {
   }
 });
 
+/**
+ * Save the last run and its review to a session file
+ */
+saveSessionBtn.addEventListener('click', async () => {
+  try {
+    await window.electronAPI.saveSession();
+  } catch (error) {
+    addLog('❌ Unexpected error: ' + error.message, 'error');
+  }
+});
+
+/**
+ * Reopen a saved session (main asks before re-running changed source files)
+ */
+openSessionBtn.addEventListener('click', async () => {
+  isProcessing = true;
+  updateProcessButton();
+
+  try {
+    const result = await window.electronAPI.openSession();
+    if (!result || !result.success) return;
+
+    await applySessionSource(result.source);
+    lastResultsFolder = result.outputDir;
+    openResultsBtn.disabled = false;
+    saveSessionBtn.disabled = false;
+
+    hideReview();
+    showStats(result.stats);
+    showStatement(result.statement);
+    showExcludedRows(result.excluded);
+    await loadReview();
+    addLog('✅ Session opened', 'success');
+  } catch (error) {
+    addLog('❌ Unexpected error: ' + error.message, 'error');
+  } finally {
+    isProcessing = false;
+    updateProcessButton();
+  }
+});
+
+/**
+ * Show a reopened session's files and settings as the current selection
+ */
+async function applySessionSource(source) {
+  const [first, ...others] = source.bankFiles;
+  bankFilePath = first.path;
+  bankFilePathInput.value = first.path.split(/[/\\]/).pop();
+  await detectBankProfile();
+  bankProfileSelect.value = first.bankProfileId || '';
+  extraStatements = others.map(s => ({ path: s.path, bankProfileId: s.bankProfileId || '', account: s.account || '' }));
+
+  qbFilePath = source.qbPath;
+  qbFilePathInput.value = source.qbPath.split(/[/\\]/).pop();
+  await loadQBAccounts();
+  for (const checkbox of qbAccountListDiv.querySelectorAll('input[type="checkbox"]')) {
+    checkbox.checked = source.accounts.includes(checkbox.value);
+  }
+  fillAccountOptions(bankAccountSelect, first.account || '');
+
+  clientInput.value = source.client || '';
+  applyReconciliationPeriod(source.period, source.balances);
+  csvExportsCheckbox.checked = !!source.csvExports;
+  holdOutDuplicatesCheckbox.checked = !!source.holdOutDuplicates;
+  matchingConfig = source.matchingConfig;
+  renderPassList();
+  updateAnalyzeButton();
+}
+
 /**
  * Clear logs
  */
@@ -209,7 +853,11 @@ function addLog(message, level = 'info') {
  */
 function updateProcessButton() {
   const hasFiles = bankFilePath && qbFilePath;
-  processBtn.disabled = !hasFiles || isProcessing;
+  // When the GL lists accounts, at least one must be ticked
+  const hasAccounts = qbAccountListDiv.childElementCount === 0 || getSelectedAccounts().length > 0;
+  // With several statements, each needs its GL account
+  const hasStatementAccounts = extraStatements.length === 0 || (bankFilePath && getBankStatements().every(s => s.account));
+  processBtn.disabled = !hasFiles || !hasAccounts || !hasStatementAccounts || isProcessing;
   
   const btnText = processBtn.querySelector('.btn-text');
   const spinner = processBtn.querySelector('.spinner');
@@ -228,8 +876,9 @@ function updateProcessButton() {
  */
 function updateAnalyzeButton() {
   const hasFiles = bankFilePath && qbFilePath;
-  const hasApiKey = geminiApiKeyInput.value.trim().length > 0;
-  analyzeVendorsBtn.disabled = !hasFiles || !hasApiKey || isAnalyzing;
+  const provider = selectedProvider();
+  const hasApiKey = !provider || !provider.needsApiKey || aiApiKeyInput.value.trim().length > 0;
+  analyzeVendorsBtn.disabled = !hasFiles || !provider || !hasApiKey || isAnalyzing;
   
   const btnText = analyzeVendorsBtn.querySelector('.btn-text');
   const spinner = analyzeVendorsBtn.querySelector('.spinner');
@@ -249,12 +898,72 @@ function updateAnalyzeButton() {
 function showStats(stats) {
   statMatched.textContent = stats.totalMatched.toLocaleString();
   statMatchRate.textContent = stats.matchRate.toFixed(1) + '%';
+  statNeedsReview.textContent = stats.needsReview.toLocaleString();
   statUnmatchedBank.textContent = stats.unmatchedBank.toLocaleString();
   statUnmatchedQB.textContent = stats.unmatchedQB.toLocaleString();
   
   resultsStatsDiv.style.display = 'block';
 }
 
+/**
+ * Show how many source rows were left out of matching, and why
+ */
+function showExcludedRows(summary) {
+  if (!summary || summary.bank + summary.qb === 0) {
+    excludedSummaryDiv.style.display = 'none';
+    return;
+  }
+
+  const describe = side => summary.byReason
+    .filter(e => e.side === side)
+    .map(e => `${e.label}: ${e.count.toLocaleString()}`)
+    .join(', ');
+
+  excludedSummaryDiv.innerHTML = '';
+  const title = document.createElement('strong');
+  title.textContent = 'Excluded rows (listed in Excluded_Rows.csv)';
+  excludedSummaryDiv.appendChild(title);
+  for (const [side, label] of [['bank', 'Bank'], ['qb', 'QB']]) {
+    if (summary[side] === 0) continue;
+    const line = document.createElement('div');
+    line.textContent = `${label}: ${summary[side].toLocaleString()} - ${describe(side)}`;
+    excludedSummaryDiv.appendChild(line);
+  }
+  excludedSummaryDiv.style.display = 'block';
+}
+
+/**
+ * Show the reconciliation statement totals, with any unexplained difference highlighted
+ */
+function showStatement(statement) {
+  if (!statement) {
+    statementSummaryDiv.style.display = 'none';
+    return;
+  }
+
+  const money = value => (value === null ? 'n/a' : formatMoney(value));
+  statementSummaryDiv.innerHTML = '';
+  const title = document.createElement('strong');
+  title.textContent = `Reconciliation statement (${statement.itemCount} reconciling item(s), see Reconciliation_Statement.txt)`;
+  statementSummaryDiv.appendChild(title);
+
+  const balances = document.createElement('div');
+  balances.textContent = `Adjusted bank balance: ${money(statement.adjustedBank)} · Adjusted book balance: ${money(statement.adjustedBook)}`;
+  statementSummaryDiv.appendChild(balances);
+
+  const difference = document.createElement('div');
+  if (statement.difference === null) {
+    difference.textContent = 'Difference: not available - enter the missing bank or GL balance';
+  } else if (statement.difference === 0) {
+    difference.textContent = 'Difference: $0.00 - reconciled';
+  } else {
+    difference.textContent = `Unexplained difference: ${money(statement.difference)}`;
+    difference.className = 'statement-difference';
+  }
+  statementSummaryDiv.appendChild(difference);
+  statementSummaryDiv.style.display = 'block';
+}
+
 /**
  * Hide statistics
  */
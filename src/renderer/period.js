@@ -0,0 +1,187 @@
+// Aritas GL Matching - Reconciliation Period and Statement Balances
+// Loaded after app.js; getReconciliationOptions() and applySessionSource() use
+// getReconciliationPeriod(), getStatementBalances() and applyReconciliationPeriod()
+
+// DOM Elements
+const periodPresetSelect = document.getElementById('periodPreset');
+const periodYearInput = document.getElementById('periodYear');
+const periodQuarterSelect = document.getElementById('periodQuarter');
+const periodMonthSelect = document.getElementById('periodMonth');
+const fiscalStartMonthSelect = document.getElementById('fiscalStartMonth');
+const periodStartInput = document.getElementById('periodStart');
+const periodEndInput = document.getElementById('periodEnd');
+const lookaroundDaysInput = document.getElementById('lookaroundDays');
+const balanceInputs = {
+  bankOpening: document.getElementById('bankOpeningInput'),
+  bankEnding: document.getElementById('bankEndingInput'),
+  glOpening: document.getElementById('glOpeningInput'),
+  glEnding: document.getElementById('glEndingInput')
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DEFAULT_LOOKAROUND_DAYS = 7;
+
+// Inputs shown for each preset
+const PERIOD_PRESET_FIELDS = {
+  auto: [],
+  year: [periodYearInput],
+  quarter: [periodYearInput, periodQuarterSelect],
+  month: [periodYearInput, periodMonthSelect],
+  fiscalYear: [periodYearInput, fiscalStartMonthSelect],
+  custom: []
+};
+
+/**
+ * Fill the month lists and restore the remembered period selection
+ */
+function initPeriodSelection() {
+  MONTH_NAMES.forEach((name, idx) => {
+    periodMonthSelect.add(new Option(name, String(idx + 1)));
+    fiscalStartMonthSelect.add(new Option(`FY starts in ${name}`, String(idx + 1)));
+  });
+
+  const now = new Date();
+  const saved = JSON.parse(localStorage.getItem('reconciliationPeriod') || '{}');
+  periodPresetSelect.value = saved.preset || 'auto';
+  periodYearInput.value = saved.year || now.getFullYear();
+  periodQuarterSelect.value = saved.quarter || String(Math.floor(now.getMonth() / 3) + 1);
+  periodMonthSelect.value = saved.month || String(now.getMonth() + 1);
+  fiscalStartMonthSelect.value = saved.fiscalStartMonth || '1';
+  periodStartInput.value = saved.start || '';
+  periodEndInput.value = saved.end || '';
+  lookaroundDaysInput.value = saved.lookaroundDays ?? DEFAULT_LOOKAROUND_DAYS;
+
+  updatePeriodFields();
+}
+
+/**
+ * Show the inputs of the chosen preset and fill in its start and end dates
+ */
+function updatePeriodFields() {
+  const preset = periodPresetSelect.value;
+  for (const input of [periodYearInput, periodQuarterSelect, periodMonthSelect, fiscalStartMonthSelect]) {
+    input.style.display = PERIOD_PRESET_FIELDS[preset].includes(input) ? '' : 'none';
+  }
+
+  const range = presetRange(preset);
+  if (range) {
+    periodStartInput.value = range.start;
+    periodEndInput.value = range.end;
+  } else if (preset === 'auto') {
+    periodStartInput.value = '';
+    periodEndInput.value = '';
+  }
+  periodStartInput.disabled = preset === 'auto';
+  periodEndInput.disabled = preset === 'auto';
+
+  savePeriodSelection();
+}
+
+/**
+ * Start and end dates (YYYY-MM-DD) of a preset, or null for auto/custom.
+ * Fiscal years are named for the year they end in: FY2025 starting in July
+ * runs from 07/01/2024 to 06/30/2025.
+ */
+function presetRange(preset) {
+  const year = parseInt(periodYearInput.value, 10);
+  if (!year) return null;
+
+  switch (preset) {
+    case 'year':
+      return monthRange(year, 0, 12);
+    case 'quarter':
+      return monthRange(year, (parseInt(periodQuarterSelect.value, 10) - 1) * 3, 3);
+    case 'month':
+      return monthRange(year, parseInt(periodMonthSelect.value, 10) - 1, 1);
+    case 'fiscalYear': {
+      const startMonth = parseInt(fiscalStartMonthSelect.value, 10) - 1;
+      return monthRange(startMonth === 0 ? year : year - 1, startMonth, 12);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Helper: `months` whole months starting at month index `month` of `year`
+ */
+function monthRange(year, month, months) {
+  return {
+    start: isoDate(new Date(year, month, 1)),
+    end: isoDate(new Date(year, month + months, 0))
+  };
+}
+
+function isoDate(date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Period sent with a reconciliation - without dates, the main process uses the
+ * calendar year in the file names
+ */
+function getReconciliationPeriod() {
+  const lookaroundDays = parseInt(lookaroundDaysInput.value, 10);
+  const period = { lookaroundDays: Number.isNaN(lookaroundDays) ? DEFAULT_LOOKAROUND_DAYS : lookaroundDays };
+  if (periodPresetSelect.value !== 'auto') {
+    period.start = periodStartInput.value;
+    period.end = periodEndInput.value;
+  }
+  return period;
+}
+
+/**
+ * Balances entered for the reconciliation statement - blank ones are left out
+ */
+function getStatementBalances() {
+  const balances = {};
+  for (const [key, input] of Object.entries(balanceInputs)) {
+    const value = parseFloat(input.value);
+    if (!Number.isNaN(value)) balances[key] = value;
+  }
+  return balances;
+}
+
+/**
+ * Show a reopened session's period as custom dates, with its entered balances
+ */
+function applyReconciliationPeriod(period, balances = {}) {
+  periodPresetSelect.value = 'custom';
+  periodStartInput.value = period.start;
+  periodEndInput.value = period.end;
+  lookaroundDaysInput.value = period.lookaroundDays;
+  for (const [key, input] of Object.entries(balanceInputs)) {
+    input.value = balances[key] ?? '';
+  }
+  updatePeriodFields();
+}
+
+function savePeriodSelection() {
+  localStorage.setItem('reconciliationPeriod', JSON.stringify({
+    preset: periodPresetSelect.value,
+    year: periodYearInput.value,
+    quarter: periodQuarterSelect.value,
+    month: periodMonthSelect.value,
+    fiscalStartMonth: fiscalStartMonthSelect.value,
+    start: periodStartInput.value,
+    end: periodEndInput.value,
+    lookaroundDays: lookaroundDaysInput.value
+  }));
+}
+
+periodPresetSelect.addEventListener('change', updatePeriodFields);
+for (const input of [periodYearInput, periodQuarterSelect, periodMonthSelect, fiscalStartMonthSelect]) {
+  input.addEventListener('change', updatePeriodFields);
+}
+
+// Editing a date by hand makes the period custom
+for (const input of [periodStartInput, periodEndInput]) {
+  input.addEventListener('change', () => {
+    periodPresetSelect.value = 'custom';
+    updatePeriodFields();
+  });
+}
+
+lookaroundDaysInput.addEventListener('change', savePeriodSelection);
+
+initPeriodSelection();
@@ -0,0 +1,427 @@
+// Aritas GL Matching - Review Screen
+// Loaded after app.js; uses its addLog(), showStats(), showStatement() and getProviderSettings()
+
+// DOM Elements
+const reviewSection = document.getElementById('reviewSection');
+const reviewTabs = document.querySelectorAll('.review-tab');
+const reviewCountMatches = document.getElementById('reviewCountMatches');
+const reviewCountBank = document.getElementById('reviewCountBank');
+const reviewCountQB = document.getElementById('reviewCountQB');
+const reviewCountAliases = document.getElementById('reviewCountAliases');
+const reviewFilterInput = document.getElementById('reviewFilter');
+const reviewStatusFilter = document.getElementById('reviewStatusFilter');
+const reviewTableEl = document.getElementById('reviewTable');
+const reviewFooter = document.getElementById('reviewFooter');
+const linkBanner = document.getElementById('linkBanner');
+const linkBannerText = document.getElementById('linkBannerText');
+const confirmLinkBtn = document.getElementById('confirmLinkBtn');
+const cancelLinkBtn = document.getElementById('cancelLinkBtn');
+const exportReviewedBtn = document.getElementById('exportReviewedBtn');
+const explainUnmatchedBtn = document.getElementById('explainUnmatchedBtn');
+
+// Rows drawn per table - filter to narrow down larger lists
+const REVIEW_ROW_LIMIT = 500;
+
+// Columns per table: `value` feeds sorting and filtering, `format` the cell text,
+// `edit` makes the cell a text box saved on change
+const REVIEW_COLUMNS = {
+  matches: [
+    { key: 'status', label: 'Status', value: m => (m.needsReview ? 'needs review' : m.status) },
+    { key: 'matchType', label: 'Match Type' },
+    { key: 'crossPeriod', label: 'Period', value: m => (m.crossPeriod ? 'cross-period' : '') },
+    { key: 'confidence', label: 'Conf.', format: v => `${Math.round(v * 100)}%` },
+    { key: 'bankDate', label: 'Bank Date', format: formatReviewDate },
+    { key: 'qbDate', label: 'QB Date', format: formatReviewDate },
+    { key: 'amount', label: 'Amount', format: formatMoney },
+    { key: 'bankVendor', label: 'Bank Vendor' },
+    { key: 'qbName', label: 'QB Name' },
+    { key: 'qbTransNumber', label: 'Trans #' },
+    { key: 'note', label: 'Note', edit: (row, text) => window.electronAPI.reviewNote(row.id, text) }
+  ],
+  bank: [
+    { key: 'date', label: 'Date', format: formatReviewDate },
+    { key: 'type', label: 'Type' },
+    { key: 'vendor', label: 'Vendor' },
+    { key: 'description', label: 'Description' },
+    { key: 'amount', label: 'Amount', format: formatMoney },
+    {
+      key: 'explanation',
+      label: 'Suggestion',
+      value: r => (r.explanation ? `${r.explanation.status === 'accepted' ? '✓ ' : ''}${r.explanation.label}: ${r.explanation.rationale}` : '')
+    }
+  ],
+  qb: [
+    { key: 'date', label: 'Date', format: formatReviewDate },
+    { key: 'transNumber', label: 'Trans #' },
+    { key: 'type', label: 'Type' },
+    { key: 'name', label: 'Name' },
+    { key: 'memo', label: 'Memo' },
+    { key: 'debit', label: 'Debit', format: formatMoney },
+    { key: 'credit', label: 'Credit', format: formatMoney }
+  ],
+  aliases: [
+    { key: 'variant', label: 'Bank Vendor' },
+    { key: 'canonical', label: 'Alias For' },
+    { key: 'qbNames', label: 'QB Names', value: s => s.qbNames.join(', ') },
+    { key: 'support', label: 'Confirmed Matches' },
+    { key: 'conflicting', label: 'Conflicting' }
+  ]
+};
+
+// State
+let reviewData = null;
+let aliasSuggestions = [];
+let activeReviewTable = 'matches';
+let reviewSort = { key: null, direction: 1 };
+let linkingBankRow = null;
+let linkQBIds = new Set();
+
+/**
+ * Fetch the review tables for the last run and show the review screen
+ */
+async function loadReview() {
+  cancelLink();
+  applyReviewResult(await window.electronAPI.getReview());
+  reviewSection.style.display = 'block';
+}
+
+/**
+ * Hide the review screen (a new run is starting)
+ */
+function hideReview() {
+  reviewSection.style.display = 'none';
+  reviewData = null;
+}
+
+/**
+ * Take the updated tables returned by a review action
+ */
+function applyReviewResult(result) {
+  if (!result.success) {
+    addLog(`❌ ${result.error}`, 'error');
+    return false;
+  }
+
+  reviewData = result.review;
+  aliasSuggestions = result.aliasSuggestions || [];
+  showStats(result.stats);
+  renderReviewTable();
+  return true;
+}
+
+/**
+ * Draw the active table with the current sort and filters
+ */
+function renderReviewTable() {
+  if (!reviewData) return;
+
+  reviewCountMatches.textContent = `(${reviewData.matches.length})`;
+  reviewCountBank.textContent = `(${reviewData.unmatchedBank.length})`;
+  reviewCountQB.textContent = `(${reviewData.unmatchedQB.length})`;
+  reviewCountAliases.textContent = `(${aliasSuggestions.length})`;
+  reviewTabs.forEach(tab => tab.classList.toggle('active', tab.dataset.table === activeReviewTable));
+  reviewStatusFilter.style.display = activeReviewTable === 'matches' ? '' : 'none';
+
+  const columns = REVIEW_COLUMNS[activeReviewTable];
+  const rows = getFilteredRows(columns);
+  const linking = activeReviewTable === 'qb' && linkingBankRow;
+
+  reviewTableEl.innerHTML = '';
+
+  // Header - click to sort, click again to reverse
+  const headerRow = document.createElement('tr');
+  if (linking) headerRow.appendChild(document.createElement('th'));
+  for (const column of columns) {
+    const th = document.createElement('th');
+    th.className = 'sortable';
+    th.textContent = column.label + (reviewSort.key === column.key ? (reviewSort.direction > 0 ? ' ▲' : ' ▼') : '');
+    th.addEventListener('click', () => {
+      reviewSort = { key: column.key, direction: reviewSort.key === column.key ? -reviewSort.direction : 1 };
+      renderReviewTable();
+    });
+    headerRow.appendChild(th);
+  }
+  if (activeReviewTable !== 'qb') headerRow.appendChild(document.createElement('th'));
+  const thead = document.createElement('thead');
+  thead.appendChild(headerRow);
+  reviewTableEl.appendChild(thead);
+
+  const tbody = document.createElement('tbody');
+  for (const row of rows.slice(0, REVIEW_ROW_LIMIT)) {
+    const tr = document.createElement('tr');
+
+    if (linking) {
+      const cell = document.createElement('td');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = linkQBIds.has(row.id);
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) linkQBIds.add(row.id);
+        else linkQBIds.delete(row.id);
+        updateLinkBanner();
+      });
+      cell.appendChild(checkbox);
+      tr.appendChild(cell);
+    }
+
+    for (const column of columns) {
+      const td = document.createElement('td');
+      const value = row[column.key];
+      if (column.edit) {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.className = 'review-note';
+        input.value = value;
+        input.addEventListener('change', () => runReviewAction(column.edit(row, input.value)));
+        td.appendChild(input);
+      } else {
+        td.textContent = column.format ? column.format(value) : (column.value ? column.value(row) : value);
+      }
+      tr.appendChild(td);
+    }
+
+    if (activeReviewTable === 'matches') {
+      tr.className = row.status === 'pending' && row.needsReview ? 'needs-review' : `status-${row.status}`;
+      tr.appendChild(createMatchActions(row));
+    } else if (activeReviewTable === 'bank') {
+      if (row.explanation && row.explanation.status === 'accepted') tr.className = 'status-accepted';
+      tr.appendChild(createBankActions(row));
+    } else if (activeReviewTable === 'aliases') {
+      tr.appendChild(createSuggestionActions(row));
+    }
+
+    tbody.appendChild(tr);
+  }
+  reviewTableEl.appendChild(tbody);
+
+  reviewFooter.textContent = rows.length > REVIEW_ROW_LIMIT
+    ? `Showing ${REVIEW_ROW_LIMIT} of ${rows.length} rows - use the filter to narrow the list`
+    : `${rows.length} row(s)`;
+}
+
+/**
+ * Rows of the active table after the text/status filters and sort
+ */
+function getFilteredRows(columns) {
+  const sources = {
+    matches: reviewData.matches,
+    bank: reviewData.unmatchedBank,
+    qb: reviewData.unmatchedQB,
+    aliases: aliasSuggestions
+  };
+  const source = sources[activeReviewTable];
+
+  const query = reviewFilterInput.value.trim().toLowerCase();
+  const status = reviewStatusFilter.value;
+
+  const rows = source.filter(row => {
+    if (activeReviewTable === 'matches' && status === 'crossPeriod') {
+      if (!row.crossPeriod) return false;
+    } else if (activeReviewTable === 'matches' && status) {
+      if (status === 'needsReview' ? !(row.needsReview && row.status === 'pending') : row.status !== status) {
+        return false;
+      }
+    }
+    if (!query) return true;
+    return columns.some(column => {
+      const value = column.value ? column.value(row) : row[column.key];
+      const text = [column.format ? column.format(value) : '', typeof value === 'number' ? value.toFixed(2) : String(value ?? '')];
+      return text.some(t => t.toLowerCase().includes(query));
+    });
+  });
+
+  if (reviewSort.key) {
+    const column = columns.find(c => c.key === reviewSort.key);
+    if (column) {
+      const sortValue = row => {
+        const value = column.value ? column.value(row) : row[column.key];
+        return value instanceof Date ? value.getTime() : value;
+      };
+      rows.sort((a, b) => {
+        const va = sortValue(a);
+        const vb = sortValue(b);
+        const cmp = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va ?? '').localeCompare(String(vb ?? ''));
+        return cmp * reviewSort.direction;
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Accept / Reject / Unmatch buttons for a matched row
+ */
+function createMatchActions(row) {
+  const td = document.createElement('td');
+  td.className = 'review-actions';
+
+  const accept = createActionButton('Accept', () => runReviewAction(window.electronAPI.reviewAccept(row.id)));
+  accept.disabled = row.status === 'accepted';
+  const reject = createActionButton('Reject', () => runReviewAction(window.electronAPI.reviewReject(row.id)));
+  reject.disabled = row.status === 'rejected';
+  const unmatch = createActionButton('Unmatch', () => runReviewAction(window.electronAPI.reviewUnmatch(row.id)));
+
+  td.append(accept, reject, unmatch);
+  return td;
+}
+
+/**
+ * Link button for an unmatched bank row, plus Accept / Dismiss for its suggested explanation
+ */
+function createBankActions(row) {
+  const td = document.createElement('td');
+  td.className = 'review-actions';
+  td.appendChild(createActionButton('Link…', () => startLink(row)));
+
+  if (row.explanation) {
+    if (row.explanation.status === 'suggested') {
+      const accept = createActionButton(row.explanation.kind === 'counterpart' ? 'Accept & Link' : 'Accept', () =>
+        runReviewAction(window.electronAPI.acceptExplanation(row.id))
+      );
+      td.appendChild(accept);
+    }
+    td.appendChild(createActionButton('Dismiss', () => runReviewAction(window.electronAPI.dismissExplanation(row.id))));
+  }
+  return td;
+}
+
+/**
+ * Approve / Reject buttons for a learned alias suggestion
+ */
+function createSuggestionActions(suggestion) {
+  const td = document.createElement('td');
+  td.className = 'review-actions';
+
+  const approve = createActionButton('Approve', async () => {
+    if (await runReviewAction(window.electronAPI.approveAliasSuggestion(suggestion))) {
+      await loadVendorAliases();
+    }
+  });
+  const reject = createActionButton('Reject', () => runReviewAction(window.electronAPI.rejectAliasSuggestion(suggestion)));
+
+  td.append(approve, reject);
+  return td;
+}
+
+function createActionButton(text, onClick) {
+  const btn = document.createElement('button');
+  btn.className = 'btn btn-small review-action';
+  btn.textContent = text;
+  btn.addEventListener('click', onClick);
+  return btn;
+}
+
+async function runReviewAction(request) {
+  try {
+    return applyReviewResult(await request);
+  } catch (error) {
+    addLog(`❌ Unexpected error: ${error.message}`, 'error');
+    return false;
+  }
+}
+
+/**
+ * Manual link: pick a bank row, then tick QB rows in the Unmatched QB table
+ */
+function startLink(bankRow) {
+  linkingBankRow = bankRow;
+  linkQBIds = new Set();
+  activeReviewTable = 'qb';
+  reviewSort = { key: null, direction: 1 };
+  linkBanner.style.display = 'flex';
+  updateLinkBanner();
+  renderReviewTable();
+}
+
+function cancelLink() {
+  linkingBankRow = null;
+  linkQBIds = new Set();
+  linkBanner.style.display = 'none';
+}
+
+function updateLinkBanner() {
+  const selected = reviewData.unmatchedQB.filter(qb => linkQBIds.has(qb.id));
+  const total = selected.reduce((sum, qb) => sum + (linkingBankRow.type === 'Deposit' ? qb.debit : qb.credit), 0);
+  const difference = Math.abs(linkingBankRow.amount) - total;
+
+  linkBannerText.textContent =
+    `Linking ${formatReviewDate(linkingBankRow.date)} ${linkingBankRow.vendor} ${formatMoney(linkingBankRow.amount)} → ` +
+    `${selected.length} QB row(s), ${formatMoney(total)}` +
+    (selected.length > 0 && Math.abs(difference) >= 0.005 ? ` (difference ${formatMoney(difference)})` : '');
+  confirmLinkBtn.disabled = selected.length === 0;
+}
+
+confirmLinkBtn.addEventListener('click', async () => {
+  const linked = await runReviewAction(window.electronAPI.reviewLink([linkingBankRow.id], [...linkQBIds]));
+  if (linked) {
+    cancelLink();
+    activeReviewTable = 'matches';
+    renderReviewTable();
+  }
+});
+
+cancelLinkBtn.addEventListener('click', () => {
+  cancelLink();
+  renderReviewTable();
+});
+
+reviewTabs.forEach(tab => {
+  tab.addEventListener('click', () => {
+    activeReviewTable = tab.dataset.table;
+    reviewSort = { key: null, direction: 1 };
+    renderReviewTable();
+  });
+});
+
+reviewFilterInput.addEventListener('input', renderReviewTable);
+reviewStatusFilter.addEventListener('change', renderReviewTable);
+
+/**
+ * Ask the selected provider (card 2.5) to explain the unmatched bank rows
+ */
+explainUnmatchedBtn.addEventListener('click', async () => {
+  const settings = getProviderSettings();
+  if (!settings) return;
+
+  explainUnmatchedBtn.disabled = true;
+  try {
+    if (await runReviewAction(window.electronAPI.explainUnmatched(settings))) {
+      activeReviewTable = 'bank';
+      reviewSort = { key: null, direction: 1 };
+      renderReviewTable();
+    }
+  } finally {
+    explainUnmatchedBtn.disabled = false;
+  }
+});
+
+/**
+ * Rewrite the output files from the reviewed state
+ */
+exportReviewedBtn.addEventListener('click', async () => {
+  exportReviewedBtn.disabled = true;
+  try {
+    const result = await window.electronAPI.exportReviewedResults();
+    if (result.success) {
+      showStats(result.stats);
+      showStatement(result.statement);
+      addLog('✅ Reviewed results exported', 'success');
+    } else {
+      addLog(`❌ Export failed: ${result.error}`, 'error');
+    }
+  } catch (error) {
+    addLog(`❌ Unexpected error: ${error.message}`, 'error');
+  } finally {
+    exportReviewedBtn.disabled = false;
+  }
+});
+
+function formatReviewDate(date) {
+  return date ? new Date(date).toLocaleDateString('en-US') : '';
+}
+
+function formatMoney(value) {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}